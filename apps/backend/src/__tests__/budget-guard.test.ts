@@ -0,0 +1,155 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BudgetGuard } from '../services/budget-guard';
+import { CostLedger } from '../services/cost-ledger';
+import { BudgetExceededError, CostTracker } from '../types';
+import { calculateCost } from '../utils/model-pricing';
+import { estimateTokens } from '../utils/token-estimate';
+
+describe('BudgetGuard', () => {
+  const config = { softLimit: 0.8, hardLimit: 1.0, downgradeModels: { openai: 'gpt-4o-mini' } };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should warn and downgrade past the soft limit, then refuse at the hard limit', () => {
+    const guard = new BudgetGuard(10, config);
+
+    guard.record(7.5);
+    expect(guard.level).toBe('ok');
+    expect(guard.downgradeModel('openai')).toBeUndefined();
+
+    guard.record(1);
+    expect(guard.level).toBe('soft');
+    expect(guard.downgradeModel('openai')).toBe('gpt-4o-mini');
+    expect(guard.downgradeModel('vertexai')).toBeUndefined();
+    expect(() => guard.assertAvailable()).not.toThrow();
+    expect(console.warn).toHaveBeenCalledTimes(1);
+
+    guard.record(1.5);
+    expect(guard.level).toBe('hard');
+    expect(() => guard.assertAvailable()).toThrow(BudgetExceededError);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only count records from the current month', () => {
+    const guard = new BudgetGuard(10, config);
+    const lastYear = new Date();
+    lastYear.setUTCFullYear(lastYear.getUTCFullYear() - 1);
+
+    guard.record(20, lastYear);
+
+    expect(guard.monthToDate).toBe(0);
+    expect(guard.level).toBe('ok');
+  });
+
+  it('should not enforce a budget of 0', () => {
+    const guard = new BudgetGuard(0, config);
+
+    guard.record(1000);
+
+    expect(guard.level).toBe('ok');
+    expect(() => guard.assertAvailable()).not.toThrow();
+  });
+});
+
+describe('CostLedger', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cost-ledger-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read back records written by an earlier instance', async () => {
+    const ledgerPath = path.join(directory, 'nested', 'cost-records.jsonl');
+    const record: CostTracker = {
+      provider: 'openai',
+      operation: 'generation',
+      model: 'gpt-4o-mini',
+      inputTokens: 1200,
+      outputTokens: 300,
+      cost: 0.00036,
+      timestamp: new Date('2026-10-01T09:00:00Z')
+    };
+
+    const ledger = new CostLedger(ledgerPath);
+    await ledger.append(record);
+    await ledger.append({ ...record, timestamp: new Date('2026-09-30T09:00:00Z') });
+
+    const records = await new CostLedger(ledgerPath).readRecords(new Date('2026-10-01T00:00:00Z'));
+
+    expect(records).toEqual([record]);
+  });
+
+  it('should read only what other writers appended since the last read', async () => {
+    const ledgerPath = path.join(directory, 'cost-records.jsonl');
+    const record: CostTracker = {
+      provider: 'openai',
+      operation: 'embedding',
+      model: 'text-embedding-3-small',
+      inputTokens: 1000,
+      outputTokens: 0,
+      cost: 0.00002,
+      timestamp: new Date('2026-10-01T09:00:00Z')
+    };
+    const server = new CostLedger(ledgerPath);
+    const indexer = new CostLedger(ledgerPath);
+
+    await server.append(record);
+    expect(await server.readNewRecords()).toEqual([]);
+
+    await indexer.append({ ...record, inputTokens: 2000, cost: 0.00004 });
+    await fs.appendFile(ledgerPath, '{"provider":"op');
+    expect((await server.readNewRecords()).map(read => read.inputTokens)).toEqual([2000]);
+    expect(await server.readNewRecords()).toEqual([]);
+
+    // The first read of a new instance returns every complete line
+    expect(await new CostLedger(ledgerPath).readNewRecords()).toHaveLength(2);
+  });
+
+  it('should skip a torn last line', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const ledgerPath = path.join(directory, 'cost-records.jsonl');
+    await fs.writeFile(ledgerPath, '{"provider":"openai","operation":"embedding","inputTokens":10,"cost":0.1,"timestamp":"2026-10-01T09:00:00Z"}\n{"provider":"op');
+
+    const records = await new CostLedger(ledgerPath).readRecords();
+
+    expect(records).toHaveLength(1);
+    expect(records[0]!.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should return no records when the file does not exist yet', async () => {
+    expect(await new CostLedger(path.join(directory, 'missing.jsonl')).readRecords()).toEqual([]);
+  });
+});
+
+describe('calculateCost', () => {
+  it('should price dated model versions by their family', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000 };
+
+    expect(calculateCost('openai', 'generation', 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.75);
+    expect(calculateCost('openai', 'generation', 'gpt-4o-2024-08-06', usage)).toBeCloseTo(12.5);
+  });
+
+  it('should fall back to provider prices for unknown models', () => {
+    expect(calculateCost('vertexai', 'embedding', 'custom-embedding', { inputTokens: 1_000_000, outputTokens: 0 })).toBeCloseTo(0.15);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('should count Japanese characters as about one token each', () => {
+    expect(estimateTokens('民法第七百九条')).toBe(7);
+    expect(estimateTokens('civil code')).toBe(3);
+  });
+});
@@ -0,0 +1,116 @@
+import { CitationRecognizer } from '../services/citation-recognizer';
+import { parseKanjiNumeral, toKanjiNumeral } from '../utils/kanji-numerals';
+import {
+  compareArticleNumbers,
+  normalizeArticleKey,
+  parseArticleNumber,
+  toArticleLabel
+} from '../utils/article-number';
+
+describe('kanji numerals', () => {
+  it('should convert Arabic numbers to kanji', () => {
+    expect(toKanjiNumeral(9)).toBe('九');
+    expect(toKanjiNumeral(10)).toBe('十');
+    expect(toKanjiNumeral(199)).toBe('百九十九');
+    expect(toKanjiNumeral(709)).toBe('七百九');
+    expect(toKanjiNumeral(1024)).toBe('千二十四');
+  });
+
+  it('should parse kanji numerals', () => {
+    expect(parseKanjiNumeral('七百九')).toBe(709);
+    expect(parseKanjiNumeral('百九十九')).toBe(199);
+    expect(parseKanjiNumeral('二千十')).toBe(2010);
+    expect(parseKanjiNumeral('二〇')).toBe(20);
+    expect(parseKanjiNumeral('債権')).toBeNaN();
+  });
+});
+
+describe('article numbers', () => {
+  it('should produce the same key for statute labels and user input', () => {
+    expect(normalizeArticleKey('第七百九条')).toBe('709');
+    expect(normalizeArticleKey('709条')).toBe('709');
+    expect(normalizeArticleKey('７０９')).toBe('709');
+    expect(normalizeArticleKey('第三条の二')).toBe('3-2');
+    expect(normalizeArticleKey('3条の2')).toBe('3-2');
+    expect(normalizeArticleKey('第十二条の三の二')).toBe('12-3-2');
+    expect(normalizeArticleKey('12-3-2')).toBe('12-3-2');
+    expect(normalizeArticleKey('不法行為')).toBeUndefined();
+  });
+
+  it('should render statute labels from keys', () => {
+    expect(toArticleLabel(parseArticleNumber('3-2')!)).toBe('第三条の二');
+  });
+
+  it('should order branch numbers after their parent article', () => {
+    const labels = ['第四条', '第三条の三', '第三条', '第三条の二の二', '第三条の二', '第三条の十'];
+    const sorted = labels
+      .map(label => ({ label, reference: parseArticleNumber(label)! }))
+      .sort((a, b) => compareArticleNumbers(a.reference, b.reference))
+      .map(entry => entry.label);
+
+    expect(sorted).toEqual(['第三条', '第三条の二', '第三条の二の二', '第三条の三', '第三条の十', '第四条']);
+  });
+});
+
+describe('CitationRecognizer', () => {
+  let recognizer: CitationRecognizer;
+
+  beforeEach(() => {
+    recognizer = new CitationRecognizer();
+  });
+
+  it('should recognize Arabic article numbers', () => {
+    const [citation] = recognizer.recognize('民法709条の要件を教えて');
+
+    expect(citation).toMatchObject({
+      text: '民法709条',
+      lawName: '民法',
+      articleNumber: '第七百九条',
+      articleKey: '709'
+    });
+  });
+
+  it('should recognize kanji article numbers with 第', () => {
+    const [citation] = recognizer.recognize('刑法第百九十九条について');
+
+    expect(citation?.lawName).toBe('刑法');
+    expect(citation?.articleNumber).toBe('第百九十九条');
+  });
+
+  it('should recognize branch numbers and paragraphs', () => {
+    const [citation] = recognizer.recognize('会社法３条の２第２項の意味');
+
+    expect(citation?.articleNumber).toBe('第三条の二');
+    expect(citation?.paragraphNumber).toBe(2);
+  });
+
+  it('should expand common abbreviations', () => {
+    const [citation] = recognizer.recognize('憲法9条');
+
+    expect(citation?.lawName).toBe('日本国憲法');
+    expect(citation?.articleNumber).toBe('第九条');
+  });
+
+  it('should recognize several citations in one query', () => {
+    const citations = recognizer.recognize('民法709条と民法715条の違い');
+
+    expect(citations.map(citation => citation.articleNumber)).toEqual(['第七百九条', '第七百十五条']);
+  });
+
+  it('should trim words written before a known law name', () => {
+    const [citation] = recognizer.recognize('改正民法第709条の解釈');
+
+    expect(citation).toMatchObject({ text: '民法第709条', lawName: '民法', articleKey: '709' });
+  });
+
+  it('should resolve 同法 to the law cited before it', () => {
+    const citations = recognizer.recognize('民法709条と同法710条の関係');
+
+    expect(citations.map(citation => [citation.lawName, citation.articleKey])).toEqual([['民法', '709'], ['民法', '710']]);
+    expect(recognizer.recognize('同法710条の趣旨')).toEqual([]);
+  });
+
+  it('should ignore queries without a provision', () => {
+    expect(recognizer.recognize('不法行為の成立要件は？')).toEqual([]);
+  });
+});
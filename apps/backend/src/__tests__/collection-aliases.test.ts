@@ -0,0 +1,97 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AliasedVectorStore,
+  CollectionAliasRegistry,
+  collectionFilePath,
+  versionedCollectionName
+} from '../services/collection-aliases';
+import { VectorStore } from '../types';
+
+const ALIAS = 'japanese-law-documents';
+
+const createStore = (count: number): VectorStore => ({
+  addEmbeddings: jest.fn().mockResolvedValue(undefined),
+  search: jest.fn().mockResolvedValue([]),
+  searchByEmbedding: jest.fn().mockResolvedValue([]),
+  updateEmbedding: jest.fn().mockResolvedValue(undefined),
+  updateChunks: jest.fn().mockResolvedValue(undefined),
+  deleteEmbeddings: jest.fn().mockResolvedValue(undefined),
+  getEmbeddingCount: jest.fn().mockResolvedValue(count),
+  getChunks: jest.fn().mockResolvedValue([]),
+  getChunksByRange: jest.fn().mockResolvedValue([]),
+  getDocumentChunkIds: jest.fn().mockResolvedValue([])
+});
+
+describe('collection aliases', () => {
+  let directory: string;
+  let registry: CollectionAliasRegistry;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'collection-aliases-'));
+    registry = new CollectionAliasRegistry(path.join(directory, 'collection-aliases.json'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should name versioned collections after the alias and build time', () => {
+    expect(versionedCollectionName(ALIAS, new Date('2026-10-19T09:30:00.123Z'))).toBe(`${ALIAS}-v20261019T093000`);
+  });
+
+  it('should keep the base path for the collection named like the alias', () => {
+    expect(collectionFilePath('./index-data/vectors.json', ALIAS, ALIAS)).toBe('./index-data/vectors.json');
+    expect(collectionFilePath('./index-data/vectors.json', `${ALIAS}-v1`, ALIAS))
+      .toBe(path.join('index-data', `vectors-${ALIAS}-v1.json`));
+  });
+
+  it('should remember the previous collection on switch', async () => {
+    expect(await registry.resolve(ALIAS)).toBeUndefined();
+
+    await registry.switch(ALIAS, `${ALIAS}-v1`, 'openai:text-embedding-3-small');
+    const entry = await registry.switch(ALIAS, `${ALIAS}-v2`, 'vertexai:gemini-embedding-001');
+
+    expect(entry.previous).toEqual({ collection: `${ALIAS}-v1`, embeddingModel: 'openai:text-embedding-3-small' });
+    expect(await registry.resolve(ALIAS)).toMatchObject({
+      collection: `${ALIAS}-v2`,
+      embeddingModel: 'vertexai:gemini-embedding-001'
+    });
+  });
+
+  it('should follow a switch to a collection built with the same model', async () => {
+    const stores: Record<string, VectorStore> = { [ALIAS]: createStore(1), [`${ALIAS}-v2`]: createStore(2) };
+    const aliased = new AliasedVectorStore(registry, ALIAS, async collection => stores[collection]!, {
+      embeddingModel: 'openai:text-embedding-3-small',
+      refreshIntervalMs: 0
+    });
+
+    expect(await aliased.getEmbeddingCount()).toBe(1);
+
+    await registry.switch(ALIAS, `${ALIAS}-v2`, 'openai:text-embedding-3-small');
+    await aliased.refresh();
+
+    expect(aliased.collectionName).toBe(`${ALIAS}-v2`);
+    expect(await aliased.getEmbeddingCount()).toBe(2);
+  });
+
+  it('should keep serving the current collection after a switch to another model', async () => {
+    const openCollection = jest.fn(async (collection: string) => createStore(collection === ALIAS ? 1 : 2));
+    const aliased = new AliasedVectorStore(registry, ALIAS, openCollection, {
+      embeddingModel: 'openai:text-embedding-3-small',
+      refreshIntervalMs: 0
+    });
+    await aliased.refresh();
+
+    await registry.switch(ALIAS, `${ALIAS}-v2`, 'vertexai:gemini-embedding-001');
+    await aliased.refresh();
+
+    expect(aliased.collectionName).toBe(ALIAS);
+    expect(await aliased.getEmbeddingCount()).toBe(1);
+    expect(openCollection).toHaveBeenCalledTimes(1);
+  });
+});
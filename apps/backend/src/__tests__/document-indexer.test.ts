@@ -0,0 +1,348 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createChunkId } from '../services/document-parser';
+import { LocalVectorStore } from '../services/local-vector-store';
+import { AliasedVectorStore, CollectionAliasRegistry, collectionFilePath } from '../services/collection-aliases';
+import { AliasedDocumentIndexer, DocumentIndexer } from '../utils/document-indexer';
+import { createIndexWatcher } from '../scripts/index-documents';
+import { FailureReport, IndexCheckpoint } from '../utils/index-checkpoint';
+import { DocumentParser } from '../services/document-parser';
+import { EmbeddingService } from '../types';
+
+const law = (article2: string) => `# テスト法
+
+第一条 この法律は、テストを目的とする。
+
+第二条 ${article2}
+
+第三条 この法律は、公布の日から施行する。
+`;
+
+describe('createChunkId', () => {
+  const chunk = {
+    documentPath: '/test/a.md',
+    content: '第一条 この法律は、テストを目的とする。',
+    provisionType: 'main' as const,
+    articleKey: '1'
+  };
+
+  it('should be stable for the same path, position and content', () => {
+    expect(createChunkId(chunk)).toBe(createChunkId({ ...chunk }));
+  });
+
+  it('should change with any of them', () => {
+    const id = createChunkId(chunk);
+
+    expect(createChunkId({ ...chunk, documentPath: '/test/b.md' })).not.toBe(id);
+    expect(createChunkId({ ...chunk, articleKey: '2' })).not.toBe(id);
+    expect(createChunkId({ ...chunk, provisionType: 'supplementary' })).not.toBe(id);
+    expect(createChunkId({ ...chunk, content: chunk.content + '。' })).not.toBe(id);
+  });
+});
+
+describe('DocumentIndexer', () => {
+  const embeddingService: jest.Mocked<EmbeddingService> = {
+    generateEmbedding: jest.fn().mockResolvedValue([1, 0]),
+    generateEmbeddings: jest.fn(async (texts: string[]) => texts.map(() => [1, 0]))
+  };
+
+  let directory: string;
+  let filePath: string;
+  let store: LocalVectorStore;
+  let indexer: DocumentIndexer;
+
+  const storedContents = async () => (await store.getChunksByRange(filePath, 0, 100)).map(chunk => chunk.content);
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'document-indexer-'));
+    filePath = path.join(directory, 'test.md');
+    await fs.writeFile(filePath, law('事業者は、テストを行わなければならない。'));
+
+    store = new LocalVectorStore(embeddingService);
+    indexer = new DocumentIndexer(store, new DocumentParser(), directory);
+    embeddingService.generateEmbeddings.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should not touch the store when re-indexing unchanged files', async () => {
+    await indexer.indexAllDocuments();
+    const count = await store.getEmbeddingCount();
+    const deleteEmbeddings = jest.spyOn(store, 'deleteEmbeddings');
+    const addEmbeddings = jest.spyOn(store, 'addEmbeddings');
+
+    await indexer.indexAllDocuments();
+
+    expect(count).toBeGreaterThan(0);
+    expect(await store.getEmbeddingCount()).toBe(count);
+    expect(deleteEmbeddings).not.toHaveBeenCalled();
+    expect(addEmbeddings).not.toHaveBeenCalled();
+  });
+
+  it('should replace only the chunks of a changed article', async () => {
+    await indexer.indexAllDocuments();
+    const count = await store.getEmbeddingCount();
+    embeddingService.generateEmbeddings.mockClear();
+
+    await fs.writeFile(filePath, law('事業者は、テストを記録しなければならない。'));
+    await indexer.indexIncrementalChanges([filePath]);
+
+    expect(await store.getEmbeddingCount()).toBe(count);
+    expect(embeddingService.generateEmbeddings).toHaveBeenCalledTimes(1);
+    expect(embeddingService.generateEmbeddings.mock.calls[0]?.[0]).toEqual([
+      expect.stringContaining('記録しなければならない')
+    ]);
+    expect((await storedContents()).join('\n')).not.toContain('テストを行わなければならない');
+  });
+
+  it('should not re-parse a file whose content is unchanged', async () => {
+    await indexer.indexAllDocuments();
+    const parseFile = jest.spyOn(DocumentParser.prototype, 'parseFile');
+
+    await indexer.indexIncrementalChanges([filePath]);
+
+    expect(parseFile).not.toHaveBeenCalled();
+  });
+
+  it('should drop the chunks of a deleted file', async () => {
+    await indexer.indexAllDocuments();
+    await fs.rm(filePath);
+
+    await indexer.indexIncrementalChanges([filePath]);
+
+    expect(await store.getEmbeddingCount()).toBe(0);
+  });
+
+  it('should shift the index and offsets of kept chunks after a chunk is inserted before them', async () => {
+    await indexer.indexAllDocuments();
+    const inserted = law('事業者は、テストを行わなければならない。')
+      .replace('第二条', '第一条の二 国は、テストを支援する。\n\n第二条');
+    await fs.writeFile(filePath, inserted);
+
+    await indexer.indexIncrementalChanges([filePath]);
+
+    const chunks = (await store.getChunksByRange(filePath, 0, 100)).sort((a, b) => a.chunkIndex - b.chunkIndex);
+    expect(chunks.map(chunk => chunk.chunkIndex)).toEqual(chunks.map((_, index) => index));
+    expect(chunks.map(chunk => chunk.content).join('\n')).toContain('国は、テストを支援する');
+    for (const chunk of chunks) {
+      expect(inserted.slice(chunk.startPosition, chunk.endPosition)).toContain(chunk.content.slice(-10));
+    }
+    // Only the inserted article is embedded
+    expect(embeddingService.generateEmbeddings).toHaveBeenLastCalledWith([expect.stringContaining('国は、テストを支援する')]);
+  });
+
+  it('should rewrite the title and metadata of kept chunks after a front matter edit', async () => {
+    await fs.writeFile(filePath, `---\ncategory: テスト\n---\n${law('事業者は、テストを行わなければならない。')}`);
+    await indexer.indexAllDocuments();
+    embeddingService.generateEmbeddings.mockClear();
+
+    await fs.writeFile(filePath, `---\ncategory: 民法\npromulgationDate: 1896-04-27\n---\n${law('事業者は、テストを行わなければならない。').replace('# テスト法', '# 改正テスト法')}`);
+    await indexer.indexIncrementalChanges([filePath]);
+
+    const chunks = await store.getChunksByRange(filePath, 0, 100);
+    expect(chunks.length).toBeGreaterThan(0);
+    for (const chunk of chunks) {
+      expect(chunk.title).toBe('改正テスト法');
+      expect(chunk.metadata.category).toBe('民法');
+      expect(chunk.metadata.promulgationDate).toEqual(new Date(1896, 3, 27));
+    }
+    // Only the renamed heading is embedded again; the articles keep their embeddings
+    expect(embeddingService.generateEmbeddings).toHaveBeenCalledTimes(1);
+    expect(embeddingService.generateEmbeddings).toHaveBeenCalledWith(['# 改正テスト法']);
+  });
+
+  describe('with an index manifest', () => {
+    const createIndexer = (embeddingModel = 'test:model-a') => new DocumentIndexer(store, new DocumentParser(), directory, {
+      manifestPath: path.join(directory, 'index-data', 'manifest.json'),
+      embeddingModel,
+      chunkSettings: { chunkSize: 500, overlap: 100, mode: 'structural' }
+    });
+
+    it('should skip unchanged files without parsing them', async () => {
+      await fs.writeFile(path.join(directory, 'other.md'), law('何人も、テストを妨げてはならない。'));
+      expect(await createIndexer().indexAllDocuments()).toEqual({ added: 2, updated: 0, removed: 0, unchanged: 0, failed: 0 });
+
+      await fs.writeFile(filePath, law('事業者は、テストを記録しなければならない。'));
+      const parseFile = jest.spyOn(DocumentParser.prototype, 'parseFile');
+
+      expect(await createIndexer().indexAllDocuments()).toEqual({ added: 0, updated: 1, removed: 0, unchanged: 1, failed: 0 });
+      expect(parseFile).toHaveBeenCalledTimes(1);
+      expect(parseFile).toHaveBeenCalledWith(filePath);
+    });
+
+    it('should delete the chunks of files removed since the last run', async () => {
+      const otherPath = path.join(directory, 'other.md');
+      await fs.writeFile(otherPath, law('何人も、テストを妨げてはならない。'));
+      await createIndexer().indexAllDocuments();
+      await fs.rm(otherPath);
+
+      expect(await createIndexer().indexAllDocuments()).toMatchObject({ removed: 1, unchanged: 1 });
+      expect(await store.getDocumentChunkIds(otherPath)).toEqual([]);
+      expect(await store.getDocumentChunkIds(filePath)).not.toEqual([]);
+    });
+
+    it('should re-embed every document when the embedding model changes', async () => {
+      await createIndexer('test:model-a').indexAllDocuments();
+      const count = await store.getEmbeddingCount();
+      embeddingService.generateEmbeddings.mockClear();
+
+      expect(await createIndexer('test:model-b').indexAllDocuments()).toMatchObject({ updated: 1, unchanged: 0 });
+      expect(await store.getEmbeddingCount()).toBe(count);
+      expect(embeddingService.generateEmbeddings.mock.calls.flat(2)).toHaveLength(count);
+    });
+
+    it('should record the outline of files indexed before tables of contents were kept, without embedding', async () => {
+      const manifestPath = path.join(directory, 'index-data', 'manifest.json');
+      await createIndexer().indexAllDocuments();
+      const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+      delete manifest.documents[filePath].toc;
+      await fs.writeFile(manifestPath, JSON.stringify(manifest));
+      embeddingService.generateEmbeddings.mockClear();
+
+      expect(await createIndexer().indexAllDocuments()).toMatchObject({ updated: 1, unchanged: 0 });
+      expect(embeddingService.generateEmbeddings).not.toHaveBeenCalled();
+      expect(JSON.parse(await fs.readFile(manifestPath, 'utf-8')).documents[filePath].toc).toMatchObject({
+        title: 'テスト法',
+        structure: [{ label: '第一条' }, { label: '第二条' }, { label: '第三条' }]
+      });
+    });
+
+    it('should ignore the manifest when the store has been emptied', async () => {
+      await createIndexer().indexAllDocuments();
+      store = new LocalVectorStore(embeddingService);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      expect(await createIndexer().indexAllDocuments()).toMatchObject({ added: 1, unchanged: 0 });
+      expect(await store.getEmbeddingCount()).toBeGreaterThan(0);
+    });
+  });
+
+  describe('checkpoints and failures', () => {
+    const checkpointPath = () => path.join(directory, 'index-data', 'checkpoint.json');
+    const failureReportPath = () => path.join(directory, 'index-data', 'failures.json');
+    const createIndexer = () => new DocumentIndexer(store, new DocumentParser(), directory, {
+      manifestPath: path.join(directory, 'index-data', 'manifest.json'),
+      checkpointPath: checkpointPath(),
+      failureReportPath: failureReportPath()
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    it('should skip files completed before an interruption when resuming', async () => {
+      const otherPath = path.join(directory, 'other.md');
+      await fs.writeFile(otherPath, law('何人も、テストを妨げてはならない。'));
+
+      const checkpoint = new IndexCheckpoint(checkpointPath());
+      checkpoint.completed.add(filePath);
+      checkpoint.summary.added = 1;
+      await checkpoint.save();
+
+      const parseFile = jest.spyOn(DocumentParser.prototype, 'parseFile');
+      const summary = await createIndexer().indexAllDocuments({ resume: true });
+
+      expect(summary).toMatchObject({ added: 2, failed: 0 });
+      expect(parseFile).toHaveBeenCalledTimes(1);
+      expect(parseFile).toHaveBeenCalledWith(otherPath);
+      await expect(fs.access(checkpointPath())).rejects.toThrow();
+    });
+
+    it('should start over when not resuming', async () => {
+      const checkpoint = new IndexCheckpoint(checkpointPath());
+      checkpoint.completed.add(filePath);
+      await checkpoint.save();
+
+      expect(await createIndexer().indexAllDocuments()).toMatchObject({ added: 1 });
+    });
+
+    it('should report failed files and retry only those', async () => {
+      const otherPath = path.join(directory, 'other.md');
+      await fs.writeFile(otherPath, law('何人も、テストを妨げてはならない。'));
+      await createIndexer().indexAllDocuments();
+
+      await fs.writeFile(otherPath, law('何人も、テストを妨げることができない。'));
+      embeddingService.generateEmbeddings.mockRejectedValueOnce(new Error('quota exceeded'));
+
+      expect(await createIndexer().indexAllDocuments()).toMatchObject({ updated: 0, failed: 1 });
+
+      const report = new FailureReport(failureReportPath());
+      await report.load();
+      expect(report.list()).toEqual([expect.objectContaining({ filePath: otherPath, error: 'quota exceeded' })]);
+
+      const parseFile = jest.spyOn(DocumentParser.prototype, 'parseFile');
+      expect(await createIndexer().retryFailedDocuments()).toMatchObject({ updated: 1, failed: 0 });
+      expect(parseFile).toHaveBeenCalledTimes(1);
+      expect(parseFile).toHaveBeenCalledWith(otherPath);
+
+      await report.load();
+      expect(report.size).toBe(0);
+    });
+
+    it('should fail only the documents whose chunks the store could not keep', async () => {
+      const otherPath = path.join(directory, 'other.md');
+      await fs.writeFile(otherPath, law('何人も、テストを妨げてはならない。'));
+      embeddingService.generateEmbeddings.mockImplementationOnce(async (texts: string[]) =>
+        texts.map(text => text.includes('妨げ') ? undefined as unknown as number[] : [1, 0]));
+
+      expect(await createIndexer().indexAllDocuments()).toMatchObject({ added: 1, failed: 1 });
+
+      const report = new FailureReport(failureReportPath());
+      await report.load();
+      expect(report.list()).toEqual([expect.objectContaining({ filePath: otherPath })]);
+      expect(await createIndexer().retryFailedDocuments()).toMatchObject({ added: 1, failed: 0 });
+    });
+  });
+
+  describe('behind a collection alias', () => {
+    const ALIAS = 'japanese-law-documents';
+
+    it('should index into the collection the alias points to when a run starts', async () => {
+      const registry = new CollectionAliasRegistry(path.join(directory, 'collection-aliases.json'));
+      const stores: Record<string, LocalVectorStore> = {
+        [ALIAS]: store,
+        [`${ALIAS}-v2`]: new LocalVectorStore(embeddingService)
+      };
+      const aliased = new AliasedVectorStore(registry, ALIAS, async collection => stores[collection]!, { refreshIntervalMs: 0 });
+      const manifestPath = path.join(directory, 'index-data', 'manifest.json');
+      const indexer = new AliasedDocumentIndexer(aliased, directory, ALIAS, {
+        manifestPath,
+        checkpointPath: path.join(directory, 'index-data', 'checkpoint.json'),
+        failureReportPath: path.join(directory, 'index-data', 'failures.json')
+      });
+
+      await indexer.indexIncrementalChanges([filePath]);
+      await registry.switch(ALIAS, `${ALIAS}-v2`);
+      await indexer.indexIncrementalChanges([filePath]);
+
+      expect(await stores[`${ALIAS}-v2`]!.getEmbeddingCount()).toBe(await store.getEmbeddingCount());
+      await expect(fs.access(collectionFilePath(manifestPath, `${ALIAS}-v2`, ALIAS))).resolves.toBeUndefined();
+    });
+
+    it('should let index-documents --watch follow an alias switch', async () => {
+      const registry = new CollectionAliasRegistry(path.join(directory, 'collection-aliases.json'));
+      const v2 = new LocalVectorStore(embeddingService);
+      const stores: Record<string, LocalVectorStore> = { [ALIAS]: store, [`${ALIAS}-v2`]: v2 };
+      const aliased = new AliasedVectorStore(registry, ALIAS, async collection => stores[collection]!, { refreshIntervalMs: 0 });
+      await aliased.refresh();
+      const watcher = createIndexWatcher(aliased, directory, {
+        manifestPath: path.join(directory, 'index-data', 'manifest.json'),
+        checkpointPath: path.join(directory, 'index-data', 'checkpoint.json'),
+        failureReportPath: path.join(directory, 'index-data', 'failures.json')
+      });
+
+      await registry.switch(ALIAS, `${ALIAS}-v2`);
+      watcher.schedule(filePath);
+      await watcher.flush();
+
+      expect(await v2.getEmbeddingCount()).toBeGreaterThan(0);
+      expect(await store.getEmbeddingCount()).toBe(0);
+    });
+  });
+});
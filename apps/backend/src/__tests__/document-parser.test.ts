@@ -49,6 +49,39 @@ Some content here.`;
       expect(result.metadata.lawNumber).toBe('321AC0000000001');
     });
 
+    it('should decode e-Gov law numbers', async () => {
+      const mockStats = { mtime: new Date('2023-01-01') };
+      
+      mockFs.readFile.mockResolvedValue('# Test Law');
+      mockFs.stat.mockResolvedValue(mockStats as any);
+
+      const law = await parser.parseMarkdownFile('/test/322AC0000000067_20230401_000000000000000.md');
+      const constitution = await parser.parseMarkdownFile('/test/321CONSTITUTION_19470503_000000000000000.md');
+
+      expect(law.metadata).toMatchObject({
+        lawNumber: '322AC0000000067',
+        officialLawNumber: '昭和二十二年法律第六十七号',
+        lawType: '法律',
+        lawTypeCode: 'AC',
+        era: '昭和',
+        eraYear: 22,
+        lawSerialNumber: 67
+      });
+      expect(constitution.metadata.officialLawNumber).toBe('昭和二十一年憲法');
+      expect(constitution.metadata.lawType).toBe('憲法');
+    });
+
+    it('should not invent the official number of a 省令', async () => {
+      mockFs.readFile.mockResolvedValue('# Test Ordinance');
+      mockFs.stat.mockResolvedValue({ mtime: new Date('2023-01-01') } as any);
+
+      const ordinance = await parser.parseMarkdownFile('/test/322M40000100049_20230401_000000000000000.md');
+
+      expect(ordinance.metadata.lawType).toBe('省令');
+      expect(ordinance.metadata.lawSerialNumber).toBe(49);
+      expect(ordinance.metadata.officialLawNumber).toBeUndefined();
+    });
+
     it('should extract date from filename', async () => {
       const testContent = '# Test Law';
       const mockStats = { mtime: new Date('2023-01-01') };
@@ -60,6 +93,175 @@ Some content here.`;
 
       expect(result.metadata.date).toEqual(new Date(1947, 4, 3));
     });
+    it('should read the 公布日 from the law number line', async () => {
+      mockFs.readFile.mockResolvedValue(`# 民法
+
+（明治二十九年四月二十七日法律第八十九号）
+
+第一条　私権は、公共の福祉に適合しなければならない。
+`);
+      mockFs.stat.mockResolvedValue({ mtime: new Date('2023-01-01') } as any);
+
+      const result = await parser.parseMarkdownFile('/test/129AC0000000089_20230401_505AC0000000053.md');
+
+      expect(result.metadata.promulgationDate).toEqual(new Date(1896, 3, 27));
+      expect(result.metadata.date).toEqual(new Date(2023, 3, 1));
+    });
+
+    it('should prefer a 公布日 given in front matter', async () => {
+      mockFs.readFile.mockResolvedValue(`---
+promulgationDate: 1947-04-16
+---
+# 地方自治法
+
+昭和二十二年法律第六十七号
+`);
+      mockFs.stat.mockResolvedValue({ mtime: new Date('2023-01-01') } as any);
+
+      const result = await parser.parseMarkdownFile('/test/322AC0000000067.md');
+
+      expect(result.metadata.promulgationDate).toEqual(new Date(1947, 3, 16));
+    });
+
+    it('should extract the law structure tree', async () => {
+      const testContent = `# 民法
+
+## 第三編　債権
+
+### 第五章　不法行為
+
+（不法行為による損害賠償）
+第七百九条　故意又は過失によって他人の権利を侵害した者は、損害を賠償する責任を負う。
+
+第七百二十条　他人の不法行為に対し、やむを得ず加害行為をした者は、損害賠償の責任を負わない。
+２　前項の規定は、他人の物から生じた急迫の危難を避けるためその物を損傷した場合について準用する。
+
+附　則　（平成二九年六月二日法律第四四号）
+
+第一条　この法律は、公布の日から起算して三年を超えない範囲内において政令で定める日から施行する。
+`;
+      const mockStats = { mtime: new Date('2023-01-01') };
+
+      mockFs.readFile.mockResolvedValue(testContent);
+      mockFs.stat.mockResolvedValue(mockStats as any);
+
+      const result = await parser.parseMarkdownFile('/test/129AC0000000089.md');
+      const [part, supplementary] = result.structure || [];
+      const chapter = part?.children[0];
+
+      expect(part).toMatchObject({ type: 'part', label: '第三編', title: '債権' });
+      expect(chapter).toMatchObject({ type: 'chapter', label: '第五章', title: '不法行為' });
+      expect(chapter?.children.map(article => article.label)).toEqual(['第七百九条', '第七百二十条']);
+      expect(chapter?.children[0]?.title).toBe('（不法行為による損害賠償）');
+      expect(chapter?.children[1]?.children.map(paragraph => paragraph.label)).toEqual(['第1項', '第2項']);
+      expect(supplementary).toMatchObject({ type: 'supplementary', label: '附則', title: '（平成二九年六月二日法律第四四号）' });
+      expect(supplementary?.children[0]?.label).toBe('第一条');
+    });
+  });
+
+  describe('parseXmlFile', () => {
+    const testXml = `<?xml version="1.0" encoding="UTF-8"?>
+<Law Era="Meiji" Year="29" Num="089" LawType="Act" Lang="ja" PromulgateMonth="04" PromulgateDay="27">
+  <LawNum>明治二十九年法律第八十九号</LawNum>
+  <LawBody>
+    <LawTitle Kana="みんぽう">民法</LawTitle>
+    <MainProvision>
+      <Part Num="3">
+        <PartTitle>第三編　債権</PartTitle>
+        <Chapter Num="5">
+          <ChapterTitle>第五章　不法行為</ChapterTitle>
+          <Article Num="709">
+            <ArticleCaption>（不法行為による損害賠償）</ArticleCaption>
+            <ArticleTitle>第七百九条</ArticleTitle>
+            <Paragraph Num="1">
+              <ParagraphNum/>
+              <ParagraphSentence><Sentence>故意又は過失によって他人の権利を侵害した者は、損害を賠償する責任を負う。</Sentence></ParagraphSentence>
+            </Paragraph>
+          </Article>
+          <Article Num="720">
+            <ArticleTitle>第七百二十条</ArticleTitle>
+            <Paragraph Num="1">
+              <ParagraphNum/>
+              <ParagraphSentence><Sentence>他人の不法行為に対し、やむを得ず加害行為をした者は、損害賠償の責任を負わない。</Sentence></ParagraphSentence>
+              <Item Num="1">
+                <ItemTitle>一</ItemTitle>
+                <ItemSentence><Sentence>正当防衛の場合</Sentence></ItemSentence>
+              </Item>
+            </Paragraph>
+            <Paragraph Num="2">
+              <ParagraphNum>２</ParagraphNum>
+              <ParagraphSentence><Sentence>前項の規定は、<Ruby>危難<Rt>きなん</Rt></Ruby>を避ける場合について準用する。</Sentence></ParagraphSentence>
+            </Paragraph>
+          </Article>
+        </Chapter>
+      </Part>
+    </MainProvision>
+    <SupplProvision AmendLawNum="平成二九年六月二日法律第四四号" Extract="true">
+      <SupplProvisionLabel>附　則</SupplProvisionLabel>
+      <Article Num="1">
+        <ArticleTitle>第一条</ArticleTitle>
+        <Paragraph Num="1">
+          <ParagraphNum/>
+          <ParagraphSentence><Sentence>この法律は、政令で定める日から施行する。</Sentence></ParagraphSentence>
+        </Paragraph>
+      </Article>
+    </SupplProvision>
+  </LawBody>
+</Law>`;
+
+    beforeEach(() => {
+      mockFs.readFile.mockResolvedValue(testXml);
+      mockFs.stat.mockResolvedValue({ mtime: new Date('2023-01-01') } as any);
+    });
+
+    it('should take title and metadata from the law XML', async () => {
+      const result = await parser.parseFile('/test/xml/129AC0000000089_20230401_505AC0000000053.xml');
+
+      expect(result.title).toBe('民法');
+      expect(result.metadata).toMatchObject({
+        lawNumber: '129AC0000000089',
+        officialLawNumber: '明治二十九年法律第八十九号',
+        lawType: '法律',
+        lawTypeCode: 'AC',
+        era: '明治',
+        eraYear: 29,
+        lawSerialNumber: 89,
+        date: new Date(2023, 3, 1),
+        promulgationDate: new Date(1896, 3, 27),
+        fileName: '129AC0000000089_20230401_505AC0000000053.xml'
+      });
+    });
+
+    it('should build the same structure tree as the Markdown parser', async () => {
+      const result = await parser.parseXmlFile('/test/129AC0000000089.xml');
+      const [part, supplementary] = result.structure || [];
+      const chapter = part?.children[0];
+      const article720 = chapter?.children[1];
+
+      expect(part).toMatchObject({ type: 'part', label: '第三編', title: '債権' });
+      expect(chapter).toMatchObject({ type: 'chapter', label: '第五章', title: '不法行為' });
+      expect(chapter?.children.map(article => article.label)).toEqual(['第七百九条', '第七百二十条']);
+      expect(chapter?.children[0]?.title).toBe('（不法行為による損害賠償）');
+      expect(article720?.children.map(paragraph => paragraph.label)).toEqual(['第1項', '第2項']);
+      expect(article720?.children[0]?.children[0]).toMatchObject({ type: 'item', label: '一' });
+      expect(supplementary).toMatchObject({ type: 'supplementary', label: '附則', title: '（平成二九年六月二日法律第四四号） 抄' });
+      expect(supplementary?.children[0]?.label).toBe('第一条');
+
+      const articleText = result.fullContent.substring(article720!.startPosition, article720!.endPosition);
+      expect(articleText).toContain('第七百二十条　他人の不法行為に対し');
+      expect(articleText).toContain('２　前項の規定は、危難を避ける場合');
+      expect(articleText).not.toContain('きなん');
+    });
+
+    it('should chunk rendered XML by article', async () => {
+      const document = await parser.parseXmlFile('/test/129AC0000000089.xml');
+      const chunks = parser.createChunks(document, 1000, 200, 'structural');
+
+      const articleChunks = chunks.filter(chunk => chunk.articleKey);
+
+      expect(articleChunks.map(chunk => chunk.articleKey)).toEqual(['709', '720', '1']);
+      expect(articleChunks[1]?.headingPath).toEqual(['第三編 債権', '第五章 不法行為']);
+    });
   });
 
   describe('createChunks', () => {
@@ -107,5 +309,97 @@ Some content here.`;
       expect(chunks[0]?.chunkIndex).toBe(0);
       expect(chunks[1]?.chunkIndex).toBe(1);
     });
+      describe('structural mode', () => {
+      const lawContent = `# 民法
+
+## 第三編　債権
+
+### 第五章　不法行為
+
+（不法行為による損害賠償）
+第七百九条　故意又は過失によって他人の権利又は法律上保護される利益を侵害した者は、これによって生じた損害を賠償する責任を負う。
+
+（財産以外の損害の賠償）
+第七百十条　他人の身体、自由若しくは名誉を侵害した場合又は他人の財産権を侵害した場合のいずれであるかを問わず、前条の規定により損害賠償の責任を負う者は、財産以外の損害に対しても、その賠償をしなければならない。
+
+第七百二十四条の二　人の生命又は身体を害する不法行為による損害賠償請求権の消滅時効についての前条第一号の規定の適用については、同号中「三年間」とあるのは、「五年間」とする。
+`;
+
+      const createDocument = (fullContent: string) => ({
+        path: '/test/path',
+        title: '民法',
+        lastModified: new Date(),
+        metadata: {
+          category: 'test',
+          fileName: 'test.md',
+          filePath: '/test/path',
+          lastModified: new Date()
+        },
+        chunkIds: [],
+        fullContent
+      });
+
+      it('should keep each article in its own chunk', () => {
+        const chunks = parser.createChunks(createDocument(lawContent), 1000, 200, 'structural');
+        const articles = chunks.filter(chunk => chunk.articleNumber);
+
+        expect(articles.map(chunk => chunk.articleNumber)).toEqual([
+          '第七百九条',
+          '第七百十条',
+          '第七百二十四条の二'
+        ]);
+        expect(articles[0]?.content).toContain('（不法行為による損害賠償）');
+        expect(articles[1]?.content.startsWith('（財産以外の損害の賠償）')).toBe(true);
+        expect(articles[0]?.content).not.toContain('第七百十条');
+        expect(articles[0]?.headingPath).toEqual(['第三編 債権', '第五章 不法行為']);
+        expect(articles.map(chunk => chunk.articleKey)).toEqual(['709', '710', '724-2']);
+        expect(chunks.map(chunk => chunk.chunkIndex)).toEqual(chunks.map((_, index) => index));
+      });
+
+      it('should split long articles per paragraph', () => {
+        const longArticle = `第一条　${'あ'.repeat(80)}。
+２　${'い'.repeat(80)}。
+３　${'う'.repeat(80)}。
+`;
+        const chunks = parser.createChunks(createDocument(longArticle), 120, 20, 'structural');
+
+        expect(chunks.map(chunk => chunk.paragraphNumber)).toEqual([1, 2, 3]);
+        expect(chunks.every(chunk => chunk.articleNumber === '第一条')).toBe(true);
+        expect(chunks[1]?.content.startsWith('２')).toBe(true);
+      });
+
+      it('should fall back to character chunks when no articles are found', () => {
+        const chunks = parser.createChunks(createDocument('A'.repeat(2500)), 1000, 200, 'structural');
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.every(chunk => chunk.articleNumber === undefined)).toBe(true);
+      });
+
+      it('should tag supplementary provisions with their amending law', () => {
+        const content = `${lawContent}
+附　則
+
+第一条　この法律は、公布の日から施行する。
+
+附　則　（平成二九年六月二日法律第四四号）　抄
+
+第一条　この法律は、政令で定める日から施行する。
+`;
+        const document = createDocument(content);
+        const structural = parser.createChunks(document, 1000, 200, 'structural')
+          .filter(chunk => chunk.articleNumber);
+        const character = parser.createChunks(document, 1000, 200, 'character');
+
+        expect(structural.map(chunk => chunk.provisionType)).toEqual([
+          'main', 'main', 'main', 'supplementary', 'supplementary'
+        ]);
+        expect(structural[3]?.amendmentLawNumber).toBeUndefined();
+        expect(structural[4]?.amendmentLawNumber).toBe('平成二九年六月二日法律第四四号');
+        expect(structural[4]?.articleKey).toBe('1');
+
+        expect(character.map(chunk => chunk.provisionType)).toEqual(['main', 'supplementary', 'supplementary']);
+        expect(character[0]?.content).not.toContain('附');
+      });
+    });
   });
 });
\ No newline at end of file
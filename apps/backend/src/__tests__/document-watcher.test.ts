@@ -0,0 +1,63 @@
+import { DocumentIndexer } from '../utils/document-indexer';
+import { DocumentWatcher } from '../utils/document-watcher';
+
+describe('DocumentWatcher', () => {
+  let indexer: jest.Mocked<Pick<DocumentIndexer, 'indexIncrementalChanges'>>;
+  let onIndexed: jest.Mock;
+  let watcher: DocumentWatcher;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    indexer = { indexIncrementalChanges: jest.fn().mockResolvedValue(undefined) };
+    onIndexed = jest.fn();
+    watcher = new DocumentWatcher(indexer as unknown as DocumentIndexer, '/laws', { debounceMs: 500, onIndexed });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should apply a burst of events once the folder is quiet', async () => {
+    watcher.schedule('/laws/b.md');
+    jest.advanceTimersByTime(300);
+    watcher.schedule('/laws/a.xml');
+    watcher.schedule('/laws/b.md');
+    jest.advanceTimersByTime(300);
+
+    expect(indexer.indexIncrementalChanges).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(200);
+
+    expect(indexer.indexIncrementalChanges).toHaveBeenCalledTimes(1);
+    expect(indexer.indexIncrementalChanges).toHaveBeenCalledWith(['/laws/a.xml', '/laws/b.md']);
+    expect(onIndexed).toHaveBeenCalledWith(['/laws/a.xml', '/laws/b.md']);
+  });
+
+  it('should ignore files that are not law documents', async () => {
+    watcher.schedule('/laws/.b.md.swp');
+    watcher.schedule('/laws/notes.txt');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(indexer.indexIncrementalChanges).not.toHaveBeenCalled();
+  });
+
+  it('should apply pending changes when stopped', async () => {
+    watcher.schedule('/laws/a.md');
+    await watcher.stop();
+
+    expect(indexer.indexIncrementalChanges).toHaveBeenCalledWith(['/laws/a.md']);
+  });
+
+  it('should keep watching after a failed run', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    indexer.indexIncrementalChanges.mockRejectedValueOnce(new Error('chroma unavailable'));
+
+    watcher.schedule('/laws/a.md');
+    await jest.advanceTimersByTimeAsync(500);
+    watcher.schedule('/laws/b.md');
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(indexer.indexIncrementalChanges).toHaveBeenLastCalledWith(['/laws/b.md']);
+    expect(onIndexed).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,105 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CachedEmbeddingService, EmbeddingCache, embeddingCacheKey } from '../services/embedding-cache';
+import { EmbeddingService } from '../types';
+
+describe('embeddingCacheKey', () => {
+  it('should ignore whitespace differences but not the model', () => {
+    const key = embeddingCacheKey('openai:text-embedding-3-small', '第一条 この法律は、\nテストを目的とする。');
+
+    expect(embeddingCacheKey('openai:text-embedding-3-small', '  第一条  この法律は、 テストを目的とする。\n')).toBe(key);
+    expect(embeddingCacheKey('openai:text-embedding-3-small', '第一条 この法律は、テストを目的とする。')).not.toBe(key);
+    expect(embeddingCacheKey('vertexai:gemini-embedding-001', '第一条 この法律は、\nテストを目的とする。')).not.toBe(key);
+  });
+});
+
+describe('CachedEmbeddingService', () => {
+  let directory: string;
+  let cachePath: string;
+  let service: jest.Mocked<EmbeddingService>;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-cache-'));
+    cachePath = path.join(directory, 'cache.jsonl');
+    service = {
+      generateEmbedding: jest.fn().mockResolvedValue([0.5, 0.25]),
+      generateEmbeddings: jest.fn(async (texts: string[]) => texts.map((_text, i) => [i, 1]))
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should only send uncached texts to the provider', async () => {
+    const cached = new CachedEmbeddingService(service, new EmbeddingCache(cachePath), 'test:model');
+
+    expect(await cached.generateEmbeddings(['a', 'b'])).toEqual([[0, 1], [1, 1]]);
+    expect(await cached.generateEmbeddings(['b', 'c', 'a', 'd'])).toEqual([[1, 1], [0, 1], [0, 1], [1, 1]]);
+
+    expect(service.generateEmbeddings).toHaveBeenLastCalledWith(['c', 'd']);
+    expect(cached.hits).toBe(2);
+    expect(cached.misses).toBe(4);
+  });
+
+  it('should reuse embeddings written by an earlier process', async () => {
+    await new CachedEmbeddingService(service, new EmbeddingCache(cachePath), 'test:model').generateEmbedding('第一条');
+    service.generateEmbedding.mockClear();
+
+    const reloaded = new CachedEmbeddingService(service, new EmbeddingCache(cachePath), 'test:model');
+
+    expect(await reloaded.generateEmbedding('第一条')).toEqual([0.5, 0.25]);
+    expect(service.generateEmbedding).not.toHaveBeenCalled();
+  });
+
+  it('should skip a torn record at the end of the file', async () => {
+    await new CachedEmbeddingService(service, new EmbeddingCache(cachePath), 'test:model').generateEmbedding('第一条');
+    await fs.appendFile(cachePath, '{"k":"abc","v":"AAA');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const cache = new EmbeddingCache(cachePath);
+
+    expect(await cache.get(embeddingCacheKey('test:model', '第一条'))).toEqual([0.5, 0.25]);
+    expect(cache.size).toBe(1);
+  });
+
+  it('should read embeddings from the file rather than keep them in memory', async () => {
+    const cache = new EmbeddingCache(cachePath);
+    await cache.set([['a', [1]], ['b', [2]]]);
+
+    const content = await fs.readFile(cachePath, 'utf-8');
+    await fs.writeFile(cachePath, content.replace(/"v":"[^"]*"/, '"v":"AAAAQA=="'));
+
+    expect(await cache.get('a')).toEqual([2]);
+    expect(await cache.get('b')).toEqual([2]);
+
+    // A record another process moved is only a miss
+    await fs.writeFile(cachePath, '');
+    expect(await cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(1);
+  });
+
+  it('should drop the least recently used embeddings and compact the file', async () => {
+    const cache = new EmbeddingCache(cachePath, { maxEntries: 2 });
+    const lines = async () => (await fs.readFile(cachePath, 'utf-8')).trimEnd().split('\n').length;
+
+    await cache.set([['a', [1]], ['b', [2]]]);
+    await cache.get('a');
+    await cache.set([['c', [3]]]);
+
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toEqual([1]);
+    expect(await lines()).toBe(3);
+
+    await cache.set([['d', [4]], ['e', [5]]]);
+
+    expect(await lines()).toBe(2);
+    const reloaded = new EmbeddingCache(cachePath, { maxEntries: 2 });
+    expect(await reloaded.get('d')).toEqual([4]);
+    expect(await reloaded.get('e')).toEqual([5]);
+    expect(reloaded.size).toBe(2);
+  });
+});
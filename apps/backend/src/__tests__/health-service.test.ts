@@ -0,0 +1,80 @@
+import { HealthService, ProviderMonitor } from '../services/health-service';
+import { AIProvider, ProviderHealthStatus, VectorStore } from '../types';
+
+const createStore = (count: Promise<number>): VectorStore & { collectionName?: string } => ({
+  collectionName: 'japanese-law-documents',
+  addEmbeddings: jest.fn(),
+  search: jest.fn(),
+  searchByEmbedding: jest.fn(),
+  updateEmbedding: jest.fn(),
+  updateChunks: jest.fn(),
+  deleteEmbeddings: jest.fn(),
+  getEmbeddingCount: jest.fn().mockReturnValue(count),
+  getChunks: jest.fn(),
+  getChunksByRange: jest.fn(),
+  getDocumentChunkIds: jest.fn()
+});
+
+const status = (provider: AIProvider, overrides: Partial<ProviderHealthStatus> = {}): ProviderHealthStatus => ({
+  provider,
+  healthy: true,
+  lastCheck: new Date(),
+  errorCount: 0,
+  errorRate: 0,
+  ...overrides
+});
+
+const createMonitor = (statuses: ProviderHealthStatus[]): ProviderMonitor => ({
+  getHealthStatus: () => new Map(statuses.map(entry => [entry.provider, entry])),
+  getActiveProviders: () => ({ embedding: ['openai'], llm: ['openai', 'vertexai'] })
+});
+
+describe('HealthService', () => {
+  it('should report the collection count when everything is healthy', async () => {
+    const service = new HealthService(createStore(Promise.resolve(1200)), createMonitor([status('openai'), status('vertexai')]));
+
+    const report = await service.getReport();
+
+    expect(report.status).toBe('healthy');
+    expect(report.vectorStore).toMatchObject({ healthy: true, backend: 'chroma', collection: 'japanese-law-documents', embeddings: 1200 });
+    expect(report.providers.find(provider => provider.provider === 'openai')?.roles).toEqual(['embedding', 'llm']);
+  });
+
+  it('should be degraded while an LLM provider circuit is open', async () => {
+    const service = new HealthService(createStore(Promise.resolve(1200)), createMonitor([
+      status('openai'),
+      status('vertexai', { healthy: false, circuitState: 'open' })
+    ]));
+
+    const report = await service.getReport();
+
+    expect(report.status).toBe('degraded');
+    expect(report.problems).toHaveLength(1);
+  });
+
+  it('should be unhealthy when the vector store does not answer in time', async () => {
+    const service = new HealthService(
+      createStore(new Promise<number>(() => undefined)),
+      createMonitor([status('openai'), status('vertexai')]),
+      { timeoutMs: 10 }
+    );
+
+    const report = await service.getReport();
+
+    expect(report.status).toBe('unhealthy');
+    expect(report.vectorStore.healthy).toBe(false);
+    expect(report.vectorStore.error).toContain('timed out');
+  });
+
+  it('should be unhealthy without a working embedding provider', async () => {
+    const service = new HealthService(createStore(Promise.resolve(1200)), createMonitor([
+      status('openai', { healthy: false }),
+      status('vertexai')
+    ]));
+
+    const report = await service.getReport();
+
+    expect(report.status).toBe('unhealthy');
+    expect(report.problems).toEqual(['No healthy embedding provider']);
+  });
+});
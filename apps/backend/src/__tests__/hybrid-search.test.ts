@@ -0,0 +1,253 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { KeywordIndex, tokenize } from '../services/keyword-index';
+import { HybridVectorStore, InvalidSearchModeError, parseSearchMode, reciprocalRankFusion } from '../services/hybrid-search';
+import { DocumentChunk, SearchResult, VectorStore } from '../types';
+import { InvalidDiversityOptionsError } from '../utils/search-diversity';
+
+const createChunk = (id: string, content: string, overrides: Partial<DocumentChunk> = {}): DocumentChunk => ({
+  id,
+  documentPath: `/test/${id}.md`,
+  title: '民法',
+  content,
+  metadata: {
+    category: 'test',
+    fileName: `${id}.md`,
+    filePath: `/test/${id}.md`,
+    lastModified: new Date(),
+    era: '明治'
+  },
+  chunkIndex: 0,
+  startPosition: 0,
+  endPosition: content.length,
+  ...overrides
+});
+
+const chunks = [
+  createChunk('94', '第九十四条 相手方と通じてした虚偽の意思表示は、無効とする。前項の規定による意思表示の無効は、善意の第三者に対抗することができない。'),
+  createChunk('96', '第九十六条 詐欺又は強迫による意思表示は、取り消すことができる。詐欺による意思表示の取消しは、善意でかつ過失がない第三者に対抗することができない。'),
+  createChunk('709', '第七百九条 故意又は過失によって他人の権利又は法律上保護される利益を侵害した者は、これによって生じた損害を賠償する責任を負う。', {
+    metadata: {
+      category: 'test',
+      fileName: '709.md',
+      filePath: '/test/709.md',
+      lastModified: new Date(),
+      era: '平成'
+    }
+  })
+];
+
+describe('tokenize', () => {
+  it('should split Japanese text into character bigrams', () => {
+    expect(tokenize('善意の第三者')).toEqual(['善意', '意の', 'の第', '第三', '三者']);
+  });
+
+  it('should normalise width and break on punctuation', () => {
+    expect(tokenize('ＡＢ、「瑕疵」')).toEqual(['ab', '瑕疵']);
+  });
+});
+
+describe('KeywordIndex', () => {
+  let index: KeywordIndex;
+
+  beforeEach(() => {
+    index = new KeywordIndex();
+    index.add(chunks);
+  });
+
+  it('should rank exact statutory terms first', () => {
+    const results = index.search('善意の第三者');
+
+    expect(results[0]?.chunk.id).toBe('94');
+    expect(results[0]?.score).toBe(1);
+    expect(results[0]?.highlights[0]).toContain('善意の第三者');
+    expect(results.map(result => result.chunk.id)).not.toContain('709');
+  });
+
+  it('should apply metadata filters', () => {
+    expect(index.search('意思表示', { filters: { era: '平成' } })).toEqual([]);
+    expect(index.search('損害を賠償', { filters: { era: ['明治', '平成'] } })[0]?.chunk.id).toBe('709');
+  });
+
+  it('should forget removed chunks', () => {
+    index.remove(['94']);
+
+    expect(index.size).toBe(2);
+    expect(index.search('虚偽の意思表示').map(result => result.chunk.id)).not.toContain('94');
+  });
+
+  it('should reload an index file another process rewrote and not save over it', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'keyword-index-'));
+    const indexPath = path.join(directory, 'keyword-index.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    try {
+      const indexer = new KeywordIndex(indexPath);
+      indexer.add(chunks);
+      await indexer.save();
+      const server = new KeywordIndex(indexPath);
+      await server.load();
+
+      indexer.remove(['94']);
+      await indexer.save();
+      await server.reloadIfChanged();
+      expect(server.size).toBe(2);
+
+      server.remove(['96']);
+      indexer.remove(['709']);
+      await indexer.save();
+      await expect(server.save()).rejects.toThrow('rewritten by another process');
+
+      // The conflict leaves the other process's index loaded, so the next save lands on it
+      expect(server.has('96')).toBe(true);
+      server.remove(['96']);
+      await server.save();
+
+      const reloaded = new KeywordIndex(indexPath);
+      await reloaded.load();
+      expect(reloaded.size).toBe(0);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should start empty when the index file is truncated', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'keyword-index-'));
+    const indexPath = path.join(directory, 'keyword-index.json');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    try {
+      await fs.writeFile(indexPath, '{"version":1,"chunks":[{"id":"94"');
+      const restored = new KeywordIndex(indexPath);
+
+      await expect(restored.load()).resolves.toBe(false);
+      expect(restored.size).toBe(0);
+      expect(warn).toHaveBeenCalled();
+
+      restored.add(chunks);
+      await restored.save();
+      await expect(fs.readdir(directory)).resolves.toEqual(['keyword-index.json']);
+      expect(JSON.parse(await fs.readFile(indexPath, 'utf-8')).chunks).toHaveLength(3);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  const result = (id: string): SearchResult => ({ chunk: createChunk(id, id), score: 0.5, highlights: [] });
+
+  it('should favour chunks ranked well in both lists', () => {
+    const fused = reciprocalRankFusion([
+      [result('a'), result('b'), result('c')],
+      [result('c'), result('b'), result('d')]
+    ], 3);
+
+    expect(fused.map(item => item.chunk.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should give 1 to a chunk ranked first everywhere', () => {
+    const [top] = reciprocalRankFusion([[result('a')], [result('a')]], 1);
+
+    expect(top?.score).toBeCloseTo(1);
+  });
+});
+
+describe('parseSearchMode', () => {
+  it('should accept the known modes and leave an absent one to the default', () => {
+    expect(parseSearchMode('keyword')).toBe('keyword');
+    expect(parseSearchMode(undefined)).toBeUndefined();
+    expect(parseSearchMode('')).toBeUndefined();
+  });
+
+  it('should reject unknown modes', () => {
+    expect(() => parseSearchMode('fuzzy')).toThrow(InvalidSearchModeError);
+    expect(() => parseSearchMode(['keyword'])).toThrow('"mode" must be one of: semantic, keyword, hybrid');
+  });
+});
+
+describe('HybridVectorStore', () => {
+  const semanticResult: SearchResult = { chunk: chunks[2]!, score: 0.8, highlights: [] };
+  let inner: jest.Mocked<VectorStore>;
+  let store: HybridVectorStore;
+
+  beforeEach(() => {
+    inner = {
+      addEmbeddings: jest.fn().mockResolvedValue(undefined),
+      search: jest.fn().mockResolvedValue([semanticResult]),
+      searchByEmbedding: jest.fn(),
+      updateEmbedding: jest.fn(),
+      updateChunks: jest.fn(),
+      deleteEmbeddings: jest.fn().mockResolvedValue(undefined),
+      getEmbeddingCount: jest.fn(),
+      getChunks: jest.fn(),
+      getChunksByRange: jest.fn(),
+      getDocumentChunkIds: jest.fn()
+    };
+    store = new HybridVectorStore(inner, new KeywordIndex());
+  });
+
+  it('should fall back to semantic search while the keyword index is empty', async () => {
+    const results = await store.search('善意の第三者', { limit: 5 });
+
+    expect(results).toEqual([semanticResult]);
+  });
+
+  it('should fuse semantic and keyword results in hybrid mode', async () => {
+    await store.addEmbeddings(chunks);
+    const results = await store.search('善意の第三者', { limit: 5 });
+
+    expect(inner.addEmbeddings).toHaveBeenCalledWith(chunks);
+    expect(inner.search).toHaveBeenCalledWith('善意の第三者', { limit: 20 });
+    expect(results.map(result => result.chunk.id)).toEqual(expect.arrayContaining(['709', '94', '96']));
+  });
+
+  it('should report every stored chunk and backfill the keyword index without embedding', async () => {
+    const documentChunks = [
+      createChunk('94', chunks[0]!.content, { documentPath: '/test/a.md' }),
+      createChunk('96', chunks[1]!.content, { documentPath: '/test/a.md' })
+    ];
+    store = new HybridVectorStore(inner, new KeywordIndex());
+    await store.addEmbeddings(documentChunks.slice(0, 1));
+    inner.getDocumentChunkIds.mockResolvedValue(['94', '96']);
+    inner.getChunks.mockResolvedValue(documentChunks);
+
+    expect(await store.getDocumentChunkIds('/test/a.md')).toEqual(['94', '96']);
+    expect(inner.getChunks).toHaveBeenCalledWith({ documentPath: '/test/a.md' }, 2);
+    expect((await store.search('詐欺又は強迫', { mode: 'keyword' }))[0]?.chunk.id).toBe('96');
+    expect(inner.addEmbeddings).toHaveBeenCalledTimes(1);
+  });
+
+  it('should diversify the fused ranking with the stored embeddings', async () => {
+    const hit = (chunk: DocumentChunk): SearchResult => ({ chunk, score: 0.8, highlights: [] });
+    await store.addEmbeddings(chunks);
+    inner.search.mockResolvedValue([hit(chunks[0]!), hit(chunks[1]!), hit(chunks[2]!)]);
+    inner.getEmbeddings = jest.fn().mockResolvedValue(new Map([['94', [1, 0]], ['96', [1, 0]], ['709', [0, 1]]]));
+
+    const plain = await store.search('意思表示', { limit: 2 });
+    const diversified = await store.search('意思表示', { limit: 2, mmrLambda: 0.5 });
+
+    expect(plain.map(result => result.chunk.id).sort()).toEqual(['94', '96']);
+    expect(diversified.map(result => result.chunk.id)).toContain('709');
+    expect(inner.search).toHaveBeenLastCalledWith('意思表示', { limit: 20 });
+  });
+
+  it('should reject mmrLambda when the vector store cannot return embeddings', async () => {
+    await store.addEmbeddings(chunks);
+
+    await expect(store.search('意思表示', { mmrLambda: 0.5 })).rejects.toThrow(InvalidDiversityOptionsError);
+  });
+
+  it('should honour the requested mode', async () => {
+    await store.addEmbeddings(chunks);
+
+    const keyword = await store.search('善意の第三者', { mode: 'keyword' });
+    const semantic = await store.search('善意の第三者', { mode: 'semantic' });
+
+    expect(keyword[0]?.chunk.id).toBe('94');
+    expect(semantic).toEqual([semanticResult]);
+  });
+});
@@ -0,0 +1,65 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentParser } from '../services/document-parser';
+import { LawRepository, createLawRepository } from '../services/law-repository';
+import { LocalVectorStore } from '../services/local-vector-store';
+import { DocumentIndexer } from '../utils/document-indexer';
+import { EmbeddingService } from '../types';
+
+describe('LawRepository', () => {
+  const embeddingService: EmbeddingService = {
+    generateEmbedding: jest.fn().mockResolvedValue([1, 0]),
+    generateEmbeddings: jest.fn(async (texts: string[]) => texts.map(() => [1, 0]))
+  };
+
+  let directory: string;
+  let manifestPath: string;
+  let indexer: DocumentIndexer;
+  let repository: LawRepository;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'law-repository-'));
+    manifestPath = path.join(directory, 'index-data', 'index-manifest.json');
+    await fs.mkdir(path.join(directory, 'laws'));
+    await fs.writeFile(path.join(directory, 'laws', '129AC0000000089_20230401_503AC0000000037.md'), '# 民法\n\n第一条 私権は、公共の福祉に適合しなければならない。\n');
+    await fs.writeFile(path.join(directory, 'laws', '322AC0000000067.md'), '# 地方自治法\n\n第一条 この法律は、地方自治の本旨に基いて定める。\n');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    indexer = new DocumentIndexer(new LocalVectorStore(embeddingService), new DocumentParser(), path.join(directory, 'laws'), { manifestPath });
+    await indexer.indexAllDocuments();
+    repository = createLawRepository(manifestPath);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should find a law by its exact ID, with or without a date suffix', async () => {
+    expect((await repository.getTableOfContents('129AC0000000089'))?.title).toBe('民法');
+    expect((await repository.getTableOfContents('322AC0000000067'))?.structure[0]).toMatchObject({ type: 'article', label: '第一条' });
+  });
+
+  it('should not match a law whose ID merely starts with the requested one', async () => {
+    expect(await repository.getTableOfContents('129AC000000008')).toBeNull();
+    expect(await repository.getTableOfContents('129AC')).toBeNull();
+  });
+
+  it('should serve the outline recorded at indexing without reading the law file', async () => {
+    const parseFile = jest.spyOn(DocumentParser.prototype, 'parseFile');
+
+    await repository.getTableOfContents('129AC0000000089');
+
+    expect(parseFile).not.toHaveBeenCalled();
+  });
+
+  it('should pick up laws the indexer added after the manifest was read', async () => {
+    expect(await repository.getTableOfContents('325AC0000000131')).toBeNull();
+
+    await fs.writeFile(path.join(directory, 'laws', '325AC0000000131.md'), '# 公職選挙法\n\n第一条 この法律は、選挙制度を確立する。\n');
+    await indexer.indexAllDocuments();
+
+    expect((await repository.getTableOfContents('325AC0000000131'))?.title).toBe('公職選挙法');
+  });
+});
@@ -0,0 +1,129 @@
+import { CircuitBreaker } from '../services/circuit-breaker';
+import { FailoverLLMService, LLMCandidate } from '../services/llm-failover';
+import { GenerationInfo, LLMProvider } from '../services/llm-service';
+import { BudgetExceededError, ProviderError } from '../types';
+
+const createLLM = (response: string | Error): jest.Mocked<LLMProvider> => ({
+  generateResponse: response instanceof Error
+    ? jest.fn().mockRejectedValue(response)
+    : jest.fn().mockResolvedValue(response),
+  streamResponse: jest.fn().mockImplementation(async function* () {
+    if (response instanceof Error) throw response;
+    yield response;
+  }),
+  generateRelatedQuestions: jest.fn().mockResolvedValue([]),
+  rateRelevance: jest.fn().mockResolvedValue([])
+});
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after consecutive failures and allow one trial call after the cool-down', () => {
+    const breaker = new CircuitBreaker(2, 1000);
+
+    breaker.recordFailure();
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.currentState).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+    breaker.recordSuccess();
+    expect(breaker.currentState).toBe('closed');
+  });
+
+  it('should reopen when the trial call fails', () => {
+    const breaker = new CircuitBreaker(1, 1000);
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.allowRequest()).toBe(false);
+  });
+});
+
+describe('FailoverLLMService', () => {
+  let openai: jest.Mocked<LLMProvider>;
+  let vertexai: jest.Mocked<LLMProvider>;
+  let candidates: LLMCandidate[];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    openai = createLLM(new Error('503 Service Unavailable'));
+    vertexai = createLLM('Vertex AIの回答');
+    candidates = [
+      { provider: 'openai', service: openai, breaker: new CircuitBreaker(2, 60000) },
+      { provider: 'vertexai', service: vertexai, breaker: new CircuitBreaker(2, 60000) }
+    ];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should answer from the next provider and report which one answered', async () => {
+    const info: GenerationInfo = {};
+
+    const answer = await new FailoverLLMService(candidates).generateResponse('質問', [], [], info);
+
+    expect(answer).toBe('Vertex AIの回答');
+    expect(info.provider).toBe('vertexai');
+  });
+
+  it('should skip a provider while its circuit is open', async () => {
+    const service = new FailoverLLMService(candidates);
+
+    await service.generateResponse('質問', []);
+    await service.generateResponse('質問', []);
+    await service.generateResponse('質問', []);
+
+    expect(openai.generateResponse).toHaveBeenCalledTimes(2);
+    expect(vertexai.generateResponse).toHaveBeenCalledTimes(3);
+  });
+
+  it('should fail over a stream that fails before its first token', async () => {
+    const info: GenerationInfo = {};
+    const tokens: string[] = [];
+
+    for await (const text of new FailoverLLMService(candidates).streamResponse('質問', [], [], info)) {
+      tokens.push(text);
+    }
+
+    expect(tokens).toEqual(['Vertex AIの回答']);
+    expect(info.provider).toBe('vertexai');
+  });
+
+  it('should refuse a call without trying any provider when beforeCall throws', async () => {
+    const service = new FailoverLLMService(candidates, undefined, () => {
+      throw new BudgetExceededError('Monthly AI budget exhausted', 100, 100);
+    });
+
+    await expect(service.generateResponse('質問', [])).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(service.generateRelatedQuestions('質問', [])).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(openai.generateResponse).not.toHaveBeenCalled();
+    expect(vertexai.generateRelatedQuestions).not.toHaveBeenCalled();
+  });
+
+  it('should throw a ProviderError when every provider fails', async () => {
+    const outcomes: string[] = [];
+    candidates[1]!.service = createLLM(new Error('quota exceeded'));
+
+    const service = new FailoverLLMService(candidates, (provider, error) => {
+      outcomes.push(`${provider}:${error ? 'failed' : 'ok'}`);
+    });
+
+    await expect(service.generateResponse('質問', [])).rejects.toBeInstanceOf(ProviderError);
+    expect(outcomes).toEqual(['openai:failed', 'vertexai:failed']);
+  });
+});
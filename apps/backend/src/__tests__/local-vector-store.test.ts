@@ -0,0 +1,174 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalVectorStore } from '../services/local-vector-store';
+import { DocumentChunk, EmbeddingService } from '../types';
+import { EmbeddingMismatchError } from '../utils/embedding-profile';
+import { SnapshotConflictError } from '../utils/snapshot-version';
+
+// Two-dimensional "embeddings": 不法行為 texts point one way, 意思表示 texts the other
+const embed = (text: string): number[] => text.includes('損害') ? [1, 0.1] : [0.1, 1];
+
+const embeddingService: EmbeddingService = {
+  generateEmbedding: jest.fn(async (text: string) => embed(text)),
+  generateEmbeddings: jest.fn(async (texts: string[]) => texts.map(embed))
+};
+
+const createChunk = (id: string, content: string, overrides: Partial<DocumentChunk> = {}): DocumentChunk => ({
+  id,
+  documentPath: '/test/129AC0000000089.md',
+  title: '民法',
+  content,
+  metadata: {
+    category: 'test',
+    fileName: '129AC0000000089.md',
+    filePath: '/test/129AC0000000089.md',
+    lastModified: new Date(),
+    era: '明治',
+    date: new Date(1896, 3, 27)
+  },
+  chunkIndex: 0,
+  startPosition: 0,
+  endPosition: content.length,
+  provisionType: 'main',
+  ...overrides
+});
+
+const chunks = [
+  createChunk('709', '故意又は過失によって他人の権利を侵害した者は、損害を賠償する責任を負う。', { chunkIndex: 2, articleKey: '709' }),
+  createChunk('94', '相手方と通じてした虚偽の意思表示は、無効とする。', { chunkIndex: 0, articleKey: '94' }),
+  createChunk('96', '詐欺又は強迫による意思表示は、取り消すことができる。', { chunkIndex: 1, articleKey: '96' }),
+  createChunk('supplementary-1', 'この法律の施行前に生じた損害については、なお従前の例による。', {
+    chunkIndex: 3,
+    provisionType: 'supplementary'
+  })
+];
+
+describe('LocalVectorStore', () => {
+  let store: LocalVectorStore;
+
+  beforeEach(async () => {
+    store = new LocalVectorStore(embeddingService);
+    await store.addEmbeddings(chunks);
+  });
+
+  it('should rank chunks by cosine similarity', async () => {
+    const results = await store.search('損害賠償', { limit: 2 });
+
+    expect(results.map(result => result.chunk.id)).toEqual(['709', 'supplementary-1']);
+    expect(results[0]?.score).toBeCloseTo(1);
+    expect(results[1]?.score).toBeCloseTo(0.85);
+  });
+
+  it('should apply metadata filters and the similarity threshold', async () => {
+    const results = await store.search('損害賠償', {
+      threshold: 0.5,
+      filters: { provisionType: 'main', articleNumber: { $nin: ['94'] } }
+    });
+
+    expect(results.map(result => result.chunk.id)).toEqual(['709']);
+  });
+
+  it('should look chunks up by metadata and index range', async () => {
+    expect((await store.getChunks({ articleKey: '94' })).map(chunk => chunk.id)).toEqual(['94']);
+    expect(await store.getChunks({})).toEqual([]);
+    expect((await store.getChunksByRange('/test/129AC0000000089.md', 1, 2)).map(chunk => chunk.id)).toEqual(['96', '709']);
+  });
+
+  it('should delete embeddings', async () => {
+    await store.deleteEmbeddings(['94', '96']);
+
+    expect(await store.getEmbeddingCount()).toBe(2);
+  });
+
+  it('should restore a persisted snapshot', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'local-vector-store-'));
+    const indexPath = path.join(directory, 'vectors.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    try {
+      const saved = new LocalVectorStore(embeddingService, { indexPath });
+      await saved.addEmbeddings(chunks);
+      await saved.persist();
+
+      const restored = new LocalVectorStore(embeddingService, { indexPath });
+
+      expect(await restored.load()).toBe(true);
+      expect(await restored.getEmbeddingCount()).toBe(4);
+      expect((await restored.search('損害賠償', { limit: 1 }))[0]?.chunk.id).toBe('709');
+      expect((await restored.getChunks({ articleKey: '709' }))[0]?.metadata.date).toEqual(new Date(1896, 3, 27));
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should reload a snapshot another process rewrote, but never over unsaved changes', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'local-vector-store-'));
+    const indexPath = path.join(directory, 'vectors.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    try {
+      const indexer = new LocalVectorStore(embeddingService, { indexPath });
+      await indexer.addEmbeddings(chunks);
+      await indexer.persist();
+      const server = new LocalVectorStore(embeddingService, { indexPath });
+      await server.load();
+
+      await indexer.deleteEmbeddings(['94']);
+      await indexer.persist();
+      await server.reloadIfChanged();
+      expect(await server.getEmbeddingCount()).toBe(3);
+
+      await server.deleteEmbeddings(['96']);
+      await indexer.deleteEmbeddings(['709']);
+      await indexer.persist();
+      await server.reloadIfChanged();
+
+      expect(await server.getEmbeddingCount()).toBe(2);
+      await expect(server.persist()).rejects.toBeInstanceOf(SnapshotConflictError);
+
+      // The conflict leaves the other process's snapshot loaded, so the next write lands on it
+      expect((await server.getDocumentChunkIds(chunks[0]!.documentPath)).sort()).toEqual(['96', 'supplementary-1']);
+      await server.deleteEmbeddings(['96']);
+      await server.persist();
+
+      const reloaded = new LocalVectorStore(embeddingService, { indexPath });
+      await reloaded.load();
+      expect(await reloaded.getEmbeddingCount()).toBe(1);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should report a missing snapshot', async () => {
+    const store = new LocalVectorStore(embeddingService, { indexPath: path.join(os.tmpdir(), 'missing', 'vectors.json') });
+
+    expect(await store.load()).toBe(false);
+  });
+
+  it('should reject embeddings of another dimension', async () => {
+    await expect(store.searchByEmbedding([1, 0, 0], { limit: 1 })).rejects.toBeInstanceOf(EmbeddingMismatchError);
+    await expect(store.updateEmbedding('709', [1])).rejects.toBeInstanceOf(EmbeddingMismatchError);
+  });
+
+  it('should refuse a snapshot written with another embedding model', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'local-vector-store-'));
+    const indexPath = path.join(directory, 'vectors.json');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    try {
+      const saved = new LocalVectorStore(embeddingService, { indexPath, embeddingModel: 'openai:text-embedding-3-small' });
+      await saved.addEmbeddings(chunks);
+      await saved.persist();
+
+      const restored = new LocalVectorStore(embeddingService, { indexPath, embeddingModel: 'vertexai:gemini-embedding-001' });
+
+      await expect(restored.load()).rejects.toBeInstanceOf(EmbeddingMismatchError);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { DocumentChunk } from '../types';
+import { InvalidFilterError, matchesFilter, parseMetadataFilter } from '../utils/metadata-filter';
+
+describe('parseMetadataFilter', () => {
+  it('should accept plain values, lists and exclusions', () => {
+    expect(parseMetadataFilter({
+      category: '民法',
+      era: ['昭和', '平成'],
+      lawType: { $ne: '政令' },
+      lawNumber: { $nin: '129AC0000000089' },
+      provisionType: 'main'
+    })).toEqual({
+      category: '民法',
+      era: ['昭和', '平成'],
+      lawType: { $ne: '政令' },
+      lawNumber: { $nin: ['129AC0000000089'] },
+      provisionType: 'main'
+    });
+  });
+
+  it('should read query-string shapes into the same structure', () => {
+    // ?era=昭和&era=平成&$or[0][category]=民法&$or[1][lawType]=政令&from=1946-01-01
+    const filter = parseMetadataFilter({
+      era: ['昭和', '平成'],
+      $or: [{ category: '民法' }, { lawType: '政令' }],
+      from: '1946-01-01',
+      limit: '10'
+    });
+
+    expect(filter).toEqual({
+      era: ['昭和', '平成'],
+      $or: [{ category: '民法' }, { lawType: '政令' }],
+      dateRange: { start: new Date(1946, 0, 1), end: undefined }
+    });
+  });
+
+  it('should drop empty values', () => {
+    expect(parseMetadataFilter({ category: '', era: [], $and: [{}] })).toBeUndefined();
+  });
+
+  it('should reject malformed filters', () => {
+    expect(() => parseMetadataFilter({ era: 42 })).toThrow(InvalidFilterError);
+    expect(() => parseMetadataFilter({ era: { $gt: '昭和' } })).toThrow(InvalidFilterError);
+    expect(() => parseMetadataFilter({ era: { $ne: ['昭和', '平成'] } })).toThrow(InvalidFilterError);
+    expect(() => parseMetadataFilter({ provisionType: 'appendix' })).toThrow(InvalidFilterError);
+    expect(() => parseMetadataFilter({ from: '1946/01/01' })).toThrow(InvalidFilterError);
+    expect(() => parseMetadataFilter({ to: '2023-02-30' })).toThrow(InvalidFilterError);
+    expect(() => parseMetadataFilter({ $or: 'category' })).toThrow(InvalidFilterError);
+  });
+});
+
+describe('matchesFilter', () => {
+  // 民法: promulgated 1896-04-27, file dated by the 2023-04-01 revision
+  const civilCode: DocumentChunk = {
+    id: 'civil-709',
+    documentPath: '/test/129AC0000000089_20230401_505AC0000000053.md',
+    title: '民法',
+    content: '第七百九条　故意又は過失によって他人の権利を侵害した者は、損害を賠償する責任を負う。',
+    metadata: {
+      category: '民法',
+      fileName: '129AC0000000089_20230401_505AC0000000053.md',
+      filePath: '/test/129AC0000000089_20230401_505AC0000000053.md',
+      lastModified: new Date(),
+      date: new Date(2023, 3, 1),
+      promulgationDate: new Date(1896, 3, 27)
+    },
+    chunkIndex: 0,
+    startPosition: 0,
+    endPosition: 40
+  };
+
+  it('should compare the date range with the 公布日', () => {
+    expect(matchesFilter(civilCode, parseMetadataFilter({ from: '1896-04-27', to: '1896-04-27' })!)).toBe(true);
+    expect(matchesFilter(civilCode, parseMetadataFilter({ to: '1900-12-31' })!)).toBe(true);
+    expect(matchesFilter(civilCode, parseMetadataFilter({ from: '2020-01-01' })!)).toBe(false);
+  });
+
+  it('should not match a date range without a 公布日', () => {
+    const undated = { ...civilCode, metadata: { ...civilCode.metadata, promulgationDate: undefined } };
+
+    expect(matchesFilter(undated, parseMetadataFilter({ from: '2020-01-01' })!)).toBe(false);
+  });
+});
@@ -0,0 +1,279 @@
+import { QueryProcessor } from '../services/query-processor';
+import { ConversationManager, LLMProvider } from '../services/llm-service';
+import { CitationRecognizer } from '../services/citation-recognizer';
+import { BudgetExceededError, DocumentChunk, QueryStreamEvent, SearchResult, VectorStore } from '../types';
+import { currentUsageScope } from '../utils/usage-scope';
+
+const createChunk = (chunkIndex: number, content: string, documentPath: string = '/test/a.md'): DocumentChunk => ({
+  id: `${documentPath}#${chunkIndex}`,
+  documentPath,
+  title: '民法',
+  content,
+  metadata: {
+    category: 'test',
+    fileName: 'a.md',
+    filePath: documentPath,
+    lastModified: new Date()
+  },
+  chunkIndex,
+  startPosition: chunkIndex * 100,
+  endPosition: chunkIndex * 100 + 100
+});
+
+// What the provider factory does for each billed call
+const bill = (inputTokens: number, outputTokens: number, cost: number): void => {
+  const scope = currentUsageScope();
+  if (scope) {
+    scope.usage.inputTokens += inputTokens;
+    scope.usage.outputTokens += outputTokens;
+    scope.usage.cost += cost;
+  }
+};
+
+const documentChunks = [
+  createChunk(0, '第一条 この法律において「事業者」とは、'),
+  createChunk(1, '法人その他の団体をいう。'),
+  createChunk(2, '2 事業者は、前項の義務を負う。'),
+  createChunk(3, '第二条 ...')
+];
+
+describe('QueryProcessor neighbour expansion', () => {
+  let vectorStore: jest.Mocked<VectorStore>;
+  let llmService: jest.Mocked<LLMProvider>;
+
+  const hit = (chunk: DocumentChunk, score: number): SearchResult => ({ chunk, score, highlights: [chunk.content] });
+
+  const createProcessor = (neighbourChunks: number) => new QueryProcessor(
+    vectorStore,
+    llmService,
+    new ConversationManager(),
+    { recognize: () => [] } as unknown as CitationRecognizer,
+    { neighbourChunks }
+  );
+
+  beforeEach(() => {
+    vectorStore = {
+      addEmbeddings: jest.fn(),
+      search: jest.fn().mockResolvedValue([hit(documentChunks[3]!, 0.9), hit(documentChunks[1]!, 0.6)]),
+      searchByEmbedding: jest.fn(),
+      updateEmbedding: jest.fn(),
+      updateChunks: jest.fn(),
+      deleteEmbeddings: jest.fn(),
+      getEmbeddingCount: jest.fn(),
+      getChunks: jest.fn(),
+      getChunksByRange: jest.fn(async (_path: string, start: number, end: number) =>
+        documentChunks.filter(chunk => chunk.chunkIndex >= start && chunk.chunkIndex <= end)),
+      getDocumentChunkIds: jest.fn()
+    };
+    llmService = {
+      generateResponse: jest.fn().mockResolvedValue('回答'),
+      streamResponse: jest.fn(),
+      generateRelatedQuestions: jest.fn().mockResolvedValue([]),
+      rateRelevance: jest.fn()
+    };
+  });
+
+  it('should pass stitched neighbouring chunks to the LLM', async () => {
+    const response = await createProcessor(1).processQuery({ query: '事業者の義務' });
+    const context = llmService.generateResponse.mock.calls[0]?.[1];
+
+    // The windows of both hits (2-4 and 0-2) overlap, so the LLM sees a single excerpt
+    expect(vectorStore.getChunksByRange).toHaveBeenCalledTimes(1);
+    expect(vectorStore.getChunksByRange).toHaveBeenCalledWith('/test/a.md', 0, 4);
+    expect(context).toHaveLength(1);
+    expect(context?.[0]?.chunk.content).toBe(documentChunks.map(chunk => chunk.content).join('\n'));
+    expect(response.sources.map(source => source.chunkId)).toEqual(['/test/a.md#3', '/test/a.md#1']);
+  });
+
+  it('should leave the context alone when expansion is disabled', async () => {
+    await createProcessor(0).processQuery({ query: '事業者の義務' });
+
+    expect(vectorStore.getChunksByRange).not.toHaveBeenCalled();
+    expect(llmService.generateResponse.mock.calls[0]?.[1]).toHaveLength(2);
+  });
+
+  it('should report the usage of each request separately', async () => {
+    vectorStore.search.mockImplementation(async (query: string) => {
+      bill(query.length, 0, 0.001);
+      return [hit(documentChunks[0]!, 0.9)];
+    });
+    llmService.generateResponse.mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      bill(1000, 200, 0.01);
+      return '回答';
+    });
+
+    const [first, second] = await Promise.all([
+      createProcessor(0).processQuery({ query: '事業者', conversationId: 'c1' }),
+      createProcessor(0).processQuery({ query: '事業者の義務', conversationId: 'c2' })
+    ]);
+
+    expect(first.usage).toEqual({ inputTokens: 1003, outputTokens: 200, cost: expect.closeTo(0.011) });
+    expect(second.usage).toEqual({ inputTokens: 1006, outputTokens: 200, cost: expect.closeTo(0.011) });
+  });
+});
+
+describe('QueryProcessor cited articles', () => {
+  const citation = { text: '民法1条', lawName: '民法', articleNumber: '第一条', articleKey: '1' };
+  let vectorStore: jest.Mocked<VectorStore>;
+
+  const createProcessor = () => new QueryProcessor(
+    vectorStore,
+    {} as LLMProvider,
+    new ConversationManager(),
+    { recognize: () => [citation] } as unknown as CitationRecognizer
+  );
+
+  beforeEach(() => {
+    vectorStore = {
+      addEmbeddings: jest.fn(),
+      search: jest.fn().mockResolvedValue([]),
+      searchByEmbedding: jest.fn(),
+      updateEmbedding: jest.fn(),
+      updateChunks: jest.fn(),
+      deleteEmbeddings: jest.fn(),
+      getEmbeddingCount: jest.fn(),
+      getChunks: jest.fn().mockResolvedValue([documentChunks[0]!]),
+      getChunksByRange: jest.fn(),
+      getDocumentChunkIds: jest.fn()
+    };
+  });
+
+  it('should pin the cited article ahead of the search results', async () => {
+    const results = await createProcessor().searchDocuments('民法1条', { filters: { category: 'test' } });
+
+    expect(results.map(result => result.chunk.id)).toEqual(['/test/a.md#0']);
+  });
+
+  it('should not pin a cited article the filters exclude', async () => {
+    const results = await createProcessor().searchDocuments('民法1条', { filters: { category: '刑法' } });
+
+    expect(results).toEqual([]);
+  });
+});
+
+describe('QueryProcessor streaming', () => {
+  let vectorStore: jest.Mocked<VectorStore>;
+  let llmService: jest.Mocked<LLMProvider>;
+  let conversationManager: ConversationManager;
+
+  const createProcessor = () => new QueryProcessor(
+    vectorStore,
+    llmService,
+    conversationManager,
+    { recognize: () => [] } as unknown as CitationRecognizer
+  );
+
+  const collect = async (events: AsyncIterable<QueryStreamEvent>): Promise<QueryStreamEvent[]> => {
+    const collected: QueryStreamEvent[] = [];
+    for await (const event of events) {
+      collected.push(event);
+    }
+    return collected;
+  };
+
+  beforeEach(() => {
+    vectorStore = {
+      addEmbeddings: jest.fn(),
+      search: jest.fn().mockResolvedValue([{ chunk: documentChunks[0]!, score: 0.9, highlights: [] }]),
+      searchByEmbedding: jest.fn(),
+      updateEmbedding: jest.fn(),
+      updateChunks: jest.fn(),
+      deleteEmbeddings: jest.fn(),
+      getEmbeddingCount: jest.fn(),
+      getChunks: jest.fn(),
+      getChunksByRange: jest.fn().mockResolvedValue([]),
+      getDocumentChunkIds: jest.fn()
+    };
+    llmService = {
+      generateResponse: jest.fn(),
+      streamResponse: jest.fn().mockImplementation(async function* () {
+        yield '事業者とは、';
+        yield '法人その他の団体をいう。';
+      }),
+      generateRelatedQuestions: jest.fn().mockResolvedValue(['事業者の義務は？']),
+      rateRelevance: jest.fn()
+    };
+    conversationManager = new ConversationManager();
+  });
+
+  it('should send sources, tokens, related questions and the conversation ID in order', async () => {
+    const events = await collect(createProcessor().streamQuery({ query: '事業者とは', conversationId: 'c1' }));
+
+    expect(events.map(event => event.type)).toEqual(['sources', 'token', 'token', 'related', 'done']);
+    expect(events[0]).toMatchObject({ sources: [{ chunkId: '/test/a.md#0' }] });
+    expect(events[3]).toEqual({ type: 'related', relatedQuestions: ['事業者の義務は？'] });
+    expect(events[4]).toEqual({ type: 'done', conversationId: 'c1', usage: { inputTokens: 0, outputTokens: 0, cost: 0 } });
+    expect(conversationManager.getConversationHistory('c1').map(message => message.content))
+      .toEqual(['事業者とは', '事業者とは、法人その他の団体をいう。']);
+  });
+
+  it('should total the usage of the calls made while streaming in the done event', async () => {
+    vectorStore.search.mockImplementation(async () => {
+      bill(5, 0, 0.0001);
+      return [{ chunk: documentChunks[0]!, score: 0.9, highlights: [] }];
+    });
+    llmService.streamResponse.mockImplementation(async function* () {
+      yield '事業者とは、';
+      await new Promise(resolve => setTimeout(resolve, 5));
+      bill(800, 40, 0.002);
+    });
+    llmService.generateRelatedQuestions.mockImplementation(async () => {
+      bill(100, 20, 0.0005);
+      return [];
+    });
+
+    const events = await collect(createProcessor().streamQuery({ query: '事業者とは', conversationId: 'c1' }));
+
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'done',
+      usage: { inputTokens: 905, outputTokens: 60, cost: expect.closeTo(0.0026) }
+    });
+  });
+
+  it('should end with an error event when the LLM fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    llmService.streamResponse.mockImplementation(async function* () {
+      yield '事業者';
+      throw new Error('quota exceeded');
+    });
+
+    try {
+      const events = await collect(createProcessor().streamQuery({ query: '事業者とは', conversationId: 'c1' }));
+
+      expect(events.map(event => event.type)).toEqual(['sources', 'token', 'error']);
+      expect(conversationManager.getConversationHistory('c1')).toEqual([]);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+  it('should end with a budget_exceeded error event when the budget runs out', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    llmService.streamResponse.mockImplementation(async function* () {
+      throw new BudgetExceededError('Monthly AI budget exhausted', 100, 100);
+    });
+
+    try {
+      const events = await collect(createProcessor().streamQuery({ query: '事業者とは', conversationId: 'c1' }));
+
+      expect(events[events.length - 1]).toEqual({ type: 'error', code: 'budget_exceeded', message: 'Monthly AI budget exhausted' });
+      expect(consoleError).not.toHaveBeenCalled();
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should answer without related questions when no provider can generate them', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    llmService.generateRelatedQuestions.mockRejectedValue(new Error('All LLM providers failed'));
+
+    try {
+      const events = await collect(createProcessor().streamQuery({ query: '事業者とは', conversationId: 'c1' }));
+
+      expect(events.map(event => event.type)).toEqual(['sources', 'token', 'token', 'related', 'done']);
+      expect(events[3]).toEqual({ type: 'related', relatedQuestions: [] });
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  InvalidRerankOptionsError,
+  LexicalReranker,
+  LLMReranker,
+  RerankService,
+  parseRerankOptions
+} from '../services/reranker';
+import { LLMProvider } from '../services/llm-service';
+import { DocumentChunk, SearchResult } from '../types';
+
+const createResult = (id: string, content: string, score: number): SearchResult => {
+  const chunk: DocumentChunk = {
+    id,
+    documentPath: `/test/${id}.md`,
+    title: '民法',
+    content,
+    metadata: {
+      category: 'test',
+      fileName: `${id}.md`,
+      filePath: `/test/${id}.md`,
+      lastModified: new Date()
+    },
+    chunkIndex: 0,
+    startPosition: 0,
+    endPosition: content.length
+  };
+  return { chunk, score, highlights: [] };
+};
+
+const results = [
+  createResult('1', '詐欺又は強迫による意思表示は、取り消すことができる。', 0.8),
+  createResult('2', '相手方と通じてした虚偽の意思表示は、無効とする。前項の規定による意思表示の無効は、善意の第三者に対抗することができない。', 0.6),
+  createResult('3', '故意又は過失によって他人の権利を侵害した者は、損害を賠償する責任を負う。', 0.4)
+];
+
+const createLLM = (ratings: number[] | Error): jest.Mocked<LLMProvider> => ({
+  generateResponse: jest.fn(),
+  streamResponse: jest.fn(),
+  generateRelatedQuestions: jest.fn().mockResolvedValue([]),
+  rateRelevance: ratings instanceof Error
+    ? jest.fn().mockRejectedValue(ratings)
+    : jest.fn().mockResolvedValue(ratings)
+});
+
+describe('parseRerankOptions', () => {
+  it('should accept booleans and reranker names', () => {
+    expect(parseRerankOptions(undefined)).toBeUndefined();
+    expect(parseRerankOptions(true)).toEqual({ enabled: true });
+    expect(parseRerankOptions('none')).toEqual({ enabled: false });
+    expect(parseRerankOptions('llm')).toMatchObject({ enabled: true, reranker: 'llm' });
+  });
+
+  it('should read numeric options from query strings', () => {
+    expect(parseRerankOptions({ reranker: 'lexical', candidates: '100', topK: '5' })).toEqual({
+      reranker: 'lexical',
+      candidates: 100,
+      topK: 5
+    });
+  });
+
+  it('should reject unknown rerankers and invalid counts', () => {
+    expect(() => parseRerankOptions('cohere')).toThrow(InvalidRerankOptionsError);
+    expect(() => parseRerankOptions({ topK: '0' })).toThrow(InvalidRerankOptionsError);
+    expect(() => parseRerankOptions(['llm'])).toThrow(InvalidRerankOptionsError);
+  });
+});
+
+describe('LexicalReranker', () => {
+  it('should favour chunks containing the query terms', async () => {
+    const scores = await new LexicalReranker().score('善意の第三者', results);
+
+    expect(scores[1]).toBeGreaterThan(scores[0]!);
+    expect(scores[1]).toBeCloseTo(0.5 * 0.6 + 0.5);
+  });
+});
+
+describe('LLMReranker', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should scale the ratings returned by the LLM', async () => {
+    const llm = createLLM([2, 9, 0]);
+    const scores = await new LLMReranker(llm).score('善意の第三者', results);
+
+    expect(scores).toEqual([0.2, 0.9, 0]);
+    expect(llm.rateRelevance).toHaveBeenCalledWith('善意の第三者', results);
+    expect(llm.generateResponse).not.toHaveBeenCalled();
+  });
+
+  it('should rate passages in batches', async () => {
+    const llm = createLLM([5, 5]);
+    const scores = await new LLMReranker(llm, 2).score('質問', [...results, ...results.slice(0, 1)]);
+
+    expect(llm.rateRelevance).toHaveBeenCalledTimes(2);
+    expect(scores).toEqual([0.5, 0.5, 0.5, 0.5]);
+  });
+
+  it('should leave a batch unscored when it cannot be rated', async () => {
+    const scores = await new LLMReranker(createLLM(new Error('Expected 3 ratings, got: {}'))).score('質問', results);
+
+    expect(scores).toEqual([undefined, undefined, undefined]);
+  });
+});
+
+describe('RerankService', () => {
+  const service = new RerankService({
+    lexical: new LexicalReranker(),
+    llm: new LLMReranker(createLLM([1, 10, 3]))
+  });
+
+  it('should stay off unless enabled by default or by the request', () => {
+    expect(service.resolve()).toBeUndefined();
+    expect(service.resolve({ reranker: 'llm' }, 5)).toEqual({ enabled: true, reranker: 'llm', candidates: 50, topK: 5 });
+    expect(new RerankService(service['rerankers'], { enabled: true, reranker: 'llm' }).resolve({ enabled: false })).toBeUndefined();
+  });
+
+  it('should retrieve at least topK candidates', () => {
+    expect(service.resolve({ enabled: true, candidates: 3, topK: 8 })?.candidates).toBe(8);
+  });
+
+  it('should reorder by reranked score and keep the original score', async () => {
+    const reranked = await service.rerank('善意の第三者', results, { enabled: true, reranker: 'llm', candidates: 50, topK: 2 });
+
+    expect(reranked.map(result => result.chunk.id)).toEqual(['2', '3']);
+    expect(reranked[0]).toMatchObject({ score: 1, originalScore: 0.6, rerankScore: 1 });
+  });
+
+  it('should leave rerankScore unset for results that could not be scored', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const failing = new RerankService({ lexical: new LexicalReranker(), llm: new LLMReranker(createLLM(new Error('timeout'))) });
+
+    const reranked = await failing.rerank('質問', results, { enabled: true, reranker: 'llm', candidates: 50, topK: 3 });
+
+    expect(reranked.map(result => result.score)).toEqual([0.8, 0.6, 0.4]);
+    expect(reranked.every(result => result.rerankScore === undefined)).toBe(true);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  InvalidDiversityOptionsError,
+  diversifyResults,
+  mergeAdjacentChunks,
+  parseDiversityOptions
+} from '../utils/search-diversity';
+import { DocumentChunk, SearchResult } from '../types';
+
+const text = '第九十四条 相手方と通じてした虚偽の意思表示は、無効とする。前項の規定による意思表示の無効は、善意の第三者に対抗することができない。';
+
+const createResult = (
+  id: string,
+  score: number,
+  overrides: Partial<DocumentChunk> = {}
+): SearchResult => {
+  const chunk: DocumentChunk = {
+    id,
+    documentPath: '/test/129AC0000000089.md',
+    title: '民法',
+    content: text,
+    metadata: {
+      category: 'test',
+      fileName: '129AC0000000089.md',
+      filePath: '/test/129AC0000000089.md',
+      lastModified: new Date()
+    },
+    chunkIndex: 0,
+    startPosition: 0,
+    endPosition: text.length,
+    articleKey: '94',
+    provisionType: 'main',
+    ...overrides
+  };
+  return { chunk, score, highlights: [id] };
+};
+
+describe('parseDiversityOptions', () => {
+  it('should read numbers from query strings', () => {
+    expect(parseDiversityOptions({ mmrLambda: '0.7', maxPerDocument: '2' })).toEqual({ mmrLambda: 0.7, maxPerDocument: 2 });
+    expect(parseDiversityOptions({})).toEqual({});
+  });
+
+  it('should reject out-of-range values', () => {
+    expect(() => parseDiversityOptions({ mmrLambda: 1.5 })).toThrow(InvalidDiversityOptionsError);
+    expect(() => parseDiversityOptions({ maxPerDocument: '0' })).toThrow(InvalidDiversityOptionsError);
+  });
+});
+
+describe('diversifyResults', () => {
+  const results = [
+    createResult('a1', 0.9),
+    createResult('a2', 0.88),
+    createResult('b1', 0.7, { documentPath: '/test/b.md' })
+  ];
+
+  it('should prefer dissimilar chunks as mmrLambda decreases', () => {
+    const embeddings = new Map([['a1', [1, 0]], ['a2', [1, 0.05]], ['b1', [0, 1]]]);
+
+    expect(diversifyResults(results, { mmrLambda: 1, limit: 2 }, embeddings).map(r => r.chunk.id)).toEqual(['a1', 'a2']);
+    expect(diversifyResults(results, { mmrLambda: 0.5, limit: 2 }, embeddings).map(r => r.chunk.id)).toEqual(['a1', 'b1']);
+  });
+
+  it('should keep score order when only capping per document', () => {
+    expect(diversifyResults(results, { maxPerDocument: 1, limit: 3 }).map(r => r.chunk.id)).toEqual(['a1', 'b1']);
+  });
+});
+
+describe('mergeAdjacentChunks', () => {
+  const split = 40;
+  const overlap = 10;
+
+  it('should join overlapping chunks of one article into a single span', () => {
+    const merged = mergeAdjacentChunks([
+      createResult('second', 0.8, { content: text.substring(split - overlap), startPosition: split - overlap, chunkIndex: 1 }),
+      createResult('first', 0.6, { content: text.substring(0, split), endPosition: split }),
+      createResult('other', 0.5, { documentPath: '/test/other.md' })
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ score: 0.8, chunk: { id: 'second', content: text, startPosition: 0, chunkIndex: 0 } });
+    expect(merged[0]?.highlights).toEqual(['first', 'second']);
+    expect(merged[1]?.chunk.id).toBe('other');
+  });
+
+  it('should join two spans when a later chunk bridges them', () => {
+    const merged = mergeAdjacentChunks([
+      createResult('start', 0.9, { content: text.substring(0, 30), endPosition: 30 }),
+      createResult('end', 0.8, { content: text.substring(50), startPosition: 50, chunkIndex: 2 }),
+      createResult('middle', 0.7, { content: text.substring(20, 60), startPosition: 20, endPosition: 60, chunkIndex: 1 })
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ score: 0.9, chunk: { id: 'start', content: text, startPosition: 0, endPosition: text.length } });
+  });
+
+  it('should keep neighbouring articles apart', () => {
+    const merged = mergeAdjacentChunks([
+      createResult('94', 0.8, { endPosition: 60 }),
+      createResult('95', 0.7, { startPosition: 60, endPosition: 120, articleKey: '95' })
+    ]);
+
+    expect(merged).toHaveLength(2);
+  });
+});
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { AdminController } from '../controllers/admin-controller';
+import { UsageReportService, UsageSource } from '../services/usage-report';
+import { CostTracker } from '../types';
+
+const records: CostTracker[] = [
+  {
+    provider: 'openai',
+    operation: 'embedding',
+    model: 'text-embedding-3-small',
+    conversationId: 'c1',
+    inputTokens: 12,
+    outputTokens: 0,
+    cost: 0.00000024,
+    estimated: true,
+    timestamp: new Date('2026-10-18T23:59:00Z')
+  },
+  {
+    provider: 'openai',
+    operation: 'generation',
+    model: 'gpt-4o-mini',
+    conversationId: 'c1',
+    inputTokens: 1500,
+    outputTokens: 400,
+    cost: 0.000465,
+    timestamp: new Date('2026-10-19T00:01:00Z')
+  },
+  {
+    provider: 'vertexai',
+    operation: 'generation',
+    model: 'gemini-1.5-flash',
+    conversationId: '=HYPERLINK("x"),1',
+    inputTokens: 1000,
+    outputTokens: 100,
+    cost: 0.000105,
+    timestamp: new Date('2026-10-19T09:00:00Z')
+  },
+  {
+    provider: 'vertexai',
+    operation: 'embedding',
+    inputTokens: 5000,
+    outputTokens: 0,
+    cost: 0.00075,
+    timestamp: new Date('2026-10-19T10:00:00Z')
+  }
+];
+
+describe('UsageReportService', () => {
+  let source: jest.Mocked<UsageSource>;
+  const from = new Date('2026-10-01T00:00:00Z');
+  const to = new Date('2026-11-01T00:00:00Z');
+
+  beforeEach(() => {
+    source = { getCostRecords: jest.fn().mockResolvedValue(records) };
+  });
+
+  it('should break spend down by day, provider, operation, model and conversation', async () => {
+    const report = await new UsageReportService(source).getReport(from, to);
+
+    expect(source.getCostRecords).toHaveBeenCalledWith(from, to);
+    expect(report.total).toMatchObject({ calls: 4, inputTokens: 7512, outputTokens: 500, estimatedCalls: 1 });
+    expect(report.total.cost).toBeCloseTo(0.00132024, 10);
+    expect(Object.keys(report.byDay)).toEqual(['2026-10-18', '2026-10-19']);
+    expect(report.byDay['2026-10-19']?.calls).toBe(3);
+    expect(report.byProvider.vertexai?.inputTokens).toBe(6000);
+    expect(report.byOperation.generation?.outputTokens).toBe(500);
+    expect(report.byModel.unknown?.calls).toBe(1);
+    // Calls made outside a search (indexing) have no conversation
+    expect(Object.keys(report.byConversation)).toEqual(['c1', '=HYPERLINK("x"),1']);
+    expect(report.byConversation.c1?.inputTokens).toBe(1512);
+  });
+
+  it('should export one CSV row per call with client-supplied values escaped', async () => {
+    const csv = await new UsageReportService(source).exportCsv(from, to);
+    const lines = csv.trimEnd().split('\n');
+
+    expect(lines[0]).toBe('timestamp,provider,operation,model,conversationId,inputTokens,outputTokens,cost,estimated');
+    expect(lines[1]).toBe('2026-10-18T23:59:00.000Z,openai,embedding,text-embedding-3-small,c1,12,0,0.00000024,true');
+    expect(lines[3]).toBe('2026-10-19T09:00:00.000Z,vertexai,generation,gemini-1.5-flash,"\'=HYPERLINK(""x""),1",1000,100,0.00010500,false');
+    expect(lines[4]).toBe('2026-10-19T10:00:00.000Z,vertexai,embedding,,,5000,0,0.00075000,false');
+  });
+});
+
+describe('AdminController', () => {
+  const usageReports = new UsageReportService({ getCostRecords: jest.fn().mockResolvedValue(records) });
+
+  const request = (remoteAddress: string, headers: Record<string, string> = {}) => ({
+    query: {},
+    socket: { remoteAddress },
+    header: (name: string) => headers[name.toLowerCase()]
+  }) as unknown as Request;
+
+  const response = () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    return res;
+  };
+
+  it('should only serve local requests without an admin key', async () => {
+    const controller = new AdminController(usageReports);
+
+    const remote = response();
+    await controller.getUsage(request('203.0.113.5'), remote as unknown as Response);
+    const proxied = response();
+    await controller.getUsage(request('127.0.0.1', { 'x-forwarded-for': '203.0.113.5' }), proxied as unknown as Response);
+    const local = response();
+    await controller.getUsage(request('::1'), local as unknown as Response);
+
+    expect(remote.status).toHaveBeenCalledWith(403);
+    expect(proxied.status).toHaveBeenCalledWith(403);
+    expect(local.status).not.toHaveBeenCalled();
+    expect(local.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+  });
+
+  it('should require the admin key once one is set, even locally', async () => {
+    const controller = new AdminController(usageReports, 'secret');
+
+    const missing = response();
+    await controller.getUsage(request('127.0.0.1'), missing as unknown as Response);
+    const given = response();
+    await controller.getUsage(request('203.0.113.5', { 'x-admin-key': 'secret' }), given as unknown as Response);
+
+    expect(missing.status).toHaveBeenCalledWith(401);
+    expect(given.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+  });
+});
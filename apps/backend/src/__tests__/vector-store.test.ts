@@ -0,0 +1,302 @@
+import { ChromaClient } from 'chromadb';
+import { ChromaVectorStore } from '../services/vector-store';
+import { ChunkStoreError, DocumentChunk, EmbeddingService } from '../types';
+import { EmbeddingMismatchError } from '../utils/embedding-profile';
+
+jest.mock('chromadb');
+
+const MockChromaClient = ChromaClient as jest.MockedClass<typeof ChromaClient>;
+
+describe('ChromaVectorStore', () => {
+  let collection: {
+    add: jest.Mock;
+    update: jest.Mock;
+    query: jest.Mock;
+    get: jest.Mock;
+    count: jest.Mock;
+    modify: jest.Mock;
+    metadata?: Record<string, unknown>;
+  };
+  let store: ChromaVectorStore;
+
+  const embeddingService: EmbeddingService = {
+    generateEmbedding: jest.fn().mockResolvedValue([0.1, 0.2]),
+    generateEmbeddings: jest.fn(async (texts: string[]) => texts.map(() => [0.1, 0.2]))
+  };
+
+  const lastWhere = () => collection.query.mock.calls[0]?.[0]?.where;
+
+  beforeEach(() => {
+    collection = {
+      add: jest.fn().mockResolvedValue(undefined),
+      update: jest.fn().mockResolvedValue(undefined),
+      query: jest.fn().mockResolvedValue({ ids: [[]], distances: [[]], documents: [[]], metadatas: [[]] }),
+      get: jest.fn().mockResolvedValue({ ids: [], documents: [], metadatas: [] }),
+      count: jest.fn().mockResolvedValue(0),
+      modify: jest.fn().mockResolvedValue(undefined)
+    };
+    MockChromaClient.mockImplementation(() => ({
+      getCollection: jest.fn().mockResolvedValue(collection)
+    }) as unknown as ChromaClient);
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    store = new ChromaVectorStore(embeddingService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('dateRange filters', () => {
+    it('should store 公布日 as a YYYYMMDD number', async () => {
+      const chunk: DocumentChunk = {
+        id: 'chunk-1',
+        documentPath: '/test/129AC0000000089.md',
+        title: '民法',
+        content: '第七百九条 故意又は過失によって...',
+        metadata: {
+          category: 'test',
+          fileName: '129AC0000000089.md',
+          filePath: '/test/129AC0000000089.md',
+          lastModified: new Date(),
+          date: new Date(2023, 3, 1),
+          promulgationDate: new Date(1896, 3, 27)
+        },
+        chunkIndex: 0,
+        startPosition: 0,
+        endPosition: 20
+      };
+
+      await store.addEmbeddings([chunk]);
+
+      expect(collection.add.mock.calls[0]?.[0]?.metadatas[0]?.promulgationDateValue).toBe(18960427);
+    });
+
+    it('should translate a date range into $gte/$lte conditions', async () => {
+      await store.searchByEmbedding([0.1, 0.2], {
+        filters: {
+          lawType: '法律',
+          dateRange: { start: new Date(1946, 0, 1), end: new Date(1989, 0, 7) }
+        }
+      });
+
+      expect(lastWhere()).toEqual({
+        $and: [
+          { lawType: '法律' },
+          { promulgationDateValue: { $gte: 19460101 } },
+          { promulgationDateValue: { $lte: 19890107 } }
+        ]
+      });
+    });
+
+    it('should accept an open-ended range', async () => {
+      await store.searchByEmbedding([0.1, 0.2], {
+        filters: { dateRange: { start: new Date(2019, 4, 1) } }
+      });
+
+      expect(lastWhere()).toEqual({ promulgationDateValue: { $gte: 20190501 } });
+    });
+  });
+
+  describe('filter expressions', () => {
+    it('should translate lists to $in and exclusions to $ne/$nin', async () => {
+      await store.searchByEmbedding([0.1, 0.2], {
+        filters: {
+          category: ['民法', '商法'],
+          era: { $nin: ['明治', '大正'] },
+          lawType: { $ne: '政令' },
+          articleNumber: ['709条', '第七百十条']
+        }
+      });
+
+      expect(lastWhere()).toEqual({
+        $and: [
+          { category: { $in: ['民法', '商法'] } },
+          { era: { $nin: ['明治', '大正'] } },
+          { lawType: { $ne: '政令' } },
+          { articleKey: { $in: ['709', '710'] } }
+        ]
+      });
+    });
+
+    it('should unwrap single-element lists', async () => {
+      await store.searchByEmbedding([0.1, 0.2], { filters: { era: ['昭和'] } });
+
+      expect(lastWhere()).toEqual({ era: '昭和' });
+    });
+
+    it('should nest $and and $or groups', async () => {
+      await store.searchByEmbedding([0.1, 0.2], {
+        filters: {
+          provisionType: 'main',
+          $or: [
+            { category: '民法', era: ['昭和', '平成'] },
+            { lawType: '政令' }
+          ],
+          $and: [{ lawNumber: { $ne: '129AC0000000089' } }]
+        }
+      });
+
+      expect(lastWhere()).toEqual({
+        $and: [
+          { provisionType: 'main' },
+          { lawNumber: { $ne: '129AC0000000089' } },
+          {
+            $or: [
+              { $and: [{ category: '民法' }, { era: { $in: ['昭和', '平成'] } }] },
+              { lawType: '政令' }
+            ]
+          }
+        ]
+      });
+    });
+  });
+
+  describe('diversification', () => {
+    const metadata = (documentPath: string, startPosition: number) => ({
+      documentPath,
+      title: '民法',
+      chunkIndex: startPosition / 800,
+      startPosition,
+      endPosition: startPosition + 1000,
+      category: 'test',
+      fileName: 'test.md',
+      provisionType: 'main'
+    });
+
+    beforeEach(() => {
+      collection.query.mockResolvedValue({
+        ids: [['a1', 'a2', 'b1']],
+        distances: [[0.1, 0.12, 0.3]],
+        documents: [['第一条 ...', '第一条 ...', '第九十条 ...']],
+        metadatas: [[metadata('/test/a.md', 0), metadata('/test/a.md', 800), metadata('/test/b.md', 0)]],
+        embeddings: [[[1, 0], [0.99, 0.1], [0, 1]]]
+      });
+    });
+
+    it('should over-fetch and request embeddings for MMR', async () => {
+      await store.searchByEmbedding([1, 0], { limit: 2, mmrLambda: 0.5 });
+
+      expect(collection.query.mock.calls[0]?.[0]).toMatchObject({
+        nResults: 12,
+        include: expect.arrayContaining(['embeddings'])
+      });
+    });
+
+    it('should skip near-duplicate chunks under MMR', async () => {
+      const results = await store.searchByEmbedding([1, 0], { limit: 2, mmrLambda: 0.5 });
+
+      expect(results.map(result => result.chunk.id)).toEqual(['a1', 'b1']);
+    });
+
+    it('should cap results per document', async () => {
+      const results = await store.searchByEmbedding([1, 0], { limit: 3, maxPerDocument: 1 });
+
+      expect(results.map(result => result.chunk.id)).toEqual(['a1', 'b1']);
+    });
+  });
+
+  describe('addEmbeddings', () => {
+    const chunk = (id: string): DocumentChunk => ({
+      id,
+      documentPath: '/test/a.md',
+      title: 'A',
+      content: `content ${id}`,
+      metadata: { category: 'test', fileName: 'a.md', filePath: '/test/a.md', lastModified: new Date() },
+      chunkIndex: 0,
+      startPosition: 0,
+      endPosition: 7
+    });
+
+    it('should store what it can and name the chunks it could not', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      collection.add
+        .mockRejectedValueOnce(new Error('payload too large'))
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('invalid metadata'));
+
+      const error = await store.addEmbeddings([chunk('a1'), chunk('a2')]).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ChunkStoreError);
+      expect([...(error as ChunkStoreError).chunkIds]).toEqual(['a2']);
+      expect(collection.add).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('updateChunks', () => {
+    it('should rewrite metadata only, leaving documents and embeddings untouched', async () => {
+      await store.updateChunks([{
+        id: 'a1',
+        documentPath: '/test/a.md',
+        title: 'A',
+        content: 'content',
+        metadata: { category: 'test', fileName: 'a.md', filePath: '/test/a.md', lastModified: new Date() },
+        chunkIndex: 3,
+        startPosition: 120,
+        endPosition: 127
+      }]);
+
+      expect(collection.update).toHaveBeenCalledTimes(1);
+      const params = collection.update.mock.calls[0]?.[0];
+      expect(Object.keys(params).sort()).toEqual(['ids', 'metadatas']);
+      expect(params).toMatchObject({ ids: ['a1'], metadatas: [{ chunkIndex: 3, startPosition: 120, endPosition: 127 }] });
+    });
+  });
+
+  describe('getChunksByRange', () => {
+    it('should fetch an inclusive chunkIndex range of one document', async () => {
+      await store.getChunksByRange('/test/a.md', 3, 5);
+
+      expect(collection.get.mock.calls[0]?.[0]).toMatchObject({
+        where: {
+          $and: [
+            { documentPath: '/test/a.md' },
+            { chunkIndex: { $gte: 3 } },
+            { chunkIndex: { $lte: 5 } }
+          ]
+        },
+        limit: 3
+      });
+    });
+  });
+
+  describe('getEmbeddings', () => {
+    it('should fetch only the embeddings of the given chunks', async () => {
+      collection.get.mockResolvedValue({ ids: ['a', 'b'], embeddings: [[1, 0], [0, 1]] });
+
+      const embeddings = await store.getEmbeddings(['a', 'b']);
+
+      expect(collection.get).toHaveBeenCalledWith({ ids: ['a', 'b'], include: ['embeddings'] });
+      expect(embeddings).toEqual(new Map([['a', [1, 0]], ['b', [0, 1]]]));
+    });
+  });
+
+  describe('embedding profile', () => {
+    it('should refuse a collection built with another embedding model', async () => {
+      collection.metadata = { embeddingModel: 'openai:text-embedding-3-small' };
+      const vertexStore = new ChromaVectorStore(embeddingService, { embeddingModel: 'vertexai:gemini-embedding-001' });
+
+      await expect(vertexStore.searchByEmbedding([0.1, 0.2], { limit: 1 })).rejects.toBeInstanceOf(EmbeddingMismatchError);
+      expect(collection.query).not.toHaveBeenCalled();
+    });
+
+    it('should record the dimension on first write and reject other lengths', async () => {
+      await store.addEmbeddings([{
+        id: 'a1',
+        documentPath: '/test/a.md',
+        title: 'A',
+        content: 'content',
+        metadata: { category: 'test', fileName: 'a.md', filePath: '/test/a.md', lastModified: new Date() },
+        chunkIndex: 0,
+        startPosition: 0,
+        endPosition: 7,
+        provisionType: 'main'
+      }]);
+
+      expect(collection.modify).toHaveBeenCalledWith({ metadata: expect.objectContaining({ embeddingDimension: 2 }) });
+      expect(await store.getEmbeddingProfile()).toMatchObject({ dimension: 2 });
+      await expect(store.searchByEmbedding([0.1, 0.2, 0.3], { limit: 1 })).rejects.toBeInstanceOf(EmbeddingMismatchError);
+    });
+  });
+});
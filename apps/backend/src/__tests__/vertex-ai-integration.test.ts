@@ -1,6 +1,11 @@
 import { ProviderConfig, VertexAIConfig } from '../types/vertex-ai';
 import { ProviderFactory } from '../services/provider-factory';
 import { AIServiceFactory } from '../services/ai-service-factory';
+import { OpenAIEmbeddingService } from '../services/embedding-service';
+import { OpenAILLMService } from '../services/llm-service';
+import { VertexAIEmbeddingService } from '../services/vertex-ai-embedding';
+import { GeminiEmbeddingService } from '../services/gemini-embedding';
+import { EmbedContentResponse } from '@google/genai';
 
 // Mock environment variables for testing
 const mockEnvVars = {
@@ -88,6 +93,36 @@ describe('Vertex AI Integration', () => {
       expect(factory).toBeDefined();
     });
 
+    test('should run health checks without billed calls', async () => {
+      const embeddingProbe = jest.spyOn(OpenAIEmbeddingService.prototype, 'healthCheck').mockResolvedValue(true);
+      const llmProbe = jest.spyOn(OpenAILLMService.prototype, 'healthCheck').mockResolvedValue(true);
+      const embed = jest.spyOn(OpenAIEmbeddingService.prototype, 'generateEmbedding');
+      const generate = jest.spyOn(OpenAILLMService.prototype, 'generateResponse');
+
+      try {
+        const factory = new ProviderFactory({
+          primary: 'openai',
+          fallback: [],
+          healthCheckInterval: 0,
+          healthCheckTimeout: 10000,
+          costOptimization: false,
+          openai: { apiKey: 'test-key', model: 'gpt-3.5-turbo' }
+        });
+        await factory.createEmbeddingService();
+        await factory.createLLMService();
+        await factory.runHealthChecks();
+
+        expect(embeddingProbe).toHaveBeenCalledTimes(2);
+        expect(llmProbe).toHaveBeenCalledTimes(2);
+        expect(embed).not.toHaveBeenCalled();
+        expect(generate).not.toHaveBeenCalled();
+        expect(factory.getCostSummary().total).toBe(0);
+        factory.dispose();
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
     test('should track cost information', () => {
       const config: ProviderConfig = {
         primary: 'openai',
@@ -203,6 +238,47 @@ describe('Vertex AI Integration', () => {
       expect(vertexaiEmbeddingCost).toBeCloseTo(0.000025);
       expect(vertexaiGenerationCost).toBeGreaterThan(openaiGenerationCost);
     });
+
+    test('should report the token counts of Vertex AI embeddings', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const service = new VertexAIEmbeddingService({
+        projectId: 'test-project',
+        location: 'asia-northeast1',
+        textModel: 'gemini-1.5-pro',
+        embeddingModel: 'gemini-embedding-001'
+      });
+      jest.spyOn(service['client'].models, 'embedContent').mockResolvedValue({
+        embeddings: [{ values: [0.1], statistics: { tokenCount: 7 } }, { values: [0.2], statistics: { tokenCount: 5 } }]
+      } as EmbedContentResponse);
+
+      try {
+        const usage = { inputTokens: 0, outputTokens: 0 };
+        await service.generateEmbeddings(['第一条', '第二条'], usage);
+
+        expect(usage).toEqual({ inputTokens: 12, outputTokens: 0 });
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    test('should count the tokens of Gemini embeddings', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const service = new GeminiEmbeddingService({ apiKey: 'test-key' });
+      jest.spyOn(service['client'].models, 'embedContent').mockResolvedValue({
+        embeddings: [{ values: [0.1] }, { values: [0.2] }]
+      } as EmbedContentResponse);
+      const countTokens = jest.spyOn(service['client'].models, 'countTokens').mockResolvedValue({ totalTokens: 9 });
+
+      try {
+        const usage = { inputTokens: 0, outputTokens: 0 };
+        await service.generateEmbeddings(['第一条', '第二条'], usage);
+
+        expect(countTokens).toHaveBeenCalledWith({ model: 'gemini-embedding-001', contents: ['第一条', '第二条'] });
+        expect(usage).toEqual({ inputTokens: 9, outputTokens: 0 });
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
   });
 });
 
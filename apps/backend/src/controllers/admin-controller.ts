@@ -0,0 +1,108 @@
+import * as crypto from 'crypto';
+import { Request, Response } from 'express';
+import { UsageReportService } from '../services/usage-report';
+
+class InvalidDateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDateError';
+  }
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// A request forwarded by a reverse proxy on the same host also arrives from loopback, so it
+// only counts as local without a forwarding header
+const isLocalRequest = (req: Request): boolean => {
+  return LOOPBACK_ADDRESSES.has(req.socket.remoteAddress || '') &&
+    !req.header('x-forwarded-for') && !req.header('forwarded');
+};
+
+// ISO date or date-time; a date-only "to" includes that whole (UTC) day
+const parseDateParam = (value: unknown, field: 'from' | 'to'): Date | undefined => {
+  if (value === undefined || value === '') return undefined;
+
+  const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+  if (isNaN(date.getTime())) {
+    throw new InvalidDateError(`Query parameter "${field}" must be an ISO date such as 2026-10-01`);
+  }
+  if (field === 'to' && DATE_ONLY.test(value as string)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+};
+
+export class AdminController {
+  // Without an admin key only requests from this machine are served, as in local development
+  constructor(private usageReports: UsageReportService, private adminApiKey?: string) {}
+
+  // ?from=2026-10-01&to=2026-10-31 (default: this month so far); ?format=csv for one row per call
+  async getUsage(req: Request, res: Response): Promise<void> {
+    if (!this.authorize(req, res)) return;
+
+    try {
+      const now = new Date();
+      const from = parseDateParam(req.query.from, 'from')
+        ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      const to = parseDateParam(req.query.to, 'to') ?? now;
+
+      if (from >= to) {
+        res.status(400).json({ error: '"from" must be before "to"' });
+        return;
+      }
+
+      if (req.query.format === 'csv') {
+        const csv = await this.usageReports.exportCsv(from, to);
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="usage-${from.toISOString().slice(0, 10)}-${to.toISOString().slice(0, 10)}.csv"`
+        );
+        res.send(csv);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await this.usageReports.getReport(from, to)
+      });
+    } catch (error) {
+      if (error instanceof InvalidDateError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Usage report error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Checks the X-Admin-Key header; responds 401 and returns false when it does not match.
+  // Conversation IDs in the report are enough to read those conversations, so without a
+  // key the endpoints fail closed for everything but loopback.
+  private authorize(req: Request, res: Response): boolean {
+    if (!this.adminApiKey) {
+      if (isLocalRequest(req)) return true;
+
+      res.status(403).json({ error: 'Admin endpoints are only served locally until ADMIN_API_KEY is set' });
+      return false;
+    }
+
+    const given = Buffer.from(req.header('x-admin-key') || '');
+    const expected = Buffer.from(this.adminApiKey);
+    if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) {
+      return true;
+    }
+
+    res.status(401).json({ error: 'A valid X-Admin-Key header is required' });
+    return false;
+  }
+}
+
+export const createAdminController = (usageReports: UsageReportService, adminApiKey?: string): AdminController => {
+  return new AdminController(usageReports, adminApiKey);
+};
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { HealthService } from '../services/health-service';
+
+export class HealthController {
+  constructor(private healthService: HealthService) {}
+
+  // Summary for people and uptime monitors; 503 when searches cannot work
+  async healthCheck(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.healthService.getReport();
+
+      res.status(report.status === 'unhealthy' ? 503 : 200).json({
+        success: report.status !== 'unhealthy',
+        status: report.status,
+        timestamp: report.timestamp
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        status: 'unhealthy',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async getDetails(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.healthService.getReport();
+
+      res.status(report.status === 'unhealthy' ? 503 : 200).json({
+        success: report.status !== 'unhealthy',
+        data: report
+      });
+    } catch (error) {
+      console.error('Health details error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Liveness: the process answers HTTP; no dependency is checked, so an outage of Chroma or
+  // a provider does not get the container restarted
+  async liveness(req: Request, res: Response): Promise<void> {
+    res.json({
+      status: 'alive',
+      uptime: Math.round(process.uptime())
+    });
+  }
+
+  // Readiness: take this instance out of the load balancer while it cannot answer searches
+  async readiness(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await this.healthService.getReport();
+      const ready = report.status !== 'unhealthy';
+
+      res.status(ready ? 200 : 503).json({
+        status: ready ? 'ready' : 'not ready',
+        problems: report.problems
+      });
+    } catch (error) {
+      res.status(503).json({
+        status: 'not ready',
+        problems: [error instanceof Error ? error.message : 'Unknown error']
+      });
+    }
+  }
+}
+
+export const createHealthController = (healthService: HealthService): HealthController => {
+  return new HealthController(healthService);
+};
@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { LawRepository } from '../services/law-repository';
+
+export class LawController {
+  constructor(private lawRepository: LawRepository) {}
+
+  async getTableOfContents(req: Request, res: Response): Promise<void> {
+    try {
+      const { lawNumber } = req.params;
+
+      if (!lawNumber || !/^[0-9A-Za-z]+$/.test(lawNumber)) {
+        res.status(400).json({
+          success: false,
+          error: 'A valid law number is required'
+        });
+        return;
+      }
+
+      const toc = await this.lawRepository.getTableOfContents(lawNumber);
+
+      if (!toc) {
+        res.status(404).json({
+          success: false,
+          error: `Law not found: ${lawNumber}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: toc
+      });
+    } catch (error) {
+      console.error('Get table of contents error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
+
+export const createLawController = (lawRepository: LawRepository): LawController => {
+  return new LawController(lawRepository);
+};
@@ -1,27 +1,18 @@
 import { Request, Response } from 'express';
 import { QueryProcessor } from '../services/query-processor';
-import { QueryRequest, SearchOptions } from '../types';
+import { BudgetExceededError, QueryRequest, SearchOptions } from '../types';
+import { InvalidFilterError, parseMetadataFilter } from '../utils/metadata-filter';
+import { InvalidRerankOptionsError, parseRerankOptions } from '../services/reranker';
+import { InvalidDiversityOptionsError, parseDiversityOptions } from '../utils/search-diversity';
+import { InvalidSearchModeError, parseSearchMode } from '../services/hybrid-search';
 
 export class SearchController {
   constructor(private queryProcessor: QueryProcessor) {}
 
   async search(req: Request, res: Response): Promise<void> {
     try {
-      const { query, conversationId, language, filters } = req.body as QueryRequest;
-
-      if (!query || typeof query !== 'string' || query.trim().length === 0) {
-        res.status(400).json({
-          error: 'Query is required and must be a non-empty string'
-        });
-        return;
-      }
-
-      const request: QueryRequest = {
-        query: query.trim(),
-        conversationId,
-        language: language || 'ja',
-        filters
-      };
+      const request = this.parseQueryRequest(req, res);
+      if (!request) return;
 
       const response = await this.queryProcessor.processQuery(request);
 
@@ -30,6 +21,14 @@ export class SearchController {
         data: response
       });
     } catch (error) {
+      if (this.isInvalidOptionsError(error)) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      if (error instanceof BudgetExceededError) {
+        res.status(503).json({ success: false, error: 'Budget exceeded', message: error.message });
+        return;
+      }
       console.error('Search error:', error);
       res.status(500).json({
         success: false,
@@ -39,9 +38,60 @@ export class SearchController {
     }
   }
 
+  // Same body as POST /api/search, answered as Server-Sent Events: sources, then answer
+  // tokens, then related questions, then done with the conversation ID (or error)
+  async streamSearch(req: Request, res: Response): Promise<void> {
+    let request: QueryRequest | undefined;
+    try {
+      request = this.parseQueryRequest(req, res);
+    } catch (error) {
+      if (this.isInvalidOptionsError(error)) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Search stream error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+      return;
+    }
+    if (!request) return;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    try {
+      for await (const event of this.queryProcessor.streamQuery(request)) {
+        // Leaving the loop ends the LLM stream instead of generating an answer nobody reads
+        if (closed) break;
+
+        const { type, ...data } = event;
+        res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    } catch (error) {
+      console.error('Search stream error:', error);
+      if (!closed) {
+        res.write(`event: error\ndata: ${JSON.stringify({ message: 'Internal server error' })}\n\n`);
+      }
+    }
+    res.end();
+  }
+
   async searchDocuments(req: Request, res: Response): Promise<void> {
     try {
-      const { q: query, limit, threshold, category, era, lawNumber } = req.query;
+      const {
+        q: query, limit, threshold, mode, article, rerank, mmrLambda, maxPerDocument, ...filterParams
+      } = req.query;
 
       if (!query || typeof query !== 'string' || query.trim().length === 0) {
         res.status(400).json({
@@ -50,23 +100,18 @@ export class SearchController {
         return;
       }
 
+      // Same filter structure as POST /api/search: ?era=昭和&era=平成, ?lawType[$ne]=政令,
+      // ?$or[0][category]=民法&$or[1][lawType]=政令, ?from=1946-01-01&to=1989-01-07
       const options: SearchOptions = {
         limit: limit ? parseInt(limit as string, 10) : 10,
         threshold: threshold ? parseFloat(threshold as string) : 0.3,
-        filters: {
-          category: category as string,
-          era: era as string,
-          lawNumber: lawNumber as string
-        }
+        filters: parseMetadataFilter({ ...filterParams, articleNumber: article }, 'query'),
+        mode: parseSearchMode(mode),
+        ...parseDiversityOptions({ mmrLambda, maxPerDocument })
       };
 
-      Object.keys(options.filters!).forEach(key => {
-        if (!options.filters![key as keyof typeof options.filters]) {
-          delete options.filters![key as keyof typeof options.filters];
-        }
-      });
-
-      const results = await this.queryProcessor.searchDocuments(query.trim(), options);
+      // ?rerank=llm or ?rerank[reranker]=lexical&rerank[candidates]=100; limit is the kept topK
+      const results = await this.queryProcessor.searchDocuments(query.trim(), options, parseRerankOptions(rerank));
 
       res.json({
         success: true,
@@ -77,6 +122,14 @@ export class SearchController {
         }
       });
     } catch (error) {
+      if (this.isInvalidOptionsError(error)) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      if (error instanceof BudgetExceededError) {
+        res.status(503).json({ success: false, error: 'Budget exceeded', message: error.message });
+        return;
+      }
       console.error('Document search error:', error);
       res.status(500).json({
         success: false,
@@ -114,20 +167,41 @@ export class SearchController {
     }
   }
 
-  async healthCheck(req: Request, res: Response): Promise<void> {
-    try {
-      res.json({
-        success: true,
-        status: 'healthy',
-        timestamp: new Date().toISOString()
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        status: 'unhealthy',
-        error: error instanceof Error ? error.message : 'Unknown error'
+  // Validates a POST /api/search body; responds 400 and returns undefined for a missing query.
+  // Invalid filter, mode, rerank and diversity options throw, as in searchDocuments.
+  private parseQueryRequest(req: Request, res: Response): QueryRequest | undefined {
+    const { query, conversationId, language, filters, mode, rerank, mmrLambda, maxPerDocument } = req.body as QueryRequest;
+
+    if (!query || typeof query !== 'string' || query.trim().length === 0) {
+      res.status(400).json({
+        error: 'Query is required and must be a non-empty string'
       });
+      return undefined;
     }
+
+    // Older clients wrapped the filter in SearchOptions ({ filters: { filters: {...} } })
+    const rawFilters = (filters as { filters?: unknown } | undefined)?.filters ?? filters;
+
+    return {
+      query: query.trim(),
+      conversationId,
+      language: language || 'ja',
+      filters: parseMetadataFilter(rawFilters),
+      mode: parseSearchMode(mode),
+      rerank: parseRerankOptions(rerank),
+      ...parseDiversityOptions({ mmrLambda, maxPerDocument })
+    };
+  }
+
+  private isInvalidOptionsError(
+    error: unknown
+  ): error is InvalidFilterError | InvalidSearchModeError | InvalidRerankOptionsError | InvalidDiversityOptionsError {
+    return (
+      error instanceof InvalidFilterError ||
+      error instanceof InvalidSearchModeError ||
+      error instanceof InvalidRerankOptionsError ||
+      error instanceof InvalidDiversityOptionsError
+    );
   }
 }
 
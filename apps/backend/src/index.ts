@@ -3,10 +3,21 @@ import cors from 'cors';
 import path from 'path';
 import { config } from 'dotenv';
 import { createSearchController } from './controllers/search-controller';
+import { createLawController } from './controllers/law-controller';
+import { createHealthController } from './controllers/health-controller';
+import { createAdminController } from './controllers/admin-controller';
 import { createQueryProcessor } from './services/query-processor';
-import { createVectorStore } from './services/vector-store';
+import { createRerankService, parseRerankOptions } from './services/reranker';
+import { createAliasedVectorStoreFromEnv } from './services/vector-store-factory';
 import { conversationManager } from './services/llm-service';
 import { AIServiceFactory } from './services/ai-service-factory';
+import { createHealthService } from './services/health-service';
+import { createUsageReportService } from './services/usage-report';
+import { createLawRepository } from './services/law-repository';
+import { collectionFilePath } from './services/collection-aliases';
+import { createAliasedDocumentIndexer } from './utils/document-indexer';
+import { createDocumentWatcher } from './utils/document-watcher';
+import { SearchMode } from './types';
 
 config();
 
@@ -27,28 +38,86 @@ const initializeServices = async () => {
   const llmService = await aiServiceFactory.createLLMService();
   
   console.log('🗃️ Setting up vector store...');
-  const vectorStore = createVectorStore(embeddingService, {
-    host: process.env.CHROMA_HOST,
-    port: parseInt(process.env.CHROMA_PORT || '8000'),
-    collectionName: 'japanese-law-documents'
+  // VECTOR_STORE=local runs without a Chroma server. The collection is looked up through its
+  // alias, so a migration finished by migrate:embeddings is picked up without a restart.
+  const embeddingModel = embeddingService.modelName;
+  const vectorStore = await createAliasedVectorStoreFromEnv(embeddingService, {
+    embeddingModel,
+    defaultMode: process.env.SEARCH_MODE as SearchMode | undefined,
+    refreshIntervalMs: parseInt(process.env.COLLECTION_ALIAS_REFRESH_MS || '30000', 10)
   });
   
   console.log('⚙️ Creating query processor...');
-  const queryProcessor = createQueryProcessor(vectorStore, llmService, conversationManager);
+  const rerankService = createRerankService(llmService, {
+    ...parseRerankOptions(process.env.RERANKER),
+    candidates: process.env.RERANK_CANDIDATES ? parseInt(process.env.RERANK_CANDIDATES, 10) : undefined
+  });
+  const queryProcessor = createQueryProcessor(vectorStore, llmService, conversationManager, {
+    reranking: rerankService,
+    neighbourChunks: parseInt(process.env.NEIGHBOUR_CHUNKS || '1', 10)
+  });
   const searchController = createSearchController(queryProcessor);
+  
+  const documentsPath = process.env.DOCUMENTS_PATH || './markdown';
+  // Tables of contents come from the index manifest of the collection the alias serves
+  const manifestPath = process.env.INDEX_MANIFEST_PATH || './index-data/index-manifest.json';
+  const lawRepository = createLawRepository(
+    () => collectionFilePath(manifestPath, vectorStore.collectionName, 'japanese-law-documents')
+  );
+  const lawController = createLawController(lawRepository);
+  
+  // WATCH_DOCUMENTS=true re-indexes edited, added and deleted law files while serving
+  if (process.env.WATCH_DOCUMENTS === 'true') {
+    // Resolved per run, so index state follows the collection the alias points to
+    const indexer = createAliasedDocumentIndexer(vectorStore, documentsPath, 'japanese-law-documents', { embeddingModel });
+    createDocumentWatcher(indexer, documentsPath, {
+      debounceMs: parseInt(process.env.WATCH_DEBOUNCE_MS || '1000', 10),
+      onIndexed: () => lawRepository.clearCache()
+    }).start();
+  }
+
+  // Chroma (or the local snapshot) is probed per request; providers by the scheduled checks
+  const healthService = createHealthService(vectorStore, aiServiceFactory, {
+    backend: process.env.VECTOR_STORE || 'chroma',
+    timeoutMs: parseInt(process.env.HEALTH_CHECK_TIMEOUT || '10000', 10)
+  });
+  const healthController = createHealthController(healthService);
 
-  return { searchController, queryProcessor, vectorStore, aiServiceFactory };
+  // Usage reports name conversation IDs, so set ADMIN_API_KEY outside local development
+  if (!process.env.ADMIN_API_KEY) {
+    console.warn('⚠️  ADMIN_API_KEY is not set; /api/admin endpoints only answer local requests');
+  }
+  const adminController = createAdminController(createUsageReportService(aiServiceFactory), process.env.ADMIN_API_KEY);
+
+  return { searchController, lawController, healthController, adminController, queryProcessor, vectorStore, aiServiceFactory };
 };
 
-const setupRoutes = (searchController: ReturnType<typeof createSearchController>) => {
-  app.get('/health', searchController.healthCheck.bind(searchController));
+const setupRoutes = (
+  searchController: ReturnType<typeof createSearchController>,
+  lawController: ReturnType<typeof createLawController>,
+  healthController: ReturnType<typeof createHealthController>,
+  adminController: ReturnType<typeof createAdminController>
+) => {
+  app.get('/health', healthController.healthCheck.bind(healthController));
+  
+  app.get('/health/details', healthController.getDetails.bind(healthController));
+  
+  app.get('/health/live', healthController.liveness.bind(healthController));
+  
+  app.get('/health/ready', healthController.readiness.bind(healthController));
   
   app.post('/api/search', searchController.search.bind(searchController));
   
+  app.post('/api/search/stream', searchController.streamSearch.bind(searchController));
+  
   app.get('/api/documents/search', searchController.searchDocuments.bind(searchController));
   
   app.get('/api/conversations/:conversationId', searchController.getConversation.bind(searchController));
   
+  app.get('/api/laws/:lawNumber/toc', lawController.getTableOfContents.bind(lawController));
+  
+  app.get('/api/admin/usage', adminController.getUsage.bind(adminController));
+  
   app.get('/', (req, res) => {
     res.sendFile(path.join(__dirname, '../public/index.html'));
   });
@@ -60,9 +129,15 @@ const setupRoutes = (searchController: ReturnType<typeof createSearchController>
       status: 'running',
       endpoints: {
         health: 'GET /health',
+        healthDetails: 'GET /health/details',
+        liveness: 'GET /health/live',
+        readiness: 'GET /health/ready',
         search: 'POST /api/search',
+        searchStream: 'POST /api/search/stream',
         documentSearch: 'GET /api/documents/search',
-        conversation: 'GET /api/conversations/:conversationId'
+        conversation: 'GET /api/conversations/:conversationId',
+        lawToc: 'GET /api/laws/:lawNumber/toc',
+        adminUsage: 'GET /api/admin/usage'
       }
     });
   });
@@ -72,9 +147,15 @@ const setupRoutes = (searchController: ReturnType<typeof createSearchController>
       error: 'Endpoint not found',
       availableEndpoints: {
         health: 'GET /health',
+        healthDetails: 'GET /health/details',
+        liveness: 'GET /health/live',
+        readiness: 'GET /health/ready',
         search: 'POST /api/search',
+        searchStream: 'POST /api/search/stream',
         documentSearch: 'GET /api/documents/search',
-        conversation: 'GET /api/conversations/:conversationId'
+        conversation: 'GET /api/conversations/:conversationId',
+        lawToc: 'GET /api/laws/:lawNumber/toc',
+        adminUsage: 'GET /api/admin/usage'
       }
     });
   });
@@ -83,10 +164,10 @@ const setupRoutes = (searchController: ReturnType<typeof createSearchController>
 const startServer = async () => {
   try {
     console.log('🔄 Initializing services...');
-    const { searchController, aiServiceFactory } = await initializeServices();
+    const { searchController, lawController, healthController, adminController, aiServiceFactory } = await initializeServices();
     console.log('✅ Services initialized successfully');
     
-    setupRoutes(searchController);
+    setupRoutes(searchController, lawController, healthController, adminController);
     console.log('✅ Routes setup completed');
     
     // Log provider health status
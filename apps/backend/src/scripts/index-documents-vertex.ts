@@ -2,14 +2,18 @@
 
 import { config } from 'dotenv';
 import { createDocumentIndexer } from '../utils/document-indexer';
-import { createVectorStore } from '../services/vector-store';
+import { createAliasedVectorStoreFromEnv } from '../services/vector-store-factory';
 import { VertexAIEmbeddingService } from '../services/vertex-ai-embedding';
+import { CachedEmbeddingService, EmbeddingCache } from '../services/embedding-cache';
 import { VertexAIConfig } from '../types/vertex-ai';
 
 config();
 
 async function main() {
   const documentsPath = process.env.DOCUMENTS_PATH || './markdown';
+  // --resume continues an interrupted run; --retry-failed processes only the failure report
+  const resume = process.argv.includes('--resume');
+  const retryFailed = process.argv.includes('--retry-failed');
   
   console.log('🚀 Initializing Vertex AI services directly...');
   
@@ -37,25 +41,47 @@ async function main() {
     console.log(`   🌍 Region: ${vertexConfig.location}`);
     console.log(`   🤖 Model: ${vertexConfig.embeddingModel}`);
     
-    const embeddingService = new VertexAIEmbeddingService(vertexConfig);
+    const vertexService = new VertexAIEmbeddingService(vertexConfig);
     
     // Test the service
     console.log('🏥 Testing Vertex AI connection...');
-    const isHealthy = await embeddingService.healthCheck();
+    const isHealthy = await vertexService.healthCheck();
     if (!isHealthy) {
       console.error('❌ Vertex AI health check failed');
       process.exit(1);
     }
     console.log('✅ Vertex AI connection successful');
     
+    // Identical text is not embedded twice, even across collections or chunk settings
+    const embeddingService = process.env.EMBEDDING_CACHE_ENABLED === 'false'
+      ? vertexService
+      : new CachedEmbeddingService(
+        vertexService,
+        new EmbeddingCache(process.env.EMBEDDING_CACHE_PATH || './index-data/embedding-cache.jsonl', {
+          maxEntries: parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '200000')
+        }),
+        `vertexai:${vertexConfig.embeddingModel}`
+      );
+    
     console.log('🗃️ Setting up vector store...');
-    const vectorStore = createVectorStore(embeddingService, {
-      host: process.env.CHROMA_HOST || 'localhost',
-      port: parseInt(process.env.CHROMA_PORT || '8000'),
-      collectionName: 'japanese-law-documents-vertex'  // Different collection for Vertex AI
+    // Different collection (or snapshot) and keyword index for Vertex AI embeddings
+    const alias = 'japanese-law-documents-vertex';
+    const embeddingModel = `vertexai:${vertexConfig.embeddingModel}`;
+    const vectorStore = await createAliasedVectorStoreFromEnv(embeddingService, {
+      alias,
+      localIndexPath: './index-data/vectors-vertex.json',
+      keywordIndexPath: './index-data/keyword-index-vertex.json',
+      embeddingModel,
+      refreshIntervalMs: 0
     });
     
-    const indexer = createDocumentIndexer(vectorStore, documentsPath);
+    const indexer = createDocumentIndexer(vectorStore, documentsPath, {
+      manifestPath: './index-data/index-manifest-vertex.json',
+      checkpointPath: './index-data/index-checkpoint-vertex.json',
+      failureReportPath: './index-data/index-failures-vertex.json',
+      embeddingModel,
+      collection: { name: vectorStore.collectionName, alias }
+    });
     
     console.log('📊 Getting current stats...');
     const statsBefore = await indexer.getIndexingStats();
@@ -63,7 +89,9 @@ async function main() {
     console.log(`💾 Current embeddings: ${statsBefore.totalEmbeddings}`);
     
     const startTime = Date.now();
-    await indexer.indexAllDocuments();
+    const summary = retryFailed
+      ? await indexer.retryFailedDocuments()
+      : await indexer.indexAllDocuments({ resume });
     const endTime = Date.now();
     
     const statsAfter = await indexer.getIndexingStats();
@@ -74,11 +102,18 @@ async function main() {
     console.log(`📄 Documents processed: ${statsAfter.totalDocuments}`);
     console.log(`💾 Total embeddings: ${statsAfter.totalEmbeddings}`);
     console.log(`📈 New embeddings: ${statsAfter.totalEmbeddings - statsBefore.totalEmbeddings}`);
+    console.log(`🆕 Added: ${summary.added}  ✏️  Updated: ${summary.updated}  🗑️  Removed: ${summary.removed}  ⏭️  Unchanged: ${summary.unchanged}`);
+    if (summary.failed > 0) {
+      console.log(`⚠️  Failed: ${summary.failed}`);
+    }
+    if (embeddingService instanceof CachedEmbeddingService) {
+      console.log(`🗄️  Embeddings served from cache (no cost): ${embeddingService.hits}`);
+    }
     console.log(`🌍 Region: ${vertexConfig.location}`);
     console.log(`🤖 Model: ${vertexConfig.embeddingModel}`);
     
     // Get embedding dimensions for information
-    const dimensions = await embeddingService.getEmbeddingDimensions();
+    const dimensions = await vertexService.getEmbeddingDimensions();
     console.log(`📐 Embedding dimensions: ${dimensions}`);
     
   } catch (error) {
@@ -1,14 +1,35 @@
 #!/usr/bin/env ts-node
 
 import { config } from 'dotenv';
-import { createDocumentIndexer } from '../utils/document-indexer';
-import { createVectorStore } from '../services/vector-store';
+import { createAliasedDocumentIndexer, createDocumentIndexer, DocumentIndexerOptions } from '../utils/document-indexer';
+import { createDocumentWatcher, DocumentWatcherOptions } from '../utils/document-watcher';
+import { createAliasedVectorStoreFromEnv } from '../services/vector-store-factory';
+import { AliasedVectorStore } from '../services/collection-aliases';
 import { AIServiceFactory } from '../services/ai-service-factory';
 
 config();
 
+const ALIAS = 'japanese-law-documents';
+
+// --watch outlives the initial run, so each batch of changes resolves the alias again and
+// follows a switch made by migrate:embeddings instead of writing to the old collection
+export const createIndexWatcher = (
+  vectorStore: AliasedVectorStore,
+  documentsPath: string,
+  indexerOptions?: DocumentIndexerOptions,
+  watcherOptions?: DocumentWatcherOptions
+) => {
+  const indexer = createAliasedDocumentIndexer(vectorStore, documentsPath, ALIAS, indexerOptions);
+  return createDocumentWatcher(indexer, documentsPath, watcherOptions);
+};
+
 async function main() {
   const documentsPath = process.env.DOCUMENTS_PATH || './markdown';
+  // --resume continues an interrupted run; --retry-failed processes only the failure report;
+  // --watch keeps running and applies later changes under DOCUMENTS_PATH
+  const resume = process.argv.includes('--resume');
+  const retryFailed = process.argv.includes('--retry-failed');
+  const watch = process.argv.includes('--watch');
   
   console.log('🚀 Initializing AI services...');
   
@@ -27,19 +48,21 @@ async function main() {
     const embeddingService = await aiServiceFactory.createEmbeddingService();
     
     // Log which provider is actually being used
-    const providerName = (embeddingService as any).providerName;
-    if (providerName) {
-      console.log(`   📡 Active embedding provider: ${providerName}`);
-    }
+    console.log(`   📡 Active embedding provider: ${embeddingService.providerName}`);
     
     console.log('🗃️ Setting up vector store...');
-    const vectorStore = createVectorStore(embeddingService, {
-      host: process.env.CHROMA_HOST || 'localhost',
-      port: parseInt(process.env.CHROMA_PORT || '8000'),
-      collectionName: 'japanese-law-documents'
+    // Indexes the collection the alias currently points to, with its BM25 keyword index.
+    // The model is recorded with the collection and in the index manifest.
+    const embeddingModel = embeddingService.modelName;
+    const vectorStore = await createAliasedVectorStoreFromEnv(embeddingService, {
+      embeddingModel,
+      refreshIntervalMs: 0
     });
     
-    const indexer = createDocumentIndexer(vectorStore, documentsPath);
+    const indexer = createDocumentIndexer(vectorStore, documentsPath, {
+      embeddingModel,
+      collection: { name: vectorStore.collectionName, alias: ALIAS }
+    });
     
     console.log('📊 Getting current stats...');
     const statsBefore = await indexer.getIndexingStats();
@@ -47,7 +70,9 @@ async function main() {
     console.log(`💾 Current embeddings: ${statsBefore.totalEmbeddings}`);
     
     const startTime = Date.now();
-    await indexer.indexAllDocuments();
+    const summary = retryFailed
+      ? await indexer.retryFailedDocuments()
+      : await indexer.indexAllDocuments({ resume });
     const endTime = Date.now();
     
     const statsAfter = await indexer.getIndexingStats();
@@ -58,9 +83,16 @@ async function main() {
     console.log(`📄 Documents processed: ${statsAfter.totalDocuments}`);
     console.log(`💾 Total embeddings: ${statsAfter.totalEmbeddings}`);
     console.log(`📈 New embeddings: ${statsAfter.totalEmbeddings - statsBefore.totalEmbeddings}`);
+    console.log(`🆕 Added: ${summary.added}  ✏️  Updated: ${summary.updated}  🗑️  Removed: ${summary.removed}  ⏭️  Unchanged: ${summary.unchanged}`);
+    if (summary.failed > 0) {
+      console.log(`⚠️  Failed: ${summary.failed}`);
+    }
     
     // Show cost summary
     const costSummary = aiServiceFactory.getCostSummary();
+    if (costSummary.cachedEmbeddings > 0) {
+      console.log(`🗄️  Embeddings served from cache (no cost): ${costSummary.cachedEmbeddings}`);
+    }
     if (costSummary.total > 0) {
       console.log(`💰 Total API cost: $${costSummary.total.toFixed(4)}`);
       console.log('💳 Cost by provider:');
@@ -70,6 +102,26 @@ async function main() {
         }
       }
     }
+    if (costSummary.budgetLimit > 0) {
+      console.log(`📅 Spent this month: $${costSummary.monthToDate.toFixed(4)} of $${costSummary.budgetLimit}`);
+    }
+    
+    if (watch) {
+      const watcher = createIndexWatcher(vectorStore, documentsPath, { embeddingModel }, {
+        debounceMs: parseInt(process.env.WATCH_DEBOUNCE_MS || '1000', 10)
+      });
+      watcher.start();
+      
+      const shutdown = async () => {
+        console.log('🛑 Stopping document watcher...');
+        await watcher.stop();
+        aiServiceFactory.dispose();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+      return;
+    }
     
     // Clean up
     aiServiceFactory.dispose();
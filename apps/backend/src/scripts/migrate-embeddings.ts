@@ -0,0 +1,94 @@
+#!/usr/bin/env ts-node
+
+import { config } from 'dotenv';
+import { createDocumentIndexer } from '../utils/document-indexer';
+import { createCollectionAliasRegistry, createCollectionStoreFromEnv } from '../services/vector-store-factory';
+import { versionedCollectionName } from '../services/collection-aliases';
+import { AIServiceFactory } from '../services/ai-service-factory';
+
+config();
+
+const argumentValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+// Re-embeds every document into a new versioned collection while servers keep answering from
+// the current one, then points the alias at it. Servers using the same embedding model follow
+// the switch on their next alias check; servers on another model need a restart with it.
+//
+//   --alias <name>  alias to migrate (default: japanese-law-documents)
+//   --force         rebuild even if the alias already uses this model, and switch despite failures
+//   --rollback      point the alias back at the collection it served before the last switch
+async function main() {
+  const documentsPath = process.env.DOCUMENTS_PATH || './markdown';
+  const alias = argumentValue('--alias') || 'japanese-law-documents';
+  const force = process.argv.includes('--force');
+  const registry = createCollectionAliasRegistry();
+
+  try {
+    const current = await registry.resolve(alias);
+
+    if (process.argv.includes('--rollback')) {
+      if (!current?.previous) {
+        console.error(`❌ Alias "${alias}" has no previous collection to roll back to`);
+        process.exit(1);
+      }
+      await registry.switch(alias, current.previous.collection, current.previous.embeddingModel);
+      console.log(`⏪ Alias "${alias}" now points to ${current.previous.collection} again`);
+      return;
+    }
+
+    console.log('🚀 Initializing AI services...');
+    const aiServiceFactory = AIServiceFactory.initialize();
+    const embeddingService = await aiServiceFactory.createEmbeddingService();
+    const embeddingModel = embeddingService.modelName;
+
+    console.log(`📚 Alias "${alias}" currently serves ${current?.collection || alias} (${current?.embeddingModel || 'model not recorded'})`);
+    if (current?.embeddingModel === embeddingModel && !force) {
+      console.log(`✅ Already on ${embeddingModel}; use --force to rebuild anyway`);
+      aiServiceFactory.dispose();
+      return;
+    }
+
+    const collection = versionedCollectionName(alias);
+    console.log(`🏗️  Building ${collection} with ${embeddingModel}...`);
+
+    const vectorStore = await createCollectionStoreFromEnv(embeddingService, collection, { alias, embeddingModel });
+    const indexer = createDocumentIndexer(vectorStore, documentsPath, {
+      embeddingModel,
+      collection: { name: collection, alias }
+    });
+
+    const startTime = Date.now();
+    const summary = await indexer.indexAllDocuments();
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+    console.log('\n🎯 Migration Summary:');
+    console.log(`⏱️  Duration: ${duration} seconds`);
+    console.log(`📄 Documents indexed: ${summary.added + summary.updated}`);
+    console.log(`💾 Total embeddings: ${await vectorStore.getEmbeddingCount()}`);
+
+    if (summary.failed > 0 && !force) {
+      console.error(`❌ ${summary.failed} documents failed; alias left unchanged. Fix them or rerun with --force`);
+      aiServiceFactory.dispose();
+      process.exit(1);
+    }
+
+    const switched = await registry.switch(alias, collection, embeddingModel);
+    console.log(`🔀 Alias "${alias}" now points to ${collection}`);
+    if (switched.previous) {
+      console.log(`🗄️  Previous collection ${switched.previous.collection} was kept; use --rollback to return to it`);
+    }
+
+    aiServiceFactory.dispose();
+
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
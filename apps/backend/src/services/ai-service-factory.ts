@@ -1,4 +1,4 @@
-import { ProviderConfig, AIProvider, VertexAIConfig } from '../types/vertex-ai';
+import { ProviderConfig, AIProvider, VertexAIConfig, BudgetConfig } from '../types/vertex-ai';
 import { EmbeddingService } from '../types';
 import { LLMProvider } from './llm-service';
 import { ProviderFactory } from './provider-factory';
@@ -26,11 +26,11 @@ export class AIServiceFactory {
     return AIServiceFactory.instance;
   }
 
-  async createEmbeddingService(): Promise<EmbeddingService> {
+  async createEmbeddingService(): Promise<EmbeddingService & { providerName: string; modelName: string }> {
     return await this.providerFactory.createEmbeddingService();
   }
 
-  async createLLMService(): Promise<LLMProvider> {
+  async createLLMService(): Promise<LLMProvider & { providerName: string }> {
     return await this.providerFactory.createLLMService();
   }
 
@@ -38,15 +38,36 @@ export class AIServiceFactory {
     return this.providerFactory.getHealthStatus();
   }
 
+  getActiveProviders() {
+    return this.providerFactory.getActiveProviders();
+  }
+
+  runHealthChecks() {
+    return this.providerFactory.runHealthChecks();
+  }
+
   getCostSummary() {
     return this.providerFactory.getCostSummary();
   }
 
+  getCostRecords(from?: Date, to?: Date) {
+    return this.providerFactory.getCostRecords(from, to);
+  }
+
   private static createDefaultConfig(): ProviderConfig {
     const primary = (process.env.AI_PROVIDER_PRIMARY as AIProvider) || 'openai';
     const fallbackList = process.env.AI_PROVIDER_FALLBACK?.split(',') || ['vertexai'];
     const fallback = fallbackList.filter(p => p !== primary) as AIProvider[];
 
+    const budget: BudgetConfig = {
+      softLimit: parseFloat(process.env.BUDGET_SOFT_LIMIT || '0.8'),
+      hardLimit: parseFloat(process.env.BUDGET_HARD_LIMIT || '1.0'),
+      downgradeModels: {
+        openai: process.env.BUDGET_DOWNGRADE_OPENAI_MODEL || undefined,
+        vertexai: process.env.BUDGET_DOWNGRADE_VERTEX_AI_MODEL || undefined,
+      },
+    };
+
     const config: ProviderConfig = {
       primary,
       fallback,
@@ -54,14 +75,25 @@ export class AIServiceFactory {
       healthCheckTimeout: parseInt(process.env.HEALTH_CHECK_TIMEOUT || '10000'),
       costOptimization: process.env.COST_OPTIMIZATION_ENABLED === 'true',
       budgetLimit: parseFloat(process.env.MONTHLY_BUDGET_LIMIT || '100'),
+      budget,
+      costRecordsPath: process.env.COST_RECORDS_PATH || './index-data/cost-records.jsonl',
       preferredRegion: process.env.VERTEX_AI_LOCATION || 'asia-northeast1',
+      embeddingCachePath: process.env.EMBEDDING_CACHE_ENABLED === 'false'
+        ? undefined
+        : process.env.EMBEDDING_CACHE_PATH || './index-data/embedding-cache.jsonl',
+      embeddingCacheMaxEntries: parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '200000'),
+      circuitBreaker: {
+        failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '3'),
+        cooldownMs: parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '60000'),
+      },
     };
 
     console.log(`🔧 AI Provider Configuration:`);
     console.log(`   Primary: ${primary}`);
     console.log(`   Fallback: ${fallback.join(', ') || 'none'}`);
     console.log(`   Cost optimization: ${config.costOptimization ? 'enabled' : 'disabled'}`);
-    console.log(`   Budget limit: $${config.budgetLimit}/month`);
+    console.log(`   Budget limit: $${config.budgetLimit}/month (warn at ${budget.softLimit * 100}%, refuse at ${budget.hardLimit * 100}%)`);
+    console.log(`   Embedding cache: ${config.embeddingCachePath || 'disabled'}`);
 
     // Configure OpenAI
     if (process.env.OPENAI_API_KEY) {
@@ -0,0 +1,77 @@
+import { AIProvider, BudgetConfig, BudgetExceededError } from '../types/vertex-ai';
+
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+const DEFAULT_BUDGET: BudgetConfig = { softLimit: 0.8, hardLimit: 1.0 };
+
+// Calendar month in UTC, the period provider invoices use
+const monthOf = (date: Date): string => date.toISOString().slice(0, 7);
+
+// Month-to-date spend against the monthly budget. Past the soft threshold a warning is logged
+// once and callers may switch to cheaper models; at the hard threshold paid calls are refused.
+// A limit of 0 or less disables enforcement.
+export class BudgetGuard {
+  private config: BudgetConfig;
+  private month = monthOf(new Date());
+  private spent = 0;
+  private warned = false;
+
+  constructor(private limit: number, config?: BudgetConfig) {
+    this.config = config || DEFAULT_BUDGET;
+  }
+
+  get monthToDate(): number {
+    this.rollOver(new Date());
+    return this.spent;
+  }
+
+  get budgetLimit(): number {
+    return this.limit;
+  }
+
+  get level(): BudgetLevel {
+    if (this.limit <= 0) return 'ok';
+
+    const spent = this.monthToDate;
+    if (spent >= this.limit * this.config.hardLimit) return 'hard';
+    if (spent >= this.limit * this.config.softLimit) return 'soft';
+    return 'ok';
+  }
+
+  // Records from earlier months (read back from the ledger) are ignored
+  record(cost: number, timestamp: Date = new Date()): void {
+    this.rollOver(new Date());
+    if (monthOf(timestamp) !== this.month) return;
+
+    this.spent += cost;
+
+    if (!this.warned && this.level !== 'ok') {
+      this.warned = true;
+      console.warn(`⚠️  Monthly AI spend $${this.spent.toFixed(2)} has passed ${Math.round(this.config.softLimit * 100)}% of the $${this.limit} budget`);
+    }
+  }
+
+  assertAvailable(): void {
+    if (this.level === 'hard') {
+      throw new BudgetExceededError(
+        `Monthly AI budget exhausted ($${this.spent.toFixed(2)} of $${this.limit} spent); requests resume next month or when the budget is raised`,
+        this.spent,
+        this.limit
+      );
+    }
+  }
+
+  // Model to use instead of the configured one while over the soft threshold
+  downgradeModel(provider: AIProvider): string | undefined {
+    return this.level === 'ok' ? undefined : this.config.downgradeModels?.[provider];
+  }
+
+  private rollOver(now: Date): void {
+    const month = monthOf(now);
+    if (month !== this.month) {
+      this.month = month;
+      this.spent = 0;
+      this.warned = false;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { CircuitState } from '../types/vertex-ai';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60000;
+
+// Stops sending calls to a provider after failureThreshold consecutive failures. Once
+// cooldownMs has passed a single trial call is let through: success closes the circuit,
+// failure opens it for another cool-down.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(
+    private failureThreshold: number = DEFAULT_FAILURE_THRESHOLD,
+    private cooldownMs: number = DEFAULT_COOLDOWN_MS
+  ) {}
+
+  get currentState(): CircuitState {
+    if (this.state === 'open' && this.cooledDown()) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  // Claims the trial call when the cool-down is over; false while that call is in flight
+  allowRequest(): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open' && this.cooledDown()) {
+      this.state = 'half-open';
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.trip();
+    }
+  }
+
+  trip(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+  }
+
+  private cooledDown(): boolean {
+    return Date.now() - this.openedAt >= this.cooldownMs;
+  }
+}
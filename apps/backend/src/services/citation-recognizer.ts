@@ -0,0 +1,98 @@
+import { KANJI_NUMERAL_CHARS, parseNumeral } from '../utils/kanji-numerals';
+import { ArticleReference, toArticleKey, toArticleLabel } from '../utils/article-number';
+
+export interface ArticleCitation {
+  text: string;            // the matched span, e.g. '民法709条'
+  lawName: string;         // e.g. '民法'
+  articleNumber: string;   // label as it appears in the statute, e.g. '第七百九条', '第三条の二'
+  articleKey: string;      // canonical key, e.g. '709', '3-2'
+  paragraphNumber?: number;
+}
+
+const NUMBER = `(?:[0-9]+|[${KANJI_NUMERAL_CHARS}]+)`;
+// Shortest run of kanji/katakana ending in a law-type suffix, so 「刑法第百九十九条」 yields 刑法.
+// The run still takes in words before the name (「改正民法」), which recognize() trims off.
+const LAW_NAME = '[\\u4e00-\\u9fff々ァ-ヶー・]+?(?:法律|法|令|規則|条例)';
+const CITATION_PATTERN = new RegExp(
+  `(${LAW_NAME})第?(${NUMBER})条((?:の${NUMBER})*)(?:第?(${NUMBER})項)?`,
+  'g'
+);
+
+// Common abbreviations mapped to the titles used in the statute files
+const LAW_NAME_ALIASES: Record<string, string> = {
+  '憲法': '日本国憲法',
+  '民訴法': '民事訴訟法',
+  '刑訴法': '刑事訴訟法',
+  '民執法': '民事執行法',
+  '労基法': '労働基準法',
+  '行訴法': '行政事件訴訟法',
+  '行手法': '行政手続法',
+  '個人情報保護法': '個人情報の保護に関する法律',
+  '独禁法': '私的独占の禁止及び公正取引の確保に関する法律'
+};
+
+// Statutes cited often enough to trim a matched name to: 「改正民法」 is 民法
+const KNOWN_LAW_NAMES = [
+  ...Object.keys(LAW_NAME_ALIASES),
+  ...Object.values(LAW_NAME_ALIASES),
+  '民法', '刑法', '商法', '会社法', '手形法', '小切手法', '破産法', '民事再生法', '会社更生法',
+  '借地借家法', '不動産登記法', '消費者契約法', '労働契約法', '著作権法', '特許法', '商標法',
+  '地方自治法', '国家公務員法', '地方公務員法', '所得税法', '法人税法', '消費税法', '道路交通法'
+];
+
+// Qualifiers written before a name that is not in the list above
+const NAME_PREFIX = /^(?:改正|現行)/;
+
+// 「同法」 refers back to the law cited before it
+const SAME_LAW = '同法';
+
+const trimLawName = (name: string): string => {
+  const known = KNOWN_LAW_NAMES
+    .filter(knownName => name.endsWith(knownName))
+    .sort((a, b) => b.length - a.length)[0];
+  return known || name.replace(NAME_PREFIX, '') || name;
+};
+
+export class CitationRecognizer {
+
+  // Finds law name + article references such as 「民法709条」「刑法第百九十九条」「会社法第三条の二第2項」.
+  // 「同法710条」 takes the law of the previous citation and is skipped when there is none.
+  recognize(query: string): ArticleCitation[] {
+    const normalized = query.normalize('NFKC');
+    const citations: ArticleCitation[] = [];
+
+    for (const match of normalized.matchAll(CITATION_PATTERN)) {
+      const [text, lawName, article, branches, paragraph] = match;
+      const reference: ArticleReference = {
+        article: parseNumeral(article!),
+        branches: (branches || '').split('の').filter(Boolean).map(parseNumeral)
+      };
+
+      if (Number.isNaN(reference.article) || reference.branches.some(Number.isNaN)) {
+        continue;
+      }
+
+      const paragraphValue = paragraph ? parseNumeral(paragraph) : undefined;
+
+      const trimmed = trimLawName(lawName!);
+      let name = LAW_NAME_ALIASES[trimmed] || trimmed;
+      if (trimmed === SAME_LAW) {
+        const previous = citations[citations.length - 1];
+        if (!previous) continue;
+        name = previous.lawName;
+      }
+
+      citations.push({
+        text: text!.slice(lawName!.length - trimmed.length),
+        lawName: name,
+        articleNumber: toArticleLabel(reference),
+        articleKey: toArticleKey(reference),
+        paragraphNumber: paragraphValue !== undefined && !Number.isNaN(paragraphValue) ? paragraphValue : undefined
+      });
+    }
+
+    return citations;
+  }
+}
+
+export const citationRecognizer = new CitationRecognizer();
@@ -0,0 +1,215 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChunkLookup, DocumentChunk, EmbeddingProfile, SearchOptions, SearchResult, VectorStore } from '../types';
+
+export interface CollectionAlias {
+  collection: string;
+  embeddingModel?: string;
+  switchedAt: Date;
+  previous?: {
+    collection: string;
+    embeddingModel?: string;
+  };
+}
+
+interface SerializedAliases {
+  version: number;
+  aliases: Record<string, Omit<CollectionAlias, 'switchedAt'> & { switchedAt: string }>;
+}
+
+const REGISTRY_VERSION = 1;
+
+// Checked at most this often by a running server
+const DEFAULT_REFRESH_INTERVAL_MS = 30000;
+
+// 'japanese-law-documents' → 'japanese-law-documents-v20261019T093000'
+// (Chroma allows 3–63 characters of [a-zA-Z0-9._-])
+export const versionedCollectionName = (alias: string, date: Date = new Date()): string => {
+  return `${alias}-v${date.toISOString().replace(/[-:]/g, '').replace(/\..*$/, '')}`;
+};
+
+// Files belonging to one collection (local snapshot, keyword index, manifest) sit next to the
+// alias's own: ./index-data/vectors.json → ./index-data/vectors-<collection>.json. The
+// collection named like the alias itself (created before aliases existed) keeps the base path.
+export const collectionFilePath = (basePath: string, collection: string, alias: string): string => {
+  if (collection === alias) {
+    return basePath;
+  }
+  const extension = path.extname(basePath);
+  return path.join(path.dirname(basePath), `${path.basename(basePath, extension)}-${collection}${extension}`);
+};
+
+// Maps stable names (what servers are configured with) to the versioned collection currently
+// serving them. A switch rewrites the file through a rename, so readers see the old or the
+// new mapping, never a partial one.
+export class CollectionAliasRegistry {
+  constructor(private registryPath: string) {}
+
+  async resolve(alias: string): Promise<CollectionAlias | undefined> {
+    const entry = (await this.read()).aliases[alias];
+    return entry ? { ...entry, switchedAt: new Date(entry.switchedAt) } : undefined;
+  }
+
+  async switch(alias: string, collection: string, embeddingModel?: string): Promise<CollectionAlias> {
+    const data = await this.read();
+    const current = data.aliases[alias];
+
+    const entry: CollectionAlias = {
+      collection,
+      embeddingModel,
+      switchedAt: new Date(),
+      // An alias never switched before served the collection of its own name
+      previous: current ? { collection: current.collection, embeddingModel: current.embeddingModel } : { collection: alias }
+    };
+    data.aliases[alias] = { ...entry, switchedAt: entry.switchedAt.toISOString() };
+
+    const tempPath = `${this.registryPath}.tmp`;
+    await fs.mkdir(path.dirname(this.registryPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, this.registryPath);
+
+    return entry;
+  }
+
+  private async read(): Promise<SerializedAliases> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.registryPath, 'utf-8')) as SerializedAliases;
+      if (data.version !== REGISTRY_VERSION) {
+        throw new Error(`Unsupported collection alias registry version ${data.version} in ${this.registryPath}`);
+      }
+      return data;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: REGISTRY_VERSION, aliases: {} };
+      }
+      throw error;
+    }
+  }
+}
+
+// Serves whichever collection an alias points to and follows switches made by
+// migrate:embeddings without a restart. A switch to a collection built with a different
+// embedding model than this process uses is not followed: queries would be embedded with
+// the wrong model, so that takes a restart with the new configuration.
+export class AliasedVectorStore implements VectorStore {
+  private store?: VectorStore;
+  private collection?: string;
+  private lastCheck = 0;
+  private refreshing?: Promise<void>;
+  private skippedCollection?: string;
+  private embeddingModel?: string;
+  private refreshIntervalMs: number;
+
+  constructor(
+    private registry: CollectionAliasRegistry,
+    private alias: string,
+    private openCollection: (collection: string) => Promise<VectorStore>,
+    options?: {
+      embeddingModel?: string;
+      refreshIntervalMs?: number;   // 0 resolves the alias once
+    }
+  ) {
+    this.embeddingModel = options?.embeddingModel;
+    this.refreshIntervalMs = options?.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS;
+  }
+
+  get collectionName(): string {
+    return this.collection || this.alias;
+  }
+
+  // Also picks up local snapshot files that index:documents rewrote meanwhile
+  async refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.followAlias().then(() => this.store?.reloadIfChanged?.()).finally(() => {
+        this.lastCheck = Date.now();
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async followAlias(): Promise<void> {
+    const entry = await this.registry.resolve(this.alias);
+    const target = entry?.collection || this.alias;
+    if (target === this.collection || target === this.skippedCollection) return;
+
+    if (this.store && entry?.embeddingModel && this.embeddingModel && entry.embeddingModel !== this.embeddingModel) {
+      console.warn(`⚠️  Alias "${this.alias}" now points to ${target} (${entry.embeddingModel}); restart with that embedding model to switch`);
+      this.skippedCollection = target;
+      return;
+    }
+
+    const store = await this.openCollection(target);
+    const previous = this.collection;
+    this.store = store;
+    this.collection = target;
+    this.skippedCollection = undefined;
+
+    console.log(previous
+      ? `🔀 Alias "${this.alias}" switched from ${previous} to ${target}`
+      : `📚 Alias "${this.alias}" resolved to collection ${target}`);
+  }
+
+  private async current(): Promise<VectorStore> {
+    const due = this.refreshIntervalMs > 0 && Date.now() - this.lastCheck >= this.refreshIntervalMs;
+    if (!this.store || due) {
+      try {
+        await this.refresh();
+      } catch (error) {
+        // Keep serving the current collection if the registry is briefly unreadable
+        if (!this.store) throw error;
+        console.warn(`⚠️  Failed to check alias "${this.alias}":`, error);
+      }
+    }
+    return this.store!;
+  }
+
+  async addEmbeddings(chunks: DocumentChunk[]): Promise<void> {
+    return (await this.current()).addEmbeddings(chunks);
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    return (await this.current()).search(query, options);
+  }
+
+  async searchByEmbedding(embedding: number[], options: SearchOptions): Promise<SearchResult[]> {
+    return (await this.current()).searchByEmbedding(embedding, options);
+  }
+
+  async updateEmbedding(chunkId: string, embedding: number[]): Promise<void> {
+    return (await this.current()).updateEmbedding(chunkId, embedding);
+  }
+
+  async updateChunks(chunks: DocumentChunk[]): Promise<void> {
+    return (await this.current()).updateChunks(chunks);
+  }
+
+  async deleteEmbeddings(chunkIds: string[]): Promise<void> {
+    return (await this.current()).deleteEmbeddings(chunkIds);
+  }
+
+  async getEmbeddingCount(): Promise<number> {
+    return (await this.current()).getEmbeddingCount();
+  }
+
+  async getChunks(lookup: ChunkLookup, limit?: number): Promise<DocumentChunk[]> {
+    return (await this.current()).getChunks(lookup, limit);
+  }
+
+  async getChunksByRange(documentPath: string, startIndex: number, endIndex: number): Promise<DocumentChunk[]> {
+    return (await this.current()).getChunksByRange(documentPath, startIndex, endIndex);
+  }
+
+  async getDocumentChunkIds(documentPath: string): Promise<string[]> {
+    return (await this.current()).getDocumentChunkIds(documentPath);
+  }
+
+  async persist(): Promise<void> {
+    await (await this.current()).persist?.();
+  }
+
+  async getEmbeddingProfile(): Promise<EmbeddingProfile> {
+    const store = await this.current();
+    return store.getEmbeddingProfile ? store.getEmbeddingProfile() : {};
+  }
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CostTracker } from '../types/vertex-ai';
+
+// One billed call per line, so spend survives restarts. Appended like the embedding cache;
+// a torn last line from a crash is skipped. Other processes (index:documents, other server
+// instances) append to the same file.
+export class CostLedger {
+  private writing: Promise<void> = Promise.resolve();
+  private offset = 0;  // bytes already consumed by readNewRecords
+  // Lines appended by this instance and not yet read back; the caller has counted them already
+  private ownLines = new Set<string>();
+
+  constructor(private ledgerPath: string) {}
+
+  // A failed write is logged rather than thrown: the call it records has already been paid for
+  append(record: CostTracker): Promise<void> {
+    const line = JSON.stringify(record);
+    this.ownLines.add(line);
+    this.writing = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(this.ledgerPath), { recursive: true });
+      await fs.appendFile(this.ledgerPath, line + '\n');
+    }).catch(error => {
+      this.ownLines.delete(line);
+      console.warn(`⚠️  Failed to write cost record to ${this.ledgerPath}:`, error);
+    });
+    return this.writing;
+  }
+
+  // Records appended since the previous call, except this instance's own. The first call
+  // returns the whole file. Only complete lines are consumed, so a line still being written
+  // is picked up next time.
+  async readNewRecords(): Promise<CostTracker[]> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.ledgerPath, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    let content: string;
+    try {
+      const { size } = await handle.stat();
+      if (size < this.offset) {
+        this.offset = 0; // file was replaced
+      }
+      const buffer = Buffer.alloc(size - this.offset);
+      await handle.read(buffer, 0, buffer.length, this.offset);
+      const end = buffer.lastIndexOf('\n') + 1;
+      this.offset += end;
+      content = buffer.subarray(0, end).toString('utf-8');
+    } finally {
+      await handle.close();
+    }
+
+    const records: CostTracker[] = [];
+    for (const line of content.split('\n')) {
+      if (!line || this.ownLines.delete(line)) continue;
+      const record = this.parse(line);
+      if (record) records.push(record);
+    }
+    return records;
+  }
+
+  async readRecords(since?: Date): Promise<CostTracker[]> {
+    await this.writing;
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.ledgerPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: CostTracker[] = [];
+    for (const line of content.split('\n')) {
+      if (!line) continue;
+      const record = this.parse(line);
+      if (record && (!since || record.timestamp >= since)) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  private parse(line: string): CostTracker | undefined {
+    try {
+      const record = JSON.parse(line) as CostTracker;
+      record.timestamp = new Date(record.timestamp);
+      return record;
+    } catch {
+      console.warn(`⚠️  Skipping unreadable cost record in ${this.ledgerPath}`);
+      return undefined;
+    }
+  }
+}
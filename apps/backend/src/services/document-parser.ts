@@ -1,12 +1,69 @@
+import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import matter from 'gray-matter';
 import { marked } from 'marked';
-import { DocumentChunk, DocumentMetadata, DocumentRecord } from '../types';
-import { v4 as uuidv4 } from 'uuid';
+import { ChunkingMode, DocumentChunk, DocumentMetadata, DocumentRecord, ProvisionType } from '../types';
+import { normalizeArticleKey } from '../utils/article-number';
+import { decodeLawId, parseEraDate } from '../utils/law-number';
+import {
+  classifyStructureLine,
+  formatDivisionLabel,
+  lawStructureExtractor,
+  normalizeStructureLine,
+  parseAmendmentLawNumber
+} from './law-structure';
+import { xmlLawParser } from './xml-law-parser';
+
+interface StructuralSegment {
+  start: number;
+  end: number;
+  headingPath: string[];
+  articleNumber?: string;
+  paragraphs: Array<{ number: number; start: number }>;
+  hasBody: boolean;
+}
+
+interface ProvisionSection {
+  start: number;
+  end: number;
+  provisionType: ProvisionType;
+  amendmentLawNumber?: string;
+}
+
+const hash = (text: string): string => {
+  return crypto.createHash('sha256').update(text).digest('hex').substring(0, 16);
+};
+
+// Chunk IDs are derived from the document path, the chunk's place in the law (本則 or which
+// 附則, article, paragraph) and a hash of its text. Re-parsing an unchanged file reproduces
+// the same IDs, and an edit only changes the IDs of the chunks it touches.
+export const createChunkId = (
+  chunk: Pick<
+    DocumentChunk,
+    'documentPath' | 'content' | 'provisionType' | 'amendmentLawNumber' | 'articleKey' | 'paragraphNumber'
+  >
+): string => {
+  const position = [
+    chunk.provisionType || 'main',
+    chunk.amendmentLawNumber || '',
+    chunk.articleKey || '',
+    chunk.paragraphNumber || ''
+  ].join('/');
+  
+  return `${hash(`${chunk.documentPath}\n${position}`)}-${hash(chunk.content)}`;
+};
 
 export class DocumentParser {
   
+  // Picks the parser by extension: e-Gov law XML (.xml) or converted Markdown (.md)
+  async parseFile(filePath: string): Promise<DocumentRecord> {
+    if (path.extname(filePath).toLowerCase() === '.xml') {
+      return this.parseXmlFile(filePath);
+    }
+    return this.parseMarkdownFile(filePath);
+  }
+  
   async parseMarkdownFile(filePath: string): Promise<DocumentRecord> {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
@@ -27,12 +84,45 @@ export class DocumentParser {
         lastModified: stats.mtime,
         metadata: {
           ...metadata,
+          promulgationDate: this.extractPromulgationDate(markdownContent, frontMatter),
+          fileName,
+          filePath,
+          lastModified: stats.mtime
+        },
+        chunkIds: [],
+        fullContent: markdownContent,
+        structure: lawStructureExtractor.extract(markdownContent)
+      };
+      
+      return document;
+    } catch (error) {
+      throw new Error(`Failed to parse document ${filePath}: ${error}`);
+    }
+  }
+  
+  async parseXmlFile(filePath: string): Promise<DocumentRecord> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const stats = await fs.stat(filePath);
+      
+      const parsed = xmlLawParser.parse(content);
+      const fileName = path.basename(filePath);
+      const metadata = this.extractMetadataFromPath(filePath, {});
+      
+      const document: DocumentRecord = {
+        path: filePath,
+        title: parsed.title || fileName,
+        lastModified: stats.mtime,
+        metadata: {
+          ...metadata,
+          ...parsed.metadata,
           fileName,
           filePath,
           lastModified: stats.mtime
         },
         chunkIds: [],
-        fullContent: markdownContent
+        fullContent: parsed.fullContent,
+        structure: parsed.structure
       };
       
       return document;
@@ -58,15 +148,21 @@ export class DocumentParser {
   }
   
   private extractMetadataFromPath(filePath: string, frontMatter: Record<string, unknown>): DocumentMetadata {
-    const fileName = path.basename(filePath, '.md');
+    const fileName = path.basename(filePath, path.extname(filePath));
     const category = this.extractCategoryFromPath(filePath);
     
     const lawNumber = this.extractLawNumber(fileName);
+    const decoded = lawNumber ? decodeLawId(lawNumber) : null;
     const date = this.extractDate(fileName);
-    const era = this.extractEra(fileName);
+    const era = this.extractEra(fileName) || decoded?.era;
     
     return {
       lawNumber,
+      officialLawNumber: decoded?.officialLawNumber,
+      lawType: decoded?.lawType,
+      lawTypeCode: decoded?.lawTypeCode,
+      eraYear: decoded?.eraYear,
+      lawSerialNumber: decoded?.serialNumber,
       date,
       category,
       era,
@@ -90,6 +186,7 @@ export class DocumentParser {
   
   private extractLawNumber(fileName: string): string | undefined {
     const patterns = [
+      /^(\d{3}[A-Z]+\d*)(?=_|$)/,
       /^(\d{3}[A-Z]{2}\d{7})/,
       /^(\d{3}[A-Z]+\d+)/,
       /(\d{3}[A-Z]+)/
@@ -105,9 +202,10 @@ export class DocumentParser {
     return undefined;
   }
   
+  // e-Gov names put the date in its own segment (129AC0000000089_20230401_...); the law ID's
+  // zero padding must not be read as one
   private extractDate(fileName: string): Date | undefined {
-    const datePattern = /(\d{8})/;
-    const match = fileName.match(datePattern);
+    const match = fileName.match(/(?:^|_)(\d{8})(?=_|$)/) || fileName.match(/(\d{8})/);
     
     if (match) {
       const dateStr = match[1];
@@ -125,6 +223,31 @@ export class DocumentParser {
     return undefined;
   }
   
+  // 公布日 from front matter (promulgationDate or 公布日), else from the 法令番号 line under the
+  // title when it carries a date, e.g. （明治二十九年四月二十七日法律第八十九号）
+  private extractPromulgationDate(content: string, frontMatter: Record<string, unknown>): Date | undefined {
+    const declared = frontMatter.promulgationDate ?? frontMatter['公布日'];
+    
+    if (declared instanceof Date && !isNaN(declared.getTime())) {
+      // YAML dates are UTC midnight; keep the calendar day
+      return new Date(declared.getUTCFullYear(), declared.getUTCMonth(), declared.getUTCDate());
+    }
+    if (typeof declared === 'string') {
+      const iso = declared.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      return iso
+        ? new Date(parseInt(iso[1]!, 10), parseInt(iso[2]!, 10) - 1, parseInt(iso[3]!, 10))
+        : parseEraDate(declared);
+    }
+    
+    const lines = content.split('\n').slice(0, 10);
+    const bodyStart = lines.findIndex(line => /^(?:#{2,}|第)/.test(normalizeStructureLine(line)));
+    const lawNumberLine = lines
+      .slice(0, bodyStart === -1 ? lines.length : bodyStart)
+      .find(line => /日(?:公布|.{1,4}第.+号)/.test(line));
+    
+    return lawNumberLine ? parseEraDate(lawNumberLine) : undefined;
+  }
+  
   private extractEra(fileName: string): string | undefined {
     if (fileName.includes('明治') || fileName.includes('MEIJI')) return '明治';
     if (fileName.includes('大正') || fileName.includes('TAISHO')) return '大正';
@@ -135,33 +258,211 @@ export class DocumentParser {
     return undefined;
   }
   
-  createChunks(document: DocumentRecord, chunkSize: number = 1000, overlap: number = 200): DocumentChunk[] {
+  createChunks(
+    document: DocumentRecord,
+    chunkSize: number = 1000,
+    overlap: number = 200,
+    mode: ChunkingMode = 'character'
+  ): DocumentChunk[] {
+    const provisions = this.splitProvisions(document);
+    
+    if (mode === 'structural') {
+      const structuralChunks = this.createStructuralChunks(document, chunkSize, overlap, provisions);
+      if (structuralChunks) {
+        return this.assignChunkIds(structuralChunks);
+      }
+    }
+
+    const content = document.fullContent;
+    const chunks: DocumentChunk[] = [];
+    
+    // Never let a chunk run from the 本則 into a 附則, or from one 附則 into the next
+    for (const { start, end, ...provision } of provisions) {
+      for (const range of this.splitRange(content, start, end, chunkSize, overlap)) {
+        chunks.push(this.buildChunk(document, range.content, chunks.length, range.start, range.end, provision));
+      }
+    }
+    
+    return this.assignChunkIds(chunks);
+  }
+
+  // Repeated content at the same position (rare, e.g. identical 附則 clauses) gets a suffix
+  private assignChunkIds(chunks: DocumentChunk[]): DocumentChunk[] {
+    const seen = new Map<string, number>();
+    
+    return chunks.map(chunk => {
+      const id = createChunkId(chunk);
+      const occurrence = seen.get(id) || 0;
+      seen.set(id, occurrence + 1);
+      
+      return { ...chunk, id: occurrence === 0 ? id : `${id}-${occurrence}` };
+    });
+  }
+
+  // 本則 followed by one section per 附則 (the original enactment's, then each amendment's)
+  private splitProvisions(document: DocumentRecord): ProvisionSection[] {
+    const length = document.fullContent.length;
+    const structure = document.structure ?? lawStructureExtractor.extract(document.fullContent);
+    const supplementary = structure.filter(node => node.type === 'supplementary');
+    const mainEnd = supplementary[0]?.startPosition ?? length;
+    
+    const sections: ProvisionSection[] = [{ start: 0, end: mainEnd, provisionType: 'main' }];
+    
+    supplementary.forEach((node, index) => {
+      sections.push({
+        start: node.startPosition,
+        end: supplementary[index + 1]?.startPosition ?? length,
+        provisionType: 'supplementary',
+        amendmentLawNumber: parseAmendmentLawNumber(node.title)
+      });
+    });
+    
+    return sections.filter(section => section.end > section.start);
+  }
+
+  // Splits law text on 編/章/節/款/目 headings and 条 boundaries, keeping each article
+  // (or each 項 of an article longer than chunkSize) in its own chunk.
+  // Returns null when the document has no recognisable articles.
+  private createStructuralChunks(
+    document: DocumentRecord,
+    chunkSize: number,
+    overlap: number,
+    provisions: ProvisionSection[]
+  ): DocumentChunk[] | null {
     const content = document.fullContent;
+    const segments = this.segmentByStructure(content);
+    
+    if (!segments.some(segment => segment.articleNumber)) {
+      return null;
+    }
+    
     const chunks: DocumentChunk[] = [];
     
-    if (content.length <= chunkSize) {
-      const chunk: DocumentChunk = {
-        id: uuidv4(),
-        documentPath: document.path,
-        title: document.title,
-        content: content.trim(),
-        metadata: document.metadata,
-        chunkIndex: 0,
-        startPosition: 0,
-        endPosition: content.length
+    for (const segment of segments) {
+      const provision = provisions.find(section => segment.start >= section.start && segment.start < section.end);
+      const structure = {
+        articleNumber: segment.articleNumber,
+        headingPath: segment.headingPath,
+        provisionType: provision?.provisionType,
+        amendmentLawNumber: provision?.amendmentLawNumber
       };
-      chunks.push(chunk);
-      return chunks;
+      
+      if (segment.end - segment.start <= chunkSize) {
+        const chunkContent = content.substring(segment.start, segment.end).trim();
+        if (chunkContent.length > 0) {
+          chunks.push(this.buildChunk(document, chunkContent, chunks.length, segment.start, segment.end, structure));
+        }
+        continue;
+      }
+      
+      if (segment.articleNumber && segment.paragraphs.length > 1) {
+        segment.paragraphs.forEach((paragraph, index) => {
+          const paragraphEnd = segment.paragraphs[index + 1]?.start ?? segment.end;
+          for (const range of this.splitRange(content, paragraph.start, paragraphEnd, chunkSize, overlap)) {
+            chunks.push(this.buildChunk(document, range.content, chunks.length, range.start, range.end, {
+              ...structure,
+              paragraphNumber: paragraph.number
+            }));
+          }
+        });
+        continue;
+      }
+      
+      for (const range of this.splitRange(content, segment.start, segment.end, chunkSize, overlap)) {
+        chunks.push(this.buildChunk(document, range.content, chunks.length, range.start, range.end, structure));
+      }
+    }
+    
+    return chunks;
+  }
+
+  private segmentByStructure(content: string): StructuralSegment[] {
+    const segments: StructuralSegment[] = [];
+    const headings: Array<{ level: number; label: string }> = [];
+    
+    let current: StructuralSegment = { start: 0, end: 0, headingPath: [], paragraphs: [], hasBody: false };
+    let captionStart: number | null = null;
+    let offset = 0;
+    
+    const openSegment = (start: number, articleNumber?: string): void => {
+      current.end = start;
+      segments.push(current);
+      current = {
+        start,
+        end: start,
+        headingPath: headings.map(heading => heading.label),
+        articleNumber,
+        paragraphs: articleNumber ? [{ number: 1, start }] : [],
+        hasBody: false
+      };
+    };
+    
+    for (const rawLine of content.split('\n')) {
+      const lineStart = offset;
+      offset += rawLine.length + 1;
+      
+      const line = normalizeStructureLine(rawLine);
+      if (!line) continue;
+      
+      const classified = classifyStructureLine(line);
+      
+      if (classified.type === 'division') {
+        while (headings.length > 0 && headings[headings.length - 1]!.level >= classified.level) {
+          headings.pop();
+        }
+        headings.push({ level: classified.level, label: formatDivisionLabel(classified) });
+        openSegment(lineStart);
+        captionStart = null;
+        continue;
+      }
+      
+      if (classified.type === 'article') {
+        if (!current.articleNumber && !current.hasBody) {
+          // Only headings or a caption so far: let the article absorb them
+          current.articleNumber = classified.label;
+          current.paragraphs = [{ number: 1, start: current.start }];
+        } else {
+          openSegment(captionStart ?? lineStart, classified.label);
+        }
+        current.hasBody = true;
+        captionStart = null;
+        continue;
+      }
+      
+      if (classified.type === 'caption') {
+        captionStart = captionStart ?? lineStart;
+        continue;
+      }
+      
+      captionStart = null;
+      current.hasBody = true;
+      
+      if (current.articleNumber && classified.type === 'paragraph') {
+        current.paragraphs.push({ number: classified.number, start: lineStart });
+      }
     }
     
-    let startPos = 0;
-    let chunkIndex = 0;
+    current.end = content.length;
+    segments.push(current);
+    
+    return segments.filter(segment => content.substring(segment.start, segment.end).trim().length > 0);
+  }
+
+  private splitRange(
+    content: string,
+    rangeStart: number,
+    rangeEnd: number,
+    chunkSize: number,
+    overlap: number
+  ): Array<{ content: string; start: number; end: number }> {
+    const ranges: Array<{ content: string; start: number; end: number }> = [];
+    let startPos = rangeStart;
     
-    while (startPos < content.length) {
-      const endPos = Math.min(startPos + chunkSize, content.length);
+    while (startPos < rangeEnd) {
+      const endPos = Math.min(startPos + chunkSize, rangeEnd);
       let actualEndPos = endPos;
       
-      if (endPos < content.length) {
+      if (endPos < rangeEnd) {
         const nextBreak = this.findBestBreakPoint(content, startPos, endPos);
         if (nextBreak > startPos) {
           actualEndPos = nextBreak;
@@ -171,28 +472,43 @@ export class DocumentParser {
       const chunkContent = content.substring(startPos, actualEndPos).trim();
       
       if (chunkContent.length > 0) {
-        const chunk: DocumentChunk = {
-          id: uuidv4(),
-          documentPath: document.path,
-          title: document.title,
-          content: chunkContent,
-          metadata: document.metadata,
-          chunkIndex,
-          startPosition: startPos,
-          endPosition: actualEndPos
-        };
-        chunks.push(chunk);
-        chunkIndex++;
+        ranges.push({ content: chunkContent, start: startPos, end: actualEndPos });
       }
       
-      startPos = Math.max(actualEndPos - overlap, startPos + 1);
-      
-      if (startPos >= actualEndPos) {
+      if (actualEndPos >= rangeEnd) {
         break;
       }
+      
+      startPos = Math.max(actualEndPos - overlap, startPos + 1);
     }
     
-    return chunks;
+    return ranges;
+  }
+
+  private buildChunk(
+    document: DocumentRecord,
+    content: string,
+    chunkIndex: number,
+    startPosition: number,
+    endPosition: number,
+    structure: Pick<
+      DocumentChunk,
+      'articleNumber' | 'paragraphNumber' | 'headingPath' | 'provisionType' | 'amendmentLawNumber'
+    > = {}
+  ): DocumentChunk {
+    return {
+      id: '',  // assigned by assignChunkIds once the document's chunks are known
+      documentPath: document.path,
+      title: document.title,
+      content,
+      metadata: document.metadata,
+      chunkIndex,
+      startPosition,
+      endPosition,
+      ...structure,
+      articleKey: structure.articleNumber ? normalizeArticleKey(structure.articleNumber) : undefined,
+      provisionType: structure.provisionType ?? 'main'
+    };
   }
   
   private findBestBreakPoint(content: string, start: number, end: number): number {
@@ -0,0 +1,279 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as readline from 'readline';
+import { EmbeddingService } from '../types';
+import { decodeEmbedding, encodeEmbedding } from '../utils/embedding-codec';
+
+interface CacheRecord {
+  k: string;  // cache key
+  v: string;  // base64 of the Float32Array bytes
+}
+
+// Whitespace differences alone should not cost a new embedding
+export const normalizeEmbeddingText = (text: string): string => {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+};
+
+// The model is part of the key: vectors from different models are not interchangeable
+export const embeddingCacheKey = (modelName: string, text: string): string => {
+  return crypto.createHash('sha256').update(`${modelName}\n${normalizeEmbeddingText(text)}`).digest('hex');
+};
+
+// Only keys and file positions are held in memory (about 200 bytes per entry), so the default
+// covers a full corpus rebuild. Below the number of chunks in the corpus, a rebuild evicts
+// each embedding before it is asked for again and misses the cache throughout.
+const DEFAULT_MAX_ENTRIES = 200000;
+// The file is rewritten once it holds this many times more records than are kept
+const COMPACTION_FACTOR = 2;
+// Records are copied into a compacted file in batches of this many lines
+const COMPACTION_BATCH = 1000;
+
+interface CacheEntry {
+  offset: number;  // byte position of the record's line in the file
+  length: number;  // bytes in the line, without the newline
+  value?: string;  // held until the record is on disk, and always without a file
+}
+
+// Append-only key/value log in the spirit of LevelDB: one JSON record per line, later records
+// winning. Only an index of keys and file positions is loaded; embeddings are read from the
+// file when asked for. A torn last line from a crash is skipped. Past maxEntries the least
+// recently used keys are dropped, and the file is compacted to the kept records when evicted
+// and superseded ones pile up. A record that no longer sits where the index expects it, after
+// another process appended or compacted, is treated as a miss and only embedded again.
+export class EmbeddingCache {
+  private entries = new Map<string, CacheEntry>();  // least recently used first
+  private loading?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+  private fileRecords = 0;  // lines in the file, including evicted and superseded ones
+  private maxEntries: number;
+
+  constructor(private cachePath?: string, options?: { maxEntries?: number }) {
+    this.maxEntries = options?.maxEntries || DEFAULT_MAX_ENTRIES;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<number[] | undefined> {
+    await this.load();
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const encoded = entry.value ?? await this.readRecord(key, entry);
+    if (!encoded) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return decodeEmbedding(encoded);
+  }
+
+  async set(entries: Array<[string, number[]]>): Promise<void> {
+    await this.load();
+
+    const records: Array<[CacheEntry, string]> = [];
+    for (const [key, embedding] of entries) {
+      if (this.entries.has(key)) continue;
+
+      const record: CacheRecord = { k: key, v: encodeEmbedding(embedding) };
+      const line = JSON.stringify(record);
+      const entry: CacheEntry = { offset: -1, length: Buffer.byteLength(line), value: record.v };
+      this.entries.set(key, entry);
+      records.push([entry, line]);
+    }
+    this.evict();
+
+    if (!this.cachePath || records.length === 0) return;
+
+    // Appends are chained so concurrent batches never interleave their lines. The cache is an
+    // optimisation, so a failed write only costs a re-embedding later.
+    const cachePath = this.cachePath;
+    this.fileRecords += records.length;
+    this.writing = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(cachePath), { recursive: true });
+      if (this.fileRecords > this.maxEntries * COMPACTION_FACTOR) {
+        await this.compact(cachePath);
+        return;
+      }
+
+      let offset = await fileSize(cachePath);
+      await fs.appendFile(cachePath, records.map(([, line]) => line).join('\n') + '\n');
+      for (const [entry] of records) {
+        entry.offset = offset;
+        entry.value = undefined;
+        offset += entry.length + 1;
+      }
+    }).catch(error => {
+      console.warn(`⚠️  Failed to write embedding cache ${cachePath}:`, error);
+    });
+    await this.writing;
+  }
+
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+
+  private async readRecord(key: string, entry: CacheEntry, file?: fs.FileHandle): Promise<string | undefined> {
+    if (!this.cachePath || entry.offset < 0) return undefined;
+
+    const handle = file ?? await fs.open(this.cachePath, 'r').catch(() => undefined);
+    if (!handle) return undefined;
+    try {
+      const buffer = Buffer.alloc(entry.length);
+      const { bytesRead } = await handle.read(buffer, 0, entry.length, entry.offset);
+      const record = JSON.parse(buffer.toString('utf-8', 0, bytesRead)) as CacheRecord;
+      return record.k === key ? record.v : undefined;
+    } catch {
+      return undefined;
+    } finally {
+      if (!file) await handle.close();
+    }
+  }
+
+  // Written to a temporary file first so an interrupted compaction leaves the old file intact.
+  // The kept records are copied over a batch at a time, so the embeddings are never all in memory.
+  private async compact(cachePath: string): Promise<void> {
+    const tempPath = `${cachePath}.tmp`;
+    const source = await fs.open(cachePath, 'r').catch(() => undefined);
+    const target = await fs.open(tempPath, 'w');
+    const positions: Array<[CacheEntry, number]> = [];
+    let offset = 0;
+
+    try {
+      let batch: string[] = [];
+      const flush = async () => {
+        if (batch.length > 0) await target.write(batch.join('\n') + '\n');
+        batch = [];
+      };
+
+      for (const [key, entry] of Array.from(this.entries)) {
+        const value = entry.value ?? (source && await this.readRecord(key, entry, source));
+        if (!value) continue;
+
+        const line = JSON.stringify({ k: key, v: value } as CacheRecord);
+        positions.push([entry, offset]);
+        offset += Buffer.byteLength(line) + 1;
+        batch.push(line);
+        if (batch.length >= COMPACTION_BATCH) await flush();
+      }
+      await flush();
+    } finally {
+      await source?.close();
+      await target.close();
+    }
+
+    await fs.rename(tempPath, cachePath);
+    for (const [entry, position] of positions) {
+      entry.offset = position;
+      entry.value = undefined;
+    }
+    this.fileRecords = positions.length;
+    console.log(`🗜️  Compacted embedding cache ${cachePath} to ${positions.length} records`);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readIndex();
+    }
+    return this.loading;
+  }
+
+  // Streams the file so only each record's key and position are kept
+  private async readIndex(): Promise<void> {
+    if (!this.cachePath) return;
+
+    let file: fs.FileHandle;
+    try {
+      file = await fs.open(this.cachePath, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    let offset = 0;
+    const lines = readline.createInterface({ input: file.createReadStream(), crlfDelay: Infinity });
+    for await (const line of lines) {
+      const length = Buffer.byteLength(line);
+      const entry: CacheEntry = { offset, length };
+      offset += length + 1;
+      if (!line) continue;
+
+      this.fileRecords++;
+      try {
+        const record = JSON.parse(line) as CacheRecord;
+        this.entries.delete(record.k);
+        this.entries.set(record.k, entry);
+      } catch {
+        console.warn(`⚠️  Skipping unreadable embedding cache record in ${this.cachePath}`);
+      }
+    }
+    this.evict();
+    console.log(`📂 Loaded ${this.entries.size} cached embedding keys from ${this.cachePath}`);
+  }
+}
+
+const fileSize = async (filePath: string): Promise<number> => {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+};
+
+// Serves repeated texts from the cache and sends only the misses to the wrapped service,
+// so re-chunking or rebuilding a store does not pay for identical text twice
+export class CachedEmbeddingService implements EmbeddingService {
+  hits = 0;
+  misses = 0;
+
+  constructor(
+    private service: EmbeddingService,
+    private cache: EmbeddingCache,
+    private modelName: string
+  ) {}
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding!;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    const keys = texts.map(text => embeddingCacheKey(this.modelName, text));
+    const results = await Promise.all(keys.map(key => this.cache.get(key)));
+
+    const missing = results
+      .map((embedding, index) => embedding ? -1 : index)
+      .filter(index => index >= 0);
+
+    this.hits += texts.length - missing.length;
+    this.misses += missing.length;
+
+    if (missing.length > 0) {
+      const generated = missing.length === 1
+        ? [await this.service.generateEmbedding(texts[missing[0]!]!)]
+        : await this.service.generateEmbeddings(missing.map(index => texts[index]!));
+
+      const entries: Array<[string, number[]]> = [];
+      missing.forEach((index, i) => {
+        const embedding = generated[i];
+        results[index] = embedding;
+        if (embedding) entries.push([keys[index]!, embedding]);
+      });
+      await this.cache.set(entries);
+    }
+
+    return results as number[][];
+  }
+}
@@ -1,5 +1,5 @@
 import OpenAI from 'openai';
-import { EmbeddingService } from '../types';
+import { EmbeddingService, TokenUsage } from '../types';
 
 export class OpenAIEmbeddingService implements EmbeddingService {
   private client: OpenAI;
@@ -10,12 +10,13 @@ export class OpenAIEmbeddingService implements EmbeddingService {
     this.model = model;
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, usage?: TokenUsage): Promise<number[]> {
     try {
       const response = await this.client.embeddings.create({
         model: this.model,
         input: text,
       });
+      if (usage) usage.inputTokens += response.usage?.prompt_tokens ?? 0;
 
       return response.data[0]?.embedding ?? [];
     } catch (error) {
@@ -23,7 +24,18 @@ export class OpenAIEmbeddingService implements EmbeddingService {
     }
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  // Model lookups are not billed, unlike a test embedding
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.models.retrieve(this.model);
+      return true;
+    } catch (error) {
+      console.error('OpenAI embedding health check failed:', error);
+      return false;
+    }
+  }
+
+  async generateEmbeddings(texts: string[], usage?: TokenUsage): Promise<number[][]> {
     try {
       const batchSize = 500; // Increased batch size for better throughput
       const results: number[][] = [];
@@ -44,6 +56,7 @@ export class OpenAIEmbeddingService implements EmbeddingService {
             model: this.model,
             input: batch,
           });
+          if (usage) usage.inputTokens += response.usage?.prompt_tokens ?? 0;
           return response.data.map(item => item.embedding);
         });
 
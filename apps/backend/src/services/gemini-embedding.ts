@@ -1,6 +1,6 @@
-import { GoogleGenAI } from '@google/genai';
+import { ContentListUnion, GoogleGenAI } from '@google/genai';
 import { EmbeddingService } from '../types';
-import { VertexAIError } from '../types/vertex-ai';
+import { TokenUsage, VertexAIError } from '../types/vertex-ai';
 
 export interface GeminiEmbeddingConfig {
   apiKey: string;
@@ -27,7 +27,7 @@ export class GeminiEmbeddingService implements EmbeddingService {
     console.log(`✅ Gemini Embedding Service initialized`);
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, usage?: TokenUsage): Promise<number[]> {
     try {
       console.log(`🧠 Generating embedding for text (length: ${text.length})`);
       
@@ -39,6 +39,7 @@ export class GeminiEmbeddingService implements EmbeddingService {
       if (!response.embeddings || !response.embeddings[0] || !response.embeddings[0].values) {
         throw new VertexAIError('No embeddings received from Gemini API');
       }
+      await this.recordUsage(text, usage);
 
       const embedding = response.embeddings[0].values;
       console.log(`✅ Generated embedding with ${embedding.length} dimensions`);
@@ -60,12 +61,12 @@ export class GeminiEmbeddingService implements EmbeddingService {
     }
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], usage?: TokenUsage): Promise<number[][]> {
     try {
       if (texts.length === 0) return [];
       
       // Use native batch processing for gemini-embedding-001
-      return await this.generateEmbeddingsBatch(texts);
+      return await this.generateEmbeddingsBatch(texts, usage);
     } catch (error) {
       console.error('Failed to generate embeddings with Gemini API:', error);
       throw new VertexAIError(
@@ -78,7 +79,7 @@ export class GeminiEmbeddingService implements EmbeddingService {
   }
 
   // Native batch processing for gemini-embedding-001
-  private async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+  private async generateEmbeddingsBatch(texts: string[], usage?: TokenUsage): Promise<number[][]> {
     const batchSize = 100; // Gemini API supports larger batches
     const results: number[][] = [];
     
@@ -99,9 +100,10 @@ export class GeminiEmbeddingService implements EmbeddingService {
         if (!response.embeddings || response.embeddings.length !== batch.length) {
           console.warn(`⚠️ Batch response mismatch: expected ${batch.length}, got ${response.embeddings?.length || 0}`);
           // Fallback to sequential processing for this batch
-          const sequentialResults = await this.processSequentialBatch(batch);
+          const sequentialResults = await this.processSequentialBatch(batch, usage);
           results.push(...sequentialResults);
         } else {
+          await this.recordUsage(batch, usage);
           const batchEmbeddings = response.embeddings.map(emb => emb.values || []);
           results.push(...batchEmbeddings);
           console.log(`✅ Batch completed: ${batchEmbeddings.length} embeddings (${batchEmbeddings[0]?.length || 0} dims)`);
@@ -115,7 +117,7 @@ export class GeminiEmbeddingService implements EmbeddingService {
       } catch (error) {
         console.warn(`⚠️ Batch processing failed for batch ${Math.floor(i/batchSize) + 1}, falling back to sequential:`, error);
         // Fallback to sequential processing for this batch
-        const sequentialResults = await this.processSequentialBatch(batch);
+        const sequentialResults = await this.processSequentialBatch(batch, usage);
         results.push(...sequentialResults);
       }
     }
@@ -125,7 +127,7 @@ export class GeminiEmbeddingService implements EmbeddingService {
   }
 
   // Sequential processing fallback
-  private async processSequentialBatch(texts: string[]): Promise<number[][]> {
+  private async processSequentialBatch(texts: string[], usage?: TokenUsage): Promise<number[][]> {
     const results: number[][] = [];
     const concurrency = 10; // Higher concurrency for Gemini API
     
@@ -134,7 +136,7 @@ export class GeminiEmbeddingService implements EmbeddingService {
       
       const batchPromises = batch.map(async (text) => {
         try {
-          return await this.generateEmbedding(text);
+          return await this.generateEmbedding(text, usage);
         } catch (error) {
           console.warn(`Failed embedding for text (length: ${text.length}):`, error);
           return [] as number[];
@@ -153,12 +155,24 @@ export class GeminiEmbeddingService implements EmbeddingService {
     return results;
   }
 
+  // The Gemini API does not report token counts with embeddings, so they are counted
+  // separately; countTokens is not billed. Without a count the caller estimates usage.
+  private async recordUsage(contents: ContentListUnion, usage?: TokenUsage): Promise<void> {
+    if (!usage) return;
+    try {
+      const { totalTokens } = await this.client.models.countTokens({ model: this.model, contents });
+      usage.inputTokens += totalTokens ?? 0;
+    } catch (error) {
+      console.warn('⚠️ Failed to count Gemini embedding tokens; usage will be estimated:', error);
+    }
+  }
+
   // Health check method for provider monitoring
   async healthCheck(): Promise<boolean> {
     try {
-      const testText = "健康チェック用のテストテキストです。";
-      const embedding = await this.generateEmbedding(testText);
-      return embedding.length > 0;
+      // A model lookup is not billed, unlike a test embedding
+      const model = await this.client.models.get({ model: this.model });
+      return !!model.name;
     } catch (error) {
       console.error('Gemini embedding health check failed:', error);
       return false;
@@ -0,0 +1,134 @@
+import { VectorStore } from '../types';
+import { AIProvider, ProviderHealthStatus } from '../types/vertex-ai';
+import { withTimeout } from '../utils/timeout';
+
+export type HealthState = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface VectorStoreHealth {
+  healthy: boolean;
+  backend: string;          // chroma or local
+  collection?: string;
+  embeddings?: number;
+  latency?: number;         // milliseconds
+  error?: string;
+}
+
+export interface ProviderHealthReport extends ProviderHealthStatus {
+  roles: Array<'embedding' | 'llm'>;  // empty for providers that failed to start
+}
+
+export interface HealthReport {
+  status: HealthState;
+  timestamp: string;
+  uptime: number;           // seconds
+  vectorStore: VectorStoreHealth;
+  providers: ProviderHealthReport[];
+  problems: string[];
+}
+
+// What the health service needs from AIServiceFactory
+export interface ProviderMonitor {
+  getHealthStatus(): Map<AIProvider, ProviderHealthStatus>;
+  getActiveProviders(): { embedding: AIProvider[]; llm: AIProvider[] };
+}
+
+// Provider results come from the scheduled checks (they cost API calls); the vector store is
+// probed on every request, since counting the collection needs a working Chroma connection.
+// Unhealthy means searches cannot work: no vector store, or no usable embedding or LLM
+// provider. Degraded means they work but a provider in use is failing or skipped.
+export class HealthService {
+  private backend: string;
+  private timeoutMs: number;
+
+  constructor(
+    private vectorStore: VectorStore & { collectionName?: string },
+    private providers: ProviderMonitor,
+    options?: {
+      backend?: string;
+      timeoutMs?: number;
+    }
+  ) {
+    this.backend = options?.backend || 'chroma';
+    this.timeoutMs = options?.timeoutMs ?? 10000;
+  }
+
+  async checkVectorStore(): Promise<VectorStoreHealth> {
+    const start = Date.now();
+    const health: VectorStoreHealth = {
+      healthy: false,
+      backend: this.backend,
+      collection: this.vectorStore.collectionName
+    };
+
+    try {
+      health.embeddings = await withTimeout(this.vectorStore.getEmbeddingCount(), this.timeoutMs, 'Vector store health check');
+      health.healthy = true;
+      health.latency = Date.now() - start;
+      // Set once the alias has been resolved by the count
+      health.collection = this.vectorStore.collectionName;
+    } catch (error) {
+      health.error = error instanceof Error ? error.message : String(error);
+    }
+    return health;
+  }
+
+  async getReport(): Promise<HealthReport> {
+    const vectorStore = await this.checkVectorStore();
+    const statuses = this.providers.getHealthStatus();
+    const active = this.providers.getActiveProviders();
+
+    const providers: ProviderHealthReport[] = Array.from(statuses.values()).map(status => ({
+      ...status,
+      roles: [
+        ...(active.embedding.includes(status.provider) ? ['embedding' as const] : []),
+        ...(active.llm.includes(status.provider) ? ['llm' as const] : [])
+      ]
+    }));
+
+    const usable = (provider: AIProvider) => {
+      const status = statuses.get(provider);
+      return !status || (status.healthy && status.circuitState !== 'open');
+    };
+
+    const problems: string[] = [];
+    let status: HealthState = 'healthy';
+
+    if (!vectorStore.healthy) {
+      problems.push(`Vector store unavailable: ${vectorStore.error}`);
+    }
+    if (!active.embedding.some(usable)) {
+      problems.push('No healthy embedding provider');
+    }
+    if (!active.llm.some(usable)) {
+      problems.push('No healthy LLM provider');
+    }
+
+    if (problems.length > 0) {
+      status = 'unhealthy';
+    } else {
+      for (const provider of new Set([...active.embedding, ...active.llm])) {
+        if (!usable(provider)) {
+          problems.push(`Provider ${provider} is failing; requests use the remaining providers`);
+          status = 'degraded';
+        }
+      }
+    }
+
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      uptime: Math.round(process.uptime()),
+      vectorStore,
+      providers,
+      problems
+    };
+  }
+}
+
+export const createHealthService = (
+  vectorStore: VectorStore & { collectionName?: string },
+  providers: ProviderMonitor,
+  options?: { backend?: string; timeoutMs?: number }
+): HealthService => {
+  return new HealthService(vectorStore, providers, options);
+};
@@ -0,0 +1,212 @@
+import { ChunkLookup, ChunkStoreError, DocumentChunk, EmbeddingProfile, SearchMode, SearchOptions, SearchResult, VectorStore } from '../types';
+import { KeywordIndex } from './keyword-index';
+import { SnapshotConflictError } from '../utils/snapshot-version';
+import { DIVERSITY_CANDIDATE_FACTOR, InvalidDiversityOptionsError, diversifyResults, isDiversityRequested } from '../utils/search-diversity';
+
+export const SEARCH_MODES: SearchMode[] = ['semantic', 'keyword', 'hybrid'];
+
+export class InvalidSearchModeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSearchModeError';
+  }
+}
+
+// Validates the mode of a request body or query string; absent means the store's default
+export const parseSearchMode = (raw: unknown): SearchMode | undefined => {
+  if (raw === undefined || raw === null || raw === '') {
+    return undefined;
+  }
+  if (!SEARCH_MODES.includes(raw as SearchMode)) {
+    throw new InvalidSearchModeError(`"mode" must be one of: ${SEARCH_MODES.join(', ')}`);
+  }
+  return raw as SearchMode;
+};
+
+// Rank offset from the original RRF paper; dampens the influence of the very top ranks
+const RRF_K = 60;
+
+// Merges ranked lists by summing 1 / (k + rank). Scores are scaled so a chunk ranked first
+// in every list gets 1; highlights come from the first list that contains the chunk.
+export const reciprocalRankFusion = (
+  rankings: SearchResult[][],
+  limit: number,
+  k: number = RRF_K
+): SearchResult[] => {
+  const fused = new Map<string, SearchResult>();
+  const maxScore = rankings.length / (k + 1);
+
+  for (const ranking of rankings) {
+    ranking.forEach((result, index) => {
+      const contribution = 1 / (k + index + 1) / maxScore;
+      const existing = fused.get(result.chunk.id);
+
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(result.chunk.id, { ...result, score: contribution });
+      }
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// Wraps a vector store with a BM25 keyword index over the same chunks. Exact statutory
+// terms (「善意の第三者」「瑕疵担保」) that embeddings blur are recovered lexically.
+export class HybridVectorStore implements VectorStore {
+  constructor(
+    private vectorStore: VectorStore,
+    private keywordIndex: KeywordIndex,
+    private defaultMode: SearchMode = 'hybrid'
+  ) {}
+
+  async addEmbeddings(chunks: DocumentChunk[]): Promise<void> {
+    try {
+      await this.vectorStore.addEmbeddings(chunks);
+    } catch (error) {
+      // Chunks the vector store did keep are searchable by keyword as well
+      if (error instanceof ChunkStoreError) {
+        const failed = error.chunkIds;
+        this.keywordIndex.add(chunks.filter(chunk => !failed.has(chunk.id)));
+      }
+      throw error;
+    }
+    this.keywordIndex.add(chunks);
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { limit = 10, filters } = options;
+    const mode = options.mode || this.defaultMode;
+    const diversify = isDiversityRequested(options);
+
+    if (mode === 'keyword') {
+      const fetchLimit = diversify ? limit * DIVERSITY_CANDIDATE_FACTOR : limit;
+      return this.diversify(this.keywordIndex.search(query, { limit: fetchLimit, filters }), options, limit);
+    }
+
+    // Without a keyword index, hybrid search degrades to plain semantic search
+    if (mode === 'semantic' || this.keywordIndex.size === 0) {
+      return this.vectorStore.search(query, options);
+    }
+
+    // Fuse deeper candidate lists so chunks ranked moderately by both can surface. The fused
+    // ranking is diversified afterwards, so the semantic list is fetched as ranked.
+    const candidates = Math.max(limit * (diversify ? DIVERSITY_CANDIDATE_FACTOR : 2), 20);
+    const [semanticResults, keywordResults] = await Promise.all([
+      this.vectorStore.search(query, { ...options, limit: candidates, mmrLambda: undefined, maxPerDocument: undefined }),
+      Promise.resolve(this.keywordIndex.search(query, { limit: candidates, filters }))
+    ]);
+
+    return this.diversify(reciprocalRankFusion([semanticResults, keywordResults], candidates), options, limit);
+  }
+
+  // Keyword and fused rankings bypass the vector store's diversification, so mmrLambda and
+  // maxPerDocument are applied here, MMR comparing the candidates' stored embeddings
+  private async diversify(results: SearchResult[], options: SearchOptions, limit: number): Promise<SearchResult[]> {
+    const { mmrLambda, maxPerDocument } = options;
+    if (!isDiversityRequested(options)) {
+      return results.slice(0, limit);
+    }
+    if (mmrLambda === undefined) {
+      return diversifyResults(results, { maxPerDocument, limit });
+    }
+    if (!this.vectorStore.getEmbeddings) {
+      throw new InvalidDiversityOptionsError('"mmrLambda" needs stored embeddings, which this vector store cannot return', 'mmrLambda');
+    }
+
+    const embeddings = await this.vectorStore.getEmbeddings(results.map(result => result.chunk.id));
+    return diversifyResults(results, { mmrLambda, maxPerDocument, limit }, embeddings);
+  }
+
+  searchByEmbedding(embedding: number[], options: SearchOptions = {}): Promise<SearchResult[]> {
+    return this.vectorStore.searchByEmbedding(embedding, options);
+  }
+
+  updateEmbedding(chunkId: string, embedding: number[]): Promise<void> {
+    return this.vectorStore.updateEmbedding(chunkId, embedding);
+  }
+
+  async updateChunks(chunks: DocumentChunk[]): Promise<void> {
+    await this.vectorStore.updateChunks(chunks);
+    this.keywordIndex.add(chunks);
+  }
+
+  async deleteEmbeddings(chunkIds: string[]): Promise<void> {
+    await this.vectorStore.deleteEmbeddings(chunkIds);
+    this.keywordIndex.remove(chunkIds);
+  }
+
+  getEmbeddingCount(): Promise<number> {
+    return this.vectorStore.getEmbeddingCount();
+  }
+
+  getChunks(lookup: ChunkLookup, limit?: number): Promise<DocumentChunk[]> {
+    return this.vectorStore.getChunks(lookup, limit);
+  }
+
+  getChunksByRange(documentPath: string, startIndex: number, endIndex: number): Promise<DocumentChunk[]> {
+    return this.vectorStore.getChunksByRange(documentPath, startIndex, endIndex);
+  }
+
+  // The vector store decides which chunks are stored, so the indexer still finds stale ones
+  // when the keyword index lost them (e.g. its file was deleted or unreadable)
+  async getDocumentChunkIds(documentPath: string): Promise<string[]> {
+    const ids = await this.vectorStore.getDocumentChunkIds(documentPath);
+    await this.backfillKeywordIndex(documentPath, ids);
+    return ids;
+  }
+
+  // Re-indexes stored chunks the keyword index lacks from their stored text; nothing is embedded
+  private async backfillKeywordIndex(documentPath: string, ids: string[]): Promise<void> {
+    const missing = new Set(ids.filter(id => !this.keywordIndex.has(id)));
+    if (missing.size === 0) return;
+
+    const stored = await this.vectorStore.getChunks({ documentPath }, ids.length);
+    this.keywordIndex.add(stored.filter(chunk => missing.has(chunk.id)));
+  }
+
+  async persist(): Promise<void> {
+    try {
+      await this.vectorStore.persist?.();
+    } catch (error) {
+      // The keyword changes belong to the vector changes just dropped for the other snapshot
+      if (error instanceof SnapshotConflictError) {
+        await this.keywordIndex.discardChanges();
+      }
+      throw error;
+    }
+    await this.keywordIndex.save();
+    console.log(`💾 Saved keyword index (${this.keywordIndex.size} chunks)`);
+  }
+
+  async reloadIfChanged(): Promise<void> {
+    await this.vectorStore.reloadIfChanged?.();
+    await this.keywordIndex.reloadIfChanged();
+  }
+
+  async getEmbeddingProfile(): Promise<EmbeddingProfile> {
+    return this.vectorStore.getEmbeddingProfile ? this.vectorStore.getEmbeddingProfile() : {};
+  }
+}
+
+export const createHybridVectorStore = async (
+  vectorStore: VectorStore,
+  options?: {
+    indexPath?: string;
+    defaultMode?: SearchMode;
+  }
+): Promise<HybridVectorStore> => {
+  const { indexPath = './index-data/keyword-index.json', defaultMode = 'hybrid' } = options || {};
+  const keywordIndex = new KeywordIndex(indexPath);
+
+  if (await keywordIndex.load()) {
+    console.log(`🔤 Loaded keyword index with ${keywordIndex.size} chunks`);
+  } else {
+    console.warn(`⚠️  No keyword index at ${indexPath}; hybrid search falls back to semantic until documents are indexed`);
+  }
+
+  return new HybridVectorStore(vectorStore, keywordIndex, defaultMode);
+};
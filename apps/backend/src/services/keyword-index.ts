@@ -0,0 +1,245 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DocumentChunk, MetadataFilter, SearchResult } from '../types';
+import { matchesFilter } from '../utils/metadata-filter';
+import { SnapshotConflictError, SnapshotVersion } from '../utils/snapshot-version';
+
+interface IndexedChunk {
+  chunk: DocumentChunk;
+  length: number;              // number of terms
+  terms: Map<string, number>;  // term frequencies
+}
+
+interface SerializedKeywordIndex {
+  version: number;
+  chunks: DocumentChunk[];
+}
+
+const INDEX_VERSION = 1;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Splits on whitespace and punctuation, including Japanese brackets and 、。
+const SEPARATOR_PATTERN = /[\s\p{P}\p{S}]+/u;
+
+// Japanese has no word boundaries, so text is indexed as overlapping character bigrams.
+// 「善意の第三者」 → 善意, 意の, の第, 第三, 三者; single-character runs are kept as unigrams.
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+
+  for (const run of text.normalize('NFKC').toLowerCase().split(SEPARATOR_PATTERN)) {
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(chars[0]!);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i]! + chars[i + 1]!);
+    }
+  }
+
+  return tokens;
+};
+
+export class KeywordIndex {
+  private chunks = new Map<string, IndexedChunk>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+  private snapshot?: SnapshotVersion;
+  private dirty = false;  // changes not yet saved
+
+  constructor(private indexPath?: string) {
+    this.snapshot = indexPath ? new SnapshotVersion(indexPath) : undefined;
+  }
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  has(chunkId: string): boolean {
+    return this.chunks.has(chunkId);
+  }
+
+  add(chunks: DocumentChunk[]): void {
+    this.dirty = true;
+    for (const chunk of chunks) {
+      this.remove([chunk.id]);
+
+      const terms = new Map<string, number>();
+      const tokens = tokenize(`${chunk.title} ${chunk.articleNumber || ''} ${chunk.content}`);
+      for (const token of tokens) {
+        terms.set(token, (terms.get(token) || 0) + 1);
+      }
+
+      // Embeddings are not needed for lexical search and would bloat the index file
+      this.chunks.set(chunk.id, { chunk: { ...chunk, embedding: undefined }, length: tokens.length, terms });
+      this.totalLength += tokens.length;
+
+      for (const [term, frequency] of terms) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(chunk.id, frequency);
+      }
+    }
+  }
+
+  remove(chunkIds: string[]): void {
+    this.dirty = true;
+    for (const id of chunkIds) {
+      const indexed = this.chunks.get(id);
+      if (!indexed) continue;
+
+      for (const term of indexed.terms.keys()) {
+        const posting = this.postings.get(term);
+        posting?.delete(id);
+        if (posting && posting.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+
+      this.totalLength -= indexed.length;
+      this.chunks.delete(id);
+    }
+  }
+
+  // Scores are BM25 divided by the best score, so the top match is 1
+  search(query: string, options: { limit?: number; filters?: MetadataFilter } = {}): SearchResult[] {
+    const { limit = 10, filters } = options;
+    const queryTerms = Array.from(new Set(tokenize(query)));
+
+    if (queryTerms.length === 0 || this.chunks.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.chunks.size;
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (this.chunks.size - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [id, frequency] of posting) {
+        const length = this.chunks.get(id)!.length;
+        const termScore = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      }
+    }
+
+    const ranked = Array.from(scores.entries())
+      .map(([id, score]) => ({ chunk: this.chunks.get(id)!.chunk, score }))
+      .filter(({ chunk }) => !filters || matchesFilter(chunk, filters))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    const bestScore = ranked[0]?.score || 1;
+
+    return ranked.map(({ chunk, score }) => ({
+      chunk,
+      score: score / bestScore,
+      highlights: this.extractHighlights(chunk.content, queryTerms)
+    }));
+  }
+
+  async load(): Promise<boolean> {
+    if (!this.indexPath || !this.snapshot) return false;
+
+    try {
+      await this.snapshot.remember();
+      const data = JSON.parse(await fs.readFile(this.indexPath, 'utf-8')) as SerializedKeywordIndex;
+      if (data.version !== INDEX_VERSION) {
+        console.warn(`⚠️  Ignoring keyword index ${this.indexPath}: unsupported version ${data.version}`);
+        return false;
+      }
+
+      this.chunks.clear();
+      this.postings.clear();
+      this.totalLength = 0;
+      this.add(data.chunks.map(chunk => ({
+        ...chunk,
+        metadata: {
+          ...chunk.metadata,
+          date: chunk.metadata.date ? new Date(chunk.metadata.date) : undefined,
+          promulgationDate: chunk.metadata.promulgationDate ? new Date(chunk.metadata.promulgationDate) : undefined,
+          lastModified: new Date(chunk.metadata.lastModified)
+        }
+      })));
+      this.dirty = false;
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      // Start empty rather than fail startup; hybrid search falls back to semantic search
+      if (error instanceof SyntaxError) {
+        console.warn(`⚠️  Ignoring unreadable keyword index ${this.indexPath} (${error.message}); delete the index manifest and re-run index:documents to rebuild it`);
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Picks up an index rewritten by another process; unsaved changes are never dropped for it
+  async reloadIfChanged(): Promise<void> {
+    if (!this.snapshot || this.dirty || !(await this.snapshot.isReplaced())) return;
+
+    if (await this.load()) {
+      console.log(`🔤 Reloaded keyword index with ${this.size} chunks`);
+    }
+  }
+
+  // Drops unsaved changes and loads the index file on disk
+  async discardChanges(): Promise<void> {
+    this.dirty = false;
+    this.chunks.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+    await this.load();
+  }
+
+  // Written to a temporary file first so an interrupted save leaves the old index intact.
+  // An index rewritten by another process since loading is not overwritten; it replaces the
+  // unsaved changes instead, so the next save is not refused as well.
+  async save(): Promise<void> {
+    if (!this.indexPath || !this.snapshot) return;
+
+    if (await this.snapshot.isReplaced()) {
+      if (!this.dirty) return;
+      await this.discardChanges();
+      throw new SnapshotConflictError(this.indexPath);
+    }
+
+    const data: SerializedKeywordIndex = {
+      version: INDEX_VERSION,
+      chunks: Array.from(this.chunks.values()).map(indexed => indexed.chunk)
+    };
+
+    const tempPath = `${this.indexPath}.tmp`;
+    await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, this.indexPath);
+    await this.snapshot.remember();
+    this.dirty = false;
+  }
+
+  // Sentences sharing the most bigrams with the query
+  private extractHighlights(content: string, queryTerms: string[], maxLength: number = 100): string[] {
+    const sentences = content.split(/[。！？\n]/).map(sentence => sentence.trim()).filter(Boolean);
+
+    return sentences
+      .map(sentence => {
+        const terms = new Set(tokenize(sentence));
+        return { sentence, matches: queryTerms.filter(term => terms.has(term)).length };
+      })
+      .filter(({ matches }) => matches > 0)
+      .sort((a, b) => b.matches - a.matches)
+      .slice(0, 3)
+      .map(({ sentence }) => sentence.length <= maxLength ? sentence : sentence.substring(0, maxLength) + '...');
+  }
+}
@@ -0,0 +1,68 @@
+import { LawStructureNode } from '../types';
+import { IndexManifest } from '../utils/index-manifest';
+import { SnapshotVersion } from '../utils/snapshot-version';
+
+export interface LawTableOfContents {
+  lawNumber: string;
+  title: string;
+  documentPath: string;
+  structure: LawStructureNode[];
+}
+
+interface LoadedManifest {
+  path: string;
+  version: SnapshotVersion;
+  byLawNumber: Map<string, LawTableOfContents>;
+}
+
+// Serves tables of contents from the outline the indexer recorded for each law in the index
+// manifest, so no law file is parsed per request. The manifest is read again once the indexer
+// rewrote it, or when the manifest path moves with the collection an alias points to.
+export class LawRepository {
+  private loaded?: LoadedManifest;
+
+  constructor(private manifestPath: () => string) {}
+
+  async getTableOfContents(lawNumber: string): Promise<LawTableOfContents | null> {
+    const manifest = await this.currentManifest();
+    return manifest.byLawNumber.get(lawNumber) || null;
+  }
+
+  // Called when documents change on disk
+  clearCache(): void {
+    this.loaded = undefined;
+  }
+
+  private async currentManifest(): Promise<LoadedManifest> {
+    const manifestPath = this.manifestPath();
+    if (this.loaded && this.loaded.path === manifestPath && !await this.loaded.version.isReplaced()) {
+      return this.loaded;
+    }
+
+    const version = new SnapshotVersion(manifestPath);
+    await version.remember();
+    const manifest = new IndexManifest(manifestPath);
+    await manifest.load();
+
+    // Several revisions of a law may be indexed; file names sort by enforcement date
+    const byLawNumber = new Map<string, LawTableOfContents>();
+    for (const documentPath of manifest.paths().sort()) {
+      const toc = manifest.get(documentPath)?.toc;
+      if (!toc?.lawNumber) continue;
+
+      byLawNumber.set(toc.lawNumber, {
+        lawNumber: toc.lawNumber,
+        title: toc.title,
+        documentPath,
+        structure: toc.structure
+      });
+    }
+
+    this.loaded = { path: manifestPath, version, byLawNumber };
+    return this.loaded;
+  }
+}
+
+export const createLawRepository = (manifestPath: string | (() => string)): LawRepository => {
+  return new LawRepository(typeof manifestPath === 'string' ? () => manifestPath : manifestPath);
+};
@@ -0,0 +1,211 @@
+import { LawStructureNode, LawStructureNodeType } from '../types';
+
+const NUMERAL = '〇一二三四五六七八九十百千0-9０-９';
+
+// 第三編 債権 / 第五章 不法行為 / 第一節の二 ...
+const DIVISION_PATTERN = new RegExp(`^(第[${NUMERAL}]+(編|章|節|款|目)(?:の[${NUMERAL}]+)*)(?:[\\s\\u3000]+(.*))?$`);
+// 第七百九条 / 第三条の二 / 第十二条の三の二, followed by whitespace or end of line
+const ARTICLE_PATTERN = new RegExp(`^第[${NUMERAL}]+条(?:の[${NUMERAL}]+)*(?=[\\s\\u3000]|$)`);
+// ２ 前項の規定は... (the first 項 of an article carries no number)
+const PARAGRAPH_PATTERN = /^([0-9０-９]+)[\s\u3000]/;
+// 一 故意又は... (号 within a paragraph)
+const ITEM_PATTERN = /^([一二三四五六七八九十百]+(?:の[一二三四五六七八九十百]+)*)[\s\u3000]/;
+// （定義） style article captions that precede the article they describe
+const CAPTION_PATTERN = /^[（(][^）)]{1,40}[）)]$/;
+const SUPPLEMENTARY_PATTERN = /^附[\s\u3000]*則(?:[\s\u3000]*(.*))?$/;
+
+const DIVISIONS: Record<string, { level: number; nodeType: LawStructureNodeType }> = {
+  '編': { level: 1, nodeType: 'part' },
+  '章': { level: 2, nodeType: 'chapter' },
+  '節': { level: 3, nodeType: 'section' },
+  '款': { level: 4, nodeType: 'subsection' },
+  '目': { level: 5, nodeType: 'division' }
+};
+
+export type StructureLine =
+  | { type: 'division'; level: number; nodeType: LawStructureNodeType; label: string; title?: string }
+  | { type: 'article'; label: string }
+  | { type: 'caption'; text: string }
+  | { type: 'paragraph'; number: number }
+  | { type: 'item'; label: string }
+  | { type: 'body' };
+
+// Strips Markdown decoration (heading markers, bold) and surrounding whitespace
+export const normalizeStructureLine = (line: string): string => {
+  return line
+    .replace(/^#+/, '')
+    .replace(/\*\*|__/g, '')
+    .replace(/^[\s\u3000]+|[\s\u3000]+$/g, '');
+};
+
+export const parseDigits = (value: string): number => {
+  return parseInt(value.replace(/[０-９]/g, digit => String(digit.charCodeAt(0) - 0xFF10)), 10);
+};
+
+// Classifies a normalized line of law text by its role in the 編・章・節・条・項・号 hierarchy
+export const classifyStructureLine = (line: string): StructureLine => {
+  const isHeadingLike = line.length <= 60 && !line.includes('。');
+
+  if (isHeadingLike) {
+    const supplementary = line.match(SUPPLEMENTARY_PATTERN);
+    if (supplementary) {
+      return {
+        type: 'division',
+        level: 0,
+        nodeType: 'supplementary',
+        label: '附則',
+        title: supplementary[1]?.trim() || undefined
+      };
+    }
+
+    const division = line.match(DIVISION_PATTERN);
+    if (division) {
+      const { level, nodeType } = DIVISIONS[division[2]!]!;
+      return {
+        type: 'division',
+        level,
+        nodeType,
+        label: division[1]!,
+        title: division[3]?.trim() || undefined
+      };
+    }
+  }
+
+  const article = line.match(ARTICLE_PATTERN);
+  if (article) {
+    return { type: 'article', label: article[0] };
+  }
+
+  if (CAPTION_PATTERN.test(line)) {
+    return { type: 'caption', text: line };
+  }
+
+  const paragraph = line.match(PARAGRAPH_PATTERN);
+  if (paragraph) {
+    return { type: 'paragraph', number: parseDigits(paragraph[1]!) };
+  }
+
+  const item = line.match(ITEM_PATTERN);
+  if (item) {
+    return { type: 'item', label: item[1]! };
+  }
+
+  return { type: 'body' };
+};
+
+// 「第三編 債権」 style label used in heading paths and breadcrumbs
+export const formatDivisionLabel = (line: { label: string; title?: string }): string => {
+  return line.title ? `${line.label} ${line.title.replace(/[\s\u3000]+/g, ' ')}` : line.label;
+};
+
+// 附則 headings name the amending law they belong to: （平成二九年六月二日法律第四四号） 抄
+export const parseAmendmentLawNumber = (title?: string): string | undefined => {
+  return title?.match(/[（(]([^）)]+)[）)]/)?.[1]?.trim() || undefined;
+};
+
+export class LawStructureExtractor {
+
+  // Builds the nested outline (編 > 章 > 節 > 款 > 目 > 条 > 項 > 号, plus 附則) of a law's Markdown text
+  extract(content: string): LawStructureNode[] {
+    const roots: LawStructureNode[] = [];
+    const divisions: Array<{ level: number; node: LawStructureNode }> = [];
+
+    let article: LawStructureNode | null = null;
+    let paragraph: LawStructureNode | null = null;
+    let item: LawStructureNode | null = null;
+    let caption: { start: number; text: string } | null = null;
+    let offset = 0;
+
+    const closeArticle = (position: number): void => {
+      if (item) item.endPosition = position;
+      if (paragraph) paragraph.endPosition = position;
+      if (article) article.endPosition = position;
+      item = null;
+      paragraph = null;
+      article = null;
+    };
+
+    const append = (node: LawStructureNode): void => {
+      const parent = divisions[divisions.length - 1]?.node;
+      (parent ? parent.children : roots).push(node);
+    };
+
+    const createNode = (type: LawStructureNodeType, label: string, start: number, title?: string): LawStructureNode => ({
+      type,
+      label,
+      title,
+      startPosition: start,
+      endPosition: start,
+      children: []
+    });
+
+    for (const rawLine of content.split('\n')) {
+      const lineStart = offset;
+      offset += rawLine.length + 1;
+
+      const line = normalizeStructureLine(rawLine);
+      if (!line) continue;
+
+      const classified = classifyStructureLine(line);
+
+      switch (classified.type) {
+        case 'division': {
+          closeArticle(lineStart);
+          while (divisions.length > 0 && divisions[divisions.length - 1]!.level >= classified.level) {
+            divisions.pop()!.node.endPosition = lineStart;
+          }
+          const node = createNode(classified.nodeType, classified.label, lineStart, classified.title);
+          append(node);
+          divisions.push({ level: classified.level, node });
+          break;
+        }
+
+        case 'article': {
+          const start = caption?.start ?? lineStart;
+          closeArticle(start);
+          article = createNode('article', classified.label, start, caption?.text);
+          paragraph = createNode('paragraph', '第1項', start);
+          article.children.push(paragraph);
+          append(article);
+          break;
+        }
+
+        case 'caption':
+          caption = caption ?? { start: lineStart, text: line };
+          continue;
+
+        case 'paragraph':
+          if (article) {
+            if (item) item.endPosition = lineStart;
+            if (paragraph) paragraph.endPosition = lineStart;
+            item = null;
+            paragraph = createNode('paragraph', `第${classified.number}項`, lineStart);
+            (article as LawStructureNode).children.push(paragraph);
+          }
+          break;
+
+        case 'item':
+          if (paragraph) {
+            if (item) item.endPosition = lineStart;
+            item = createNode('item', classified.label, lineStart);
+            (paragraph as LawStructureNode).children.push(item);
+          }
+          break;
+
+        default:
+          break;
+      }
+
+      caption = null;
+    }
+
+    closeArticle(content.length);
+    for (const division of divisions) {
+      division.node.endPosition = content.length;
+    }
+
+    return roots;
+  }
+}
+
+export const lawStructureExtractor = new LawStructureExtractor();
@@ -0,0 +1,129 @@
+import { ConversationMessage, SearchResult } from '../types';
+import { AIProvider, ProviderError } from '../types/vertex-ai';
+import { GenerationInfo, LLMProvider } from './llm-service';
+import { CircuitBreaker } from './circuit-breaker';
+
+export interface LLMCandidate {
+  provider: AIProvider;
+  service: LLMProvider;
+  breaker: CircuitBreaker;
+}
+
+// error is set for failed calls, latency for successful ones
+export type LLMCallOutcome = (provider: AIProvider, error?: unknown, latency?: number) => void;
+
+// Sends each call to the first provider, in priority order, whose circuit is closed (or due a
+// trial call), moving on to the next one when it fails. beforeCall runs once per call, before
+// any provider is tried; an error it throws (budget exhausted) is not failed over.
+export class FailoverLLMService implements LLMProvider {
+  constructor(
+    private candidates: LLMCandidate[],
+    private onOutcome?: LLMCallOutcome,
+    private beforeCall?: () => void
+  ) {}
+
+  async generateResponse(
+    prompt: string,
+    context: SearchResult[],
+    conversation?: ConversationMessage[],
+    info?: GenerationInfo
+  ): Promise<string> {
+    return this.route(candidate => candidate.service.generateResponse(prompt, context, conversation, info), info);
+  }
+
+  async *streamResponse(
+    prompt: string,
+    context: SearchResult[],
+    conversation?: ConversationMessage[],
+    info?: GenerationInfo
+  ): AsyncIterable<string> {
+    this.beforeCall?.();
+    let lastError: unknown;
+
+    for (const candidate of this.available()) {
+      const start = Date.now();
+      let started = false;
+      let failed = false;
+
+      try {
+        for await (const text of candidate.service.streamResponse(prompt, context, conversation, info)) {
+          if (!started) {
+            started = true;
+            if (info) info.provider = candidate.provider;
+          }
+          yield text;
+        }
+        if (info) info.provider = candidate.provider;
+        return;
+      } catch (error) {
+        failed = true;
+        this.failed(candidate, error);
+        // Tokens already sent cannot be taken back, so only a stream that never started fails over
+        if (started) throw error;
+        lastError = error;
+      } finally {
+        // Also reached when the consumer stops reading early; the provider was working
+        if (!failed) this.succeeded(candidate, start);
+      }
+    }
+
+    throw this.exhausted(lastError);
+  }
+
+  async generateRelatedQuestions(query: string, context: SearchResult[], info?: GenerationInfo): Promise<string[]> {
+    return this.route(candidate => candidate.service.generateRelatedQuestions(query, context, info), info);
+  }
+
+  async rateRelevance(query: string, passages: SearchResult[], info?: GenerationInfo): Promise<number[]> {
+    return this.route(candidate => candidate.service.rateRelevance(query, passages, info), info);
+  }
+
+  private async route<T>(call: (candidate: LLMCandidate) => Promise<T>, info?: GenerationInfo): Promise<T> {
+    this.beforeCall?.();
+    let lastError: unknown;
+
+    for (const candidate of this.available()) {
+      const start = Date.now();
+      try {
+        const result = await call(candidate);
+        this.succeeded(candidate, start);
+        if (info) info.provider = candidate.provider;
+        return result;
+      } catch (error) {
+        this.failed(candidate, error);
+        lastError = error;
+      }
+    }
+
+    throw this.exhausted(lastError);
+  }
+
+  // Lazy, so a half-open circuit only claims its trial call when the call is actually made
+  private *available(): Generator<LLMCandidate> {
+    for (const candidate of this.candidates) {
+      if (candidate.breaker.allowRequest()) {
+        yield candidate;
+      }
+    }
+  }
+
+  private succeeded(candidate: LLMCandidate, start: number): void {
+    candidate.breaker.recordSuccess();
+    this.onOutcome?.(candidate.provider, undefined, Date.now() - start);
+  }
+
+  private failed(candidate: LLMCandidate, error: unknown): void {
+    candidate.breaker.recordFailure();
+    this.onOutcome?.(candidate.provider, error);
+
+    const circuit = candidate.breaker.currentState === 'open' ? ' (circuit opened)' : '';
+    console.warn(`⚠️  ${candidate.provider} LLM call failed${circuit}; trying the next provider`);
+  }
+
+  private exhausted(lastError: unknown): ProviderError {
+    const provider = this.candidates[0]?.provider ?? 'openai';
+    return lastError
+      ? new ProviderError('All LLM providers failed', provider, lastError as Error)
+      : new ProviderError('No LLM provider available: every circuit is open', provider);
+  }
+}
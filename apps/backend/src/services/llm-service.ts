@@ -1,9 +1,70 @@
 import OpenAI from 'openai';
 import { SearchResult, SourceCitation, Conversation, ConversationMessage } from '../types';
+import { AIProvider, TokenUsage } from '../types/vertex-ai';
+
+// 「第三編 債権 > 第五章 不法行為 > 第七百九条 第2項」 style provision label for prompts
+export const formatProvision = (result: SearchResult): string => {
+  const { articleNumber, paragraphNumber, headingPath } = result.chunk;
+  const parts = [...(headingPath || [])];
+  
+  if (articleNumber) {
+    parts.push(paragraphNumber ? `${articleNumber} 第${paragraphNumber}項` : articleNumber);
+  }
+  
+  return parts.length > 0 ? `\n条文: ${parts.join(' > ')}` : '';
+};
+
+// Rating calls answer with { "ratings": [...] } and nothing else, so a few tokens per passage do
+export const ratingMaxTokens = (count: number): number => 20 + count * 5;
+
+export const buildRatingPrompt = (query: string, passages: SearchResult[]): string => {
+  const documents = passages
+    .map((result, index) => `【文書${index + 1}】${result.chunk.title}${formatProvision(result)}\n${result.chunk.content}`)
+    .join('\n\n');
+
+  return `次の文書${passages.length}件それぞれについて、質問に答えるためにどの程度役立つかを0から10の整数で評価してください。
+評価は文書の順に ratings 配列に入れてください。
+
+質問: ${query}
+
+${documents}`;
+};
+
+// Throws when the model did not return one number per passage
+export const parseRatingResponse = (text: string, count: number): number[] => {
+  const ratings: unknown = (JSON.parse(text) as { ratings?: unknown }).ratings;
+  if (!Array.isArray(ratings) || ratings.length !== count || !ratings.every(rating => typeof rating === 'number')) {
+    throw new Error(`Expected ${count} ratings, got: ${text}`);
+  }
+  return ratings;
+};
+
+// Filled in by the services and the provider factory's wrapper, which may route a call to a
+// fallback provider. usage is left unset when the provider does not report it.
+export interface GenerationInfo {
+  provider?: AIProvider;
+  model?: string;
+  usage?: TokenUsage;
+}
 
 export interface LLMProvider {
-  generateResponse(prompt: string, context: SearchResult[], conversation?: ConversationMessage[]): Promise<string>;
-  generateRelatedQuestions(query: string, context: SearchResult[]): Promise<string[]>;
+  generateResponse(
+    prompt: string,
+    context: SearchResult[],
+    conversation?: ConversationMessage[],
+    info?: GenerationInfo
+  ): Promise<string>;
+  // Same answer as generateResponse, yielded as the model produces it
+  streamResponse(
+    prompt: string,
+    context: SearchResult[],
+    conversation?: ConversationMessage[],
+    info?: GenerationInfo
+  ): AsyncIterable<string>;
+  generateRelatedQuestions(query: string, context: SearchResult[], info?: GenerationInfo): Promise<string[]>;
+  // One 0-10 relevance rating per passage, in passage order, from a short structured-output call
+  rateRelevance(query: string, passages: SearchResult[], info?: GenerationInfo): Promise<number[]>;
+  healthCheck?(): Promise<boolean>;  // free probe such as a model lookup, never a billed call
 }
 
 export class OpenAILLMService implements LLMProvider {
@@ -18,24 +79,17 @@ export class OpenAILLMService implements LLMProvider {
   async generateResponse(
     prompt: string, 
     context: SearchResult[], 
-    conversation?: ConversationMessage[]
+    conversation?: ConversationMessage[],
+    info?: GenerationInfo
   ): Promise<string> {
-    const systemPrompt = this.buildSystemPrompt();
-    const contextPrompt = this.buildContextPrompt(context);
-    const conversationHistory = this.buildConversationHistory(conversation || []);
-    
-    const messages: OpenAI.ChatCompletionMessageParam[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: `${contextPrompt}\n\n${conversationHistory}\n\nユーザーの質問: ${prompt}` }
-    ];
-
     try {
       const response = await this.client.chat.completions.create({
         model: this.model,
-        messages,
+        messages: this.buildMessages(prompt, context, conversation),
         temperature: 0.3,
         max_tokens: 2000,
       });
+      this.recordUsage(response.usage, info);
 
       return response.choices[0]?.message?.content || '申し訳ございませんが、回答を生成できませんでした。';
     } catch (error) {
@@ -43,7 +97,89 @@ export class OpenAILLMService implements LLMProvider {
     }
   }
 
-  async generateRelatedQuestions(query: string, context: SearchResult[]): Promise<string[]> {
+  async *streamResponse(
+    prompt: string,
+    context: SearchResult[],
+    conversation?: ConversationMessage[],
+    info?: GenerationInfo
+  ): AsyncIterable<string> {
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: this.model,
+        messages: this.buildMessages(prompt, context, conversation),
+        temperature: 0.3,
+        max_tokens: 2000,
+        stream: true,
+        // Usage arrives in a last chunk without choices
+        stream_options: { include_usage: true },
+      });
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+        if (chunk.usage) {
+          this.recordUsage(chunk.usage, info);
+        }
+      }
+    } catch (error) {
+      throw new Error(`LLM response streaming failed: ${error}`);
+    }
+  }
+
+  async rateRelevance(query: string, passages: SearchResult[], info?: GenerationInfo): Promise<number[]> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: buildRatingPrompt(query, passages) }],
+      temperature: 0,
+      max_tokens: ratingMaxTokens(passages.length),
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: 'relevance_ratings',
+          strict: true,
+          schema: {
+            type: 'object',
+            properties: { ratings: { type: 'array', items: { type: 'integer' } } },
+            required: ['ratings'],
+            additionalProperties: false
+          }
+        }
+      }
+    });
+    this.recordUsage(response.usage, info);
+
+    return parseRatingResponse(response.choices[0]?.message?.content || '', passages.length);
+  }
+
+  // Model lookups are not billed, unlike a test completion
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.models.retrieve(this.model);
+      return true;
+    } catch (error) {
+      console.error('OpenAI LLM health check failed:', error);
+      return false;
+    }
+  }
+
+  private buildMessages(
+    prompt: string,
+    context: SearchResult[],
+    conversation?: ConversationMessage[]
+  ): OpenAI.ChatCompletionMessageParam[] {
+    const systemPrompt = this.buildSystemPrompt();
+    const contextPrompt = this.buildContextPrompt(context);
+    const conversationHistory = this.buildConversationHistory(conversation || []);
+
+    return [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: `${contextPrompt}\n\n${conversationHistory}\n\nユーザーの質問: ${prompt}` }
+    ];
+  }
+
+  async generateRelatedQuestions(query: string, context: SearchResult[], info?: GenerationInfo): Promise<string[]> {
     const contextSummary = context
       .slice(0, 3)
       .map(result => result.chunk.content.substring(0, 200))
@@ -73,6 +209,7 @@ ${contextSummary}
         temperature: 0.7,
         max_tokens: 300,
       });
+      this.recordUsage(response.usage, info);
 
       const content = response.choices[0]?.message?.content || '';
       const questions = content
@@ -83,8 +220,15 @@ ${contextSummary}
 
       return questions.slice(0, 3);
     } catch (error) {
-      console.warn('Failed to generate related questions:', error);
-      return [];
+      throw new Error(`Related question generation failed: ${error}`);
+    }
+  }
+
+  private recordUsage(usage: OpenAI.CompletionUsage | null | undefined, info?: GenerationInfo): void {
+    if (!info) return;
+    info.model = this.model;
+    if (usage) {
+      info.usage = { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
     }
   }
 
@@ -122,7 +266,7 @@ ${contextSummary}
       .map((result, index) => {
         return `
 【文書${index + 1}】${result.chunk.title}
-ファイル: ${result.chunk.metadata.fileName}
+ファイル: ${result.chunk.metadata.fileName}${result.chunk.metadata.officialLawNumber ? `\n法令番号: ${result.chunk.metadata.officialLawNumber}` : ''}${formatProvision(result)}
 関連度: ${(result.score * 100).toFixed(1)}%
 
 内容:
@@ -198,7 +342,16 @@ export class ConversationManager {
       title: result.chunk.title,
       excerpt: result.highlights.join(' ... '),
       score: result.score,
-      chunkId: result.chunk.id
+      chunkId: result.chunk.id,
+      lawNumber: result.chunk.metadata.lawNumber,
+      officialLawNumber: result.chunk.metadata.officialLawNumber,
+      articleNumber: result.chunk.articleNumber,
+      paragraphNumber: result.chunk.paragraphNumber,
+      headingPath: result.chunk.headingPath,
+      provisionType: result.chunk.provisionType,
+      amendmentLawNumber: result.chunk.amendmentLawNumber,
+      originalScore: result.originalScore,
+      rerankScore: result.rerankScore
     }));
   }
 }
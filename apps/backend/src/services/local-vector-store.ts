@@ -0,0 +1,338 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChunkLookup, ChunkStoreError, DocumentChunk, EmbeddingProfile, EmbeddingService, SearchOptions, SearchResult, VectorStore } from '../types';
+import { matchesFilter } from '../utils/metadata-filter';
+import { cosineSimilarity, diversifyResults, isDiversityRequested } from '../utils/search-diversity';
+import { decodeEmbedding, encodeEmbedding } from '../utils/embedding-codec';
+import { assertSameDimension, assertSameModel } from '../utils/embedding-profile';
+import { SnapshotConflictError, SnapshotVersion } from '../utils/snapshot-version';
+
+interface StoredEntry {
+  chunk: DocumentChunk;
+  embedding: number[];
+}
+
+interface SerializedVectorStore {
+  version: number;
+  embeddingModel?: string;
+  dimension?: number;
+  entries: Array<{
+    chunk: DocumentChunk;
+    embedding: string;  // base64 of the Float32Array bytes
+  }>;
+}
+
+const SNAPSHOT_VERSION = 1;
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Same ranking rule as ChromaVectorStore: 附則 rank below 本則 unless explicitly requested
+const DEFAULT_SUPPLEMENTARY_WEIGHT = 0.85;
+
+// In-process VectorStore with brute-force cosine search, for development and tests without
+// a Chroma server. Changes stay in memory until persist() writes the snapshot file.
+export class LocalVectorStore implements VectorStore {
+  private entries = new Map<string, StoredEntry>();
+  private embeddingService: EmbeddingService;
+  private indexPath?: string;
+  private snapshot?: SnapshotVersion;
+  private dirty = false;  // changes not yet persisted
+  private supplementaryWeight: number;
+  private profile: EmbeddingProfile;
+
+  constructor(embeddingService: EmbeddingService, options?: {
+    indexPath?: string;
+    supplementaryWeight?: number;
+    embeddingModel?: string;
+  }) {
+    const { indexPath, supplementaryWeight = DEFAULT_SUPPLEMENTARY_WEIGHT, embeddingModel } = options || {};
+
+    this.embeddingService = embeddingService;
+    this.indexPath = indexPath;
+    this.snapshot = indexPath ? new SnapshotVersion(indexPath) : undefined;
+    this.supplementaryWeight = supplementaryWeight;
+    this.profile = { model: embeddingModel };
+  }
+
+  private get storeName(): string {
+    return `Local vector store ${this.indexPath || '(in memory)'}`;
+  }
+
+  async addEmbeddings(chunks: DocumentChunk[]): Promise<void> {
+    this.dirty = true;
+    const failures: ChunkStoreError['failures'] = [];
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const missing = batch.filter(chunk => !chunk.embedding || chunk.embedding.length === 0);
+      const generated = missing.length > 0
+        ? await this.embeddingService.generateEmbeddings(missing.map(chunk => chunk.content))
+        : [];
+
+      for (const chunk of batch) {
+        const embedding = chunk.embedding && chunk.embedding.length > 0
+          ? chunk.embedding
+          : generated[missing.indexOf(chunk)];
+
+        if (!embedding) {
+          console.error(`Failed to add chunk ${chunk.id}: no embedding generated`);
+          failures.push({ chunkId: chunk.id, error: new Error('no embedding generated') });
+          continue;
+        }
+        this.checkDimension(embedding.length, true);
+
+        this.entries.set(chunk.id, { chunk: { ...chunk, embedding: undefined }, embedding });
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new ChunkStoreError(failures);
+    }
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const queryEmbedding = await this.embeddingService.generateEmbedding(query);
+    return this.searchByEmbedding(queryEmbedding, options);
+  }
+
+  async searchByEmbedding(embedding: number[], options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { limit = 10, threshold = 0.0, filters } = options;
+    this.checkDimension(embedding.length, false);
+    const weightSupplementary = !filters?.provisionType && this.supplementaryWeight !== 1;
+
+    const results: SearchResult[] = [];
+    const embeddings = new Map<string, number[]>();
+
+    for (const entry of this.entries.values()) {
+      if (filters && !matchesFilter(entry.chunk, filters)) continue;
+
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity < threshold) continue;
+
+      const weight = weightSupplementary && entry.chunk.provisionType === 'supplementary'
+        ? this.supplementaryWeight
+        : 1;
+
+      results.push({
+        chunk: entry.chunk,
+        score: similarity * weight,
+        highlights: this.extractHighlights(entry.chunk.content)
+      });
+      embeddings.set(entry.chunk.id, entry.embedding);
+    }
+
+    if (isDiversityRequested(options)) {
+      return diversifyResults(results, { ...options, limit }, embeddings);
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async updateEmbedding(chunkId: string, embedding: number[]): Promise<void> {
+    this.dirty = true;
+    const entry = this.entries.get(chunkId);
+    if (entry) {
+      this.checkDimension(embedding.length, true);
+      entry.embedding = embedding;
+    }
+  }
+
+  async updateChunks(chunks: DocumentChunk[]): Promise<void> {
+    this.dirty = true;
+    for (const chunk of chunks) {
+      const entry = this.entries.get(chunk.id);
+      if (entry) {
+        entry.chunk = { ...chunk, embedding: undefined };
+      }
+    }
+  }
+
+  async deleteEmbeddings(chunkIds: string[]): Promise<void> {
+    this.dirty = true;
+    for (const id of chunkIds) {
+      this.entries.delete(id);
+    }
+  }
+
+  async getEmbeddingCount(): Promise<number> {
+    return this.entries.size;
+  }
+
+  async getChunks(lookup: ChunkLookup, limit: number = 100): Promise<DocumentChunk[]> {
+    const conditions: Array<[string | undefined, (chunk: DocumentChunk) => string | undefined]> = [
+      [lookup.title, chunk => chunk.title],
+      [lookup.lawNumber, chunk => chunk.metadata.lawNumber],
+      [lookup.articleKey, chunk => chunk.articleKey],
+      [lookup.documentPath, chunk => chunk.documentPath],
+      [lookup.provisionType, chunk => chunk.provisionType || 'main']
+    ];
+    const active = conditions.filter(([expected]) => expected !== undefined && expected !== '');
+
+    // Like the Chroma store, an empty lookup matches nothing
+    if (active.length === 0) {
+      return [];
+    }
+
+    return this.findChunks(chunk => active.every(([expected, actual]) => actual(chunk) === expected), limit);
+  }
+
+  async getChunksByRange(documentPath: string, startIndex: number, endIndex: number): Promise<DocumentChunk[]> {
+    return this.findChunks(chunk =>
+      chunk.documentPath === documentPath && chunk.chunkIndex >= startIndex && chunk.chunkIndex <= endIndex
+    );
+  }
+
+  async getDocumentChunkIds(documentPath: string): Promise<string[]> {
+    return this.findChunks(chunk => chunk.documentPath === documentPath).map(chunk => chunk.id);
+  }
+
+  async load(): Promise<boolean> {
+    if (!this.indexPath || !this.snapshot) return false;
+
+    try {
+      await this.snapshot.remember();
+      const data = JSON.parse(await fs.readFile(this.indexPath, 'utf-8')) as SerializedVectorStore;
+      if (data.version !== SNAPSHOT_VERSION) {
+        console.warn(`⚠️  Ignoring vector store snapshot ${this.indexPath}: unsupported version ${data.version}`);
+        return false;
+      }
+      // Refuse a snapshot built with another model rather than serve meaningless similarities
+      assertSameModel(this.storeName, { model: data.embeddingModel }, this.profile.model);
+
+      this.profile = { model: data.embeddingModel || this.profile.model, dimension: data.dimension };
+      this.entries.clear();
+      for (const { chunk, embedding } of data.entries) {
+        this.entries.set(chunk.id, {
+          chunk: {
+            ...chunk,
+            metadata: {
+              ...chunk.metadata,
+              date: chunk.metadata.date ? new Date(chunk.metadata.date) : undefined,
+              promulgationDate: chunk.metadata.promulgationDate ? new Date(chunk.metadata.promulgationDate) : undefined,
+              lastModified: new Date(chunk.metadata.lastModified)
+            }
+          },
+          embedding: decodeEmbedding(embedding)
+        });
+      }
+      // Snapshots written before dimensions were recorded
+      if (this.profile.dimension === undefined) {
+        this.profile.dimension = this.entries.values().next().value?.embedding.length;
+      }
+      this.dirty = false;
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Picks up a snapshot rewritten by another process, e.g. after index:documents. Unsaved
+  // changes are never dropped for it.
+  async reloadIfChanged(): Promise<void> {
+    if (!this.snapshot || this.dirty || !(await this.snapshot.isReplaced())) return;
+
+    if (await this.load()) {
+      console.log(`📂 Reloaded ${this.entries.size} embeddings from ${this.indexPath}`);
+    }
+  }
+
+  // Drops unsaved changes and loads the snapshot on disk
+  async discardChanges(): Promise<void> {
+    this.dirty = false;
+    this.entries.clear();
+    await this.load();
+  }
+
+  // Written to a temporary file first so an interrupted save leaves the old snapshot intact.
+  // A snapshot rewritten by another process since loading is not overwritten; it replaces the
+  // unsaved changes instead, so the next write is not refused as well.
+  async persist(): Promise<void> {
+    if (!this.indexPath || !this.snapshot) return;
+
+    if (await this.snapshot.isReplaced()) {
+      if (!this.dirty) return;
+      await this.discardChanges();
+      throw new SnapshotConflictError(this.indexPath);
+    }
+
+    const data: SerializedVectorStore = {
+      version: SNAPSHOT_VERSION,
+      embeddingModel: this.profile.model,
+      dimension: this.profile.dimension,
+      entries: Array.from(this.entries.values()).map(entry => ({
+        chunk: entry.chunk,
+        embedding: encodeEmbedding(entry.embedding)
+      }))
+    };
+
+    const tempPath = `${this.indexPath}.tmp`;
+    await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, this.indexPath);
+    await this.snapshot.remember();
+    this.dirty = false;
+    console.log(`💾 Saved ${this.entries.size} embeddings to ${this.indexPath}`);
+  }
+
+  async getEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    for (const id of chunkIds) {
+      const entry = this.entries.get(id);
+      if (entry) {
+        embeddings.set(id, entry.embedding);
+      }
+    }
+    return embeddings;
+  }
+
+  async getEmbeddingProfile(): Promise<EmbeddingProfile> {
+    return { ...this.profile };
+  }
+
+  // The first embedding stored fixes the dimension
+  private checkDimension(dimension: number, writing: boolean): void {
+    assertSameDimension(this.storeName, this.profile, dimension);
+    if (writing && this.profile.dimension === undefined) {
+      this.profile.dimension = dimension;
+    }
+  }
+
+  private findChunks(predicate: (chunk: DocumentChunk) => boolean, limit?: number): DocumentChunk[] {
+    const chunks = Array.from(this.entries.values())
+      .map(entry => entry.chunk)
+      .filter(predicate)
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+    return limit === undefined ? chunks : chunks.slice(0, limit);
+  }
+
+  private extractHighlights(content: string, maxLength: number = 100): string[] {
+    return content
+      .split(/[。！？\n]/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0)
+      .slice(0, 3)
+      .map(sentence => sentence.length <= maxLength ? sentence : sentence.substring(0, maxLength) + '...');
+  }
+}
+
+export const createLocalVectorStore = async (
+  embeddingService: EmbeddingService,
+  options?: {
+    indexPath?: string;
+    supplementaryWeight?: number;
+    embeddingModel?: string;
+  }
+): Promise<LocalVectorStore> => {
+  const { indexPath = './index-data/vectors.json', supplementaryWeight, embeddingModel } = options || {};
+  const store = new LocalVectorStore(embeddingService, { indexPath, supplementaryWeight, embeddingModel });
+
+  if (await store.load()) {
+    console.log(`📂 Loaded local vector store with ${await store.getEmbeddingCount()} embeddings from ${indexPath}`);
+  } else {
+    console.warn(`⚠️  No vector store snapshot at ${indexPath}; run the indexer to create one`);
+  }
+
+  return store;
+};
@@ -1,34 +1,124 @@
-import { EmbeddingService, VectorStore } from '../types';
+import { EmbeddingService, VectorStore, SearchResult, ConversationMessage } from '../types';
 import { 
   AIProvider, 
   ProviderConfig, 
   ProviderHealthStatus, 
   ProviderError,
   CostTracker,
+  TokenUsage,
   VertexAIConfig 
 } from '../types/vertex-ai';
-import { LLMProvider } from './llm-service';
+import { GenerationInfo, LLMProvider } from './llm-service';
 import { OpenAIEmbeddingService } from './embedding-service';
 import { OpenAILLMService } from './llm-service';
 import { VertexAIEmbeddingService } from './vertex-ai-embedding';
 import { VertexAILLMService } from './vertex-ai-llm';
 import { GeminiEmbeddingService } from './gemini-embedding';
+import { CachedEmbeddingService, EmbeddingCache } from './embedding-cache';
+import { CircuitBreaker } from './circuit-breaker';
+import { FailoverLLMService, LLMCandidate } from './llm-failover';
+import { BudgetGuard, BudgetLevel } from './budget-guard';
+import { CostLedger } from './cost-ledger';
+import { withTimeout } from '../utils/timeout';
+import { calculateCost } from '../utils/model-pricing';
+import { estimateTokens } from '../utils/token-estimate';
+import { currentUsageScope } from '../utils/usage-scope';
+
+// How often the cost ledger is re-read for spend recorded by other processes
+const COST_REFRESH_INTERVAL_MS = 30000;
 
 export class ProviderFactory {
   private config: ProviderConfig;
   private healthStatus: Map<AIProvider, ProviderHealthStatus> = new Map();
   private costTracking: CostTracker[] = [];
   private healthCheckInterval?: NodeJS.Timeout;
+  private embeddingCache?: EmbeddingCache;
+  private cachedEmbeddingServices: CachedEmbeddingService[] = [];
+  private circuitBreakers: Map<AIProvider, CircuitBreaker> = new Map();
+  private healthCheckRun?: Promise<void>;
+  // Unwrapped services handed out by createEmbeddingService/createLLMService, checked on schedule
+  private activeEmbeddingServices: Map<AIProvider, EmbeddingService> = new Map();
+  private activeLLMServices: Map<AIProvider, LLMProvider> = new Map();
+  private budget: BudgetGuard;
+  private costLedger?: CostLedger;
+  private costHistory: Promise<void>;
+  private costRefreshInterval?: NodeJS.Timeout;
+  // Cheaper LLM services used past the soft budget threshold, created on first use
+  private economyLLMServices: Map<AIProvider, Promise<LLMProvider>> = new Map();
 
   constructor(config: ProviderConfig) {
     this.config = config;
+    if (config.embeddingCachePath) {
+      this.embeddingCache = new EmbeddingCache(config.embeddingCachePath, { maxEntries: config.embeddingCacheMaxEntries });
+    }
+    this.budget = new BudgetGuard(config.budgetLimit ?? 0, config.budget);
+    if (config.costRecordsPath) {
+      this.costLedger = new CostLedger(config.costRecordsPath);
+    }
+    this.costHistory = this.loadCostHistory(true);
+    if (this.costLedger) {
+      // Spend recorded by other processes sharing the ledger counts against the budget too
+      this.costRefreshInterval = setInterval(() => {
+        this.costHistory = this.costHistory.then(() => this.loadCostHistory(false));
+      }, COST_REFRESH_INTERVAL_MS);
+      this.costRefreshInterval.unref();
+    }
     this.initializeHealthChecks();
     console.log(`🏭 Provider Factory initialized with primary: ${config.primary}`);
     console.log(`🔄 Fallback providers: ${config.fallback.join(', ')}`);
   }
 
+  // e.g. 'openai:text-embedding-3-small'; vectors from different models are not comparable
+  getEmbeddingModelName(provider: AIProvider): string {
+    const model = this.getEmbeddingModel(provider);
+    return model ? `${provider}:${model}` : provider;
+  }
+
+  private getEmbeddingModel(provider: AIProvider): string | undefined {
+    switch (provider) {
+      case 'openai':
+        return this.config.openai?.embeddingModel || 'text-embedding-3-small';
+      case 'vertexai':
+        return this.config.vertexai?.embeddingModel || 'gemini-embedding-001';
+      case 'gemini':
+        return this.config.gemini?.model || 'gemini-embedding-001';
+      default:
+        return undefined;
+    }
+  }
+
+  private getLLMModel(provider: AIProvider): string | undefined {
+    switch (provider) {
+      case 'openai':
+        return this.config.openai?.model || 'gpt-3.5-turbo';
+      case 'vertexai':
+        return this.config.vertexai?.textModel || 'gemini-1.5-pro';
+      default:
+        return undefined;
+    }
+  }
+
+  // This month's spend from earlier runs and other processes counts against the budget.
+  // Each call reads only the records appended since the last one; the budget skips other months.
+  private async loadCostHistory(initial: boolean): Promise<void> {
+    if (!this.costLedger) return;
+
+    try {
+      const records = await this.costLedger.readNewRecords();
+      for (const record of records) {
+        this.budget.record(record.cost, record.timestamp);
+      }
+      if (initial && records.length > 0) {
+        console.log(`📒 Loaded ${records.length} cost records; $${this.budget.monthToDate.toFixed(4)} spent this month`);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Failed to read cost records from ${this.config.costRecordsPath}:`, error);
+    }
+  }
+
   // Create embedding service with automatic provider selection
-  async createEmbeddingService(): Promise<EmbeddingService & { providerName: string }> {
+  async createEmbeddingService(): Promise<EmbeddingService & { providerName: string; modelName: string }> {
+    await this.costHistory;
     const providers = [this.config.primary, ...this.config.fallback];
     
     for (const provider of providers) {
@@ -36,12 +126,14 @@ export class ProviderFactory {
         const service = await this.createEmbeddingServiceForProvider(provider);
         
         // Test the service
-        if (await this.testEmbeddingService(service, provider)) {
+        if (await this.testService(service, provider)) {
           console.log(`✅ Using ${provider} for embedding service`);
-          const wrappedService = this.wrapEmbeddingService(service, provider);
-          // Add provider name to the service
-          (wrappedService as any).providerName = provider;
-          return wrappedService as EmbeddingService & { providerName: string };
+          this.activeEmbeddingServices.set(provider, service);
+          // Add provider and model names to the service
+          return Object.assign(this.wrapEmbeddingService(service, provider), {
+            providerName: provider,
+            modelName: this.getEmbeddingModelName(provider)
+          });
         }
       } catch (error) {
         console.warn(`⚠️ Failed to create embedding service for ${provider}:`, error);
@@ -52,29 +144,60 @@ export class ProviderFactory {
     throw new ProviderError('No healthy embedding providers available', this.config.primary);
   }
 
-  // Create LLM service with automatic provider selection
+  // Create LLM service that fails over between providers on every call. Providers are checked
+  // at startup until one is healthy, as before; those failing the check start with an open
+  // circuit and get a trial call after the cool-down.
   async createLLMService(): Promise<LLMProvider & { providerName: string }> {
+    await this.costHistory;
     const providers = [this.config.primary, ...this.config.fallback];
+    const candidates: LLMCandidate[] = [];
+    let active: AIProvider | undefined;
     
     for (const provider of providers) {
       try {
         const service = await this.createLLMServiceForProvider(provider);
+        const breaker = this.getCircuitBreaker(provider);
         
-        // Test the service
-        if (await this.testLLMService(service, provider)) {
-          console.log(`✅ Using ${provider} for LLM service`);
-          const wrappedService = this.wrapLLMService(service, provider);
-          // Add provider name to the service
-          (wrappedService as any).providerName = provider;
-          return wrappedService as LLMProvider & { providerName: string };
+        if (!active) {
+          // Test the service
+          if (await this.testService(service, provider)) {
+            active = provider;
+          } else {
+            breaker.trip();
+          }
         }
+        
+        candidates.push({ provider, service: this.wrapLLMService(service, provider), breaker });
+        this.activeLLMServices.set(provider, service);
       } catch (error) {
         console.warn(`⚠️ Failed to create LLM service for ${provider}:`, error);
         this.updateHealthStatus(provider, false, error);
       }
     }
     
-    throw new ProviderError('No healthy LLM providers available', this.config.primary);
+    if (!active) {
+      throw new ProviderError('No healthy LLM providers available', this.config.primary);
+    }
+    
+    const fallbacks = candidates.map(candidate => candidate.provider).filter(provider => provider !== active);
+    console.log(`✅ Using ${active} for LLM service${fallbacks.length > 0 ? ` (failover: ${fallbacks.join(', ')})` : ''}`);
+    
+    const failoverService = new FailoverLLMService(
+      candidates,
+      (provider, error, latency) => this.updateHealthStatus(provider, !error, error, latency),
+      () => this.budget.assertAvailable()
+    );
+    // Add provider name to the service; calls may be answered by a fallback
+    return Object.assign(failoverService, { providerName: active });
+  }
+
+  private getCircuitBreaker(provider: AIProvider): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(provider);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.config.circuitBreaker?.failureThreshold, this.config.circuitBreaker?.cooldownMs);
+      this.circuitBreakers.set(provider, breaker);
+    }
+    return breaker;
   }
 
   private async createEmbeddingServiceForProvider(provider: AIProvider): Promise<EmbeddingService> {
@@ -114,7 +237,8 @@ export class ProviderFactory {
     }
   }
 
-  private async createLLMServiceForProvider(provider: AIProvider): Promise<LLMProvider> {
+  // model overrides the configured one (budget downgrade)
+  private async createLLMServiceForProvider(provider: AIProvider, model?: string): Promise<LLMProvider> {
     switch (provider) {
       case 'openai':
         if (!this.config.openai?.apiKey) {
@@ -122,14 +246,14 @@ export class ProviderFactory {
         }
         return new OpenAILLMService(
           this.config.openai.apiKey,
-          this.config.openai.model
+          model || this.config.openai.model
         );
 
       case 'vertexai':
         if (!this.config.vertexai) {
           throw new Error('Vertex AI configuration not provided');
         }
-        return new VertexAILLMService(this.config.vertexai);
+        return new VertexAILLMService(model ? { ...this.config.vertexai, textModel: model } : this.config.vertexai);
 
       case 'gemini':
         // For now, Gemini API only supports embeddings, not chat/text generation
@@ -147,26 +271,21 @@ export class ProviderFactory {
     }
   }
 
-  private async testEmbeddingService(service: EmbeddingService, provider: AIProvider): Promise<boolean> {
+  // Runs the service's free probe (a model lookup or token count). Scheduled checks repeat
+  // this every healthCheckInterval, so a service without one is not probed with a billed
+  // embedding or completion that would bypass cost tracking and the budget.
+  private async testService(
+    service: Pick<EmbeddingService | LLMProvider, 'healthCheck'>,
+    provider: AIProvider
+  ): Promise<boolean> {
+    if (!service.healthCheck) {
+      return true;
+    }
+    
     try {
       const start = Date.now();
-      const testText = "健康チェック用のテストテキストです。";
-      
-      // Check if service has healthCheck method
-      if ('healthCheck' in service && typeof (service as any).healthCheck === 'function') {
-        const healthy = await (service as any).healthCheck();
-        const latency = Date.now() - start;
-        
-        this.updateHealthStatus(provider, healthy, undefined, latency);
-        return healthy;
-      }
-      
-      // Fallback: try to generate an embedding
-      const embedding = await service.generateEmbedding(testText);
-      const latency = Date.now() - start;
-      const healthy = Array.isArray(embedding) && embedding.length > 0;
-      
-      this.updateHealthStatus(provider, healthy, undefined, latency);
+      const healthy = await service.healthCheck();
+      this.updateHealthStatus(provider, healthy, undefined, Date.now() - start);
       return healthy;
     } catch (error) {
       this.updateHealthStatus(provider, false, error);
@@ -174,49 +293,29 @@ export class ProviderFactory {
     }
   }
 
-  private async testLLMService(service: LLMProvider, provider: AIProvider): Promise<boolean> {
-    try {
-      const start = Date.now();
-      
-      // Check if service has healthCheck method
-      if ('healthCheck' in service && typeof (service as any).healthCheck === 'function') {
-        const healthy = await (service as any).healthCheck();
-        const latency = Date.now() - start;
-        
-        this.updateHealthStatus(provider, healthy, undefined, latency);
-        return healthy;
-      }
-      
-      // Fallback: try to generate a simple response
-      const response = await service.generateResponse(
-        "健康チェック用のテストです。「OK」と回答してください。",
-        []
-      );
-      const latency = Date.now() - start;
-      const healthy = typeof response === 'string' && response.length > 0;
-      
-      this.updateHealthStatus(provider, healthy, undefined, latency);
-      return healthy;
-    } catch (error) {
-      this.updateHealthStatus(provider, false, error);
-      return false;
+  // Cache hits never reach the cost-tracking wrapper, so they cost nothing
+  private wrapEmbeddingService(service: EmbeddingService, provider: AIProvider): EmbeddingService {
+    const trackedService = this.trackEmbeddingService(service, provider);
+    if (!this.embeddingCache) {
+      return trackedService;
     }
+    
+    const cachedService = new CachedEmbeddingService(trackedService, this.embeddingCache, this.getEmbeddingModelName(provider));
+    this.cachedEmbeddingServices.push(cachedService);
+    return cachedService;
   }
 
-  private wrapEmbeddingService(service: EmbeddingService, provider: AIProvider): EmbeddingService {
+  // Paid calls are refused once the budget is exhausted; cache hits above stay available
+  private trackEmbeddingService(service: EmbeddingService, provider: AIProvider): EmbeddingService {
     const factoryInstance = this; // Capture 'this' context
     
     return {
       async generateEmbedding(text: string): Promise<number[]> {
-        const start = Date.now();
+        factoryInstance.budget.assertAvailable();
+        const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
         try {
-          const result = await service.generateEmbedding(text);
-          
-          // Track cost (simplified estimation)
-          if (provider === 'openai' || provider === 'vertexai' || provider === 'gemini') {
-            factoryInstance.trackCost(provider, 'embedding', text.length / 4, 0); // Rough token estimation
-          }
-          
+          const result = await service.generateEmbedding(text, usage);
+          factoryInstance.trackEmbedding(provider, usage, [text]);
           return result;
         } catch (error) {
           console.error(`${provider} embedding error:`, error);
@@ -225,16 +324,11 @@ export class ProviderFactory {
       },
 
       async generateEmbeddings(texts: string[]): Promise<number[][]> {
-        const start = Date.now();
+        factoryInstance.budget.assertAvailable();
+        const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
         try {
-          const result = await service.generateEmbeddings(texts);
-          
-          // Track cost
-          if (provider === 'openai' || provider === 'vertexai' || provider === 'gemini') {
-            const totalTokens = texts.reduce((sum, text) => sum + text.length / 4, 0);
-            factoryInstance.trackCost(provider, 'embedding', totalTokens, 0);
-          }
-          
+          const result = await service.generateEmbeddings(texts, usage);
+          factoryInstance.trackEmbedding(provider, usage, texts);
           return result;
         } catch (error) {
           console.error(`${provider} batch embedding error:`, error);
@@ -248,18 +342,17 @@ export class ProviderFactory {
     const factoryInstance = this; // Capture 'this' context
     
     return {
-      async generateResponse(prompt: string, context: any[], conversation?: any[]): Promise<string> {
-        const start = Date.now();
+      async generateResponse(
+        prompt: string,
+        context: SearchResult[],
+        conversation?: ConversationMessage[],
+        info?: GenerationInfo
+      ): Promise<string> {
+        const call: GenerationInfo = {};
         try {
-          const result = await service.generateResponse(prompt, context, conversation);
-          
-          // Track cost (simplified estimation)
-          if (provider === 'openai' || provider === 'vertexai' || provider === 'gemini') {
-            const inputTokens = (prompt + JSON.stringify(context)).length / 4;
-            const outputTokens = result.length / 4;
-            factoryInstance.trackCost(provider, 'generation', inputTokens, outputTokens);
-          }
-          
+          const target = await factoryInstance.selectLLMService(service, provider);
+          const result = await target.generateResponse(prompt, context, conversation, call);
+          factoryInstance.trackGeneration(provider, call, promptText(prompt, context), result, info);
           return result;
         } catch (error) {
           console.error(`${provider} LLM error:`, error);
@@ -267,17 +360,79 @@ export class ProviderFactory {
         }
       },
 
-      async generateRelatedQuestions(query: string, context: any[]): Promise<string[]> {
+      async *streamResponse(
+        prompt: string,
+        context: SearchResult[],
+        conversation?: ConversationMessage[],
+        info?: GenerationInfo
+      ): AsyncIterable<string> {
+        const call: GenerationInfo = {};
+        let output = '';
         try {
-          return await service.generateRelatedQuestions(query, context);
+          const target = await factoryInstance.selectLLMService(service, provider);
+          for await (const text of target.streamResponse(prompt, context, conversation, call)) {
+            output += text;
+            yield text;
+          }
+        } catch (error) {
+          console.error(`${provider} LLM streaming error:`, error);
+          throw new ProviderError(`${provider} LLM streaming failed`, provider, error as Error);
+        } finally {
+          // Answers cut short (client disconnect, mid-stream error) were still billed; usage
+          // is only reported at the end of a stream, so those are estimated
+          if (output) {
+            factoryInstance.trackGeneration(provider, call, promptText(prompt, context), output, info);
+          }
+        }
+      },
+
+      async generateRelatedQuestions(query: string, context: SearchResult[], info?: GenerationInfo): Promise<string[]> {
+        const call: GenerationInfo = {};
+        try {
+          const target = await factoryInstance.selectLLMService(service, provider);
+          const questions = await target.generateRelatedQuestions(query, context, call);
+          factoryInstance.trackGeneration(provider, call, promptText(query, context.slice(0, 3)), questions.join('\n'), info);
+          return questions;
         } catch (error) {
           console.error(`${provider} related questions error:`, error);
-          return []; // Return empty array on error
+          throw new ProviderError(`${provider} related question generation failed`, provider, error as Error);
+        }
+      },
+
+      async rateRelevance(query: string, passages: SearchResult[], info?: GenerationInfo): Promise<number[]> {
+        const call: GenerationInfo = {};
+        try {
+          const target = await factoryInstance.selectLLMService(service, provider);
+          const ratings = await target.rateRelevance(query, passages, call);
+          factoryInstance.trackGeneration(provider, call, promptText(query, passages), JSON.stringify({ ratings }), info);
+          return ratings;
+        } catch (error) {
+          console.error(`${provider} relevance rating error:`, error);
+          throw new ProviderError(`${provider} relevance rating failed`, provider, error as Error);
         }
       }
     };
   }
 
+  // Past the soft budget threshold, LLM calls go to the provider's downgrade model if one is set
+  private selectLLMService(service: LLMProvider, provider: AIProvider): Promise<LLMProvider> {
+    const model = this.budget.downgradeModel(provider);
+    if (!model) {
+      return Promise.resolve(service);
+    }
+    
+    let economy = this.economyLLMServices.get(provider);
+    if (!economy) {
+      console.warn(`💸 Budget threshold passed; ${provider} answers now use ${model}`);
+      economy = this.createLLMServiceForProvider(provider, model).catch(error => {
+        console.warn(`⚠️ Failed to create ${model} for ${provider}; keeping the configured model:`, error);
+        return service;
+      });
+      this.economyLLMServices.set(provider, economy);
+    }
+    return economy;
+  }
+
   private updateHealthStatus(
     provider: AIProvider, 
     healthy: boolean, 
@@ -307,43 +462,60 @@ export class ProviderFactory {
     this.healthStatus.set(provider, newStatus);
   }
 
-  private trackCost(
+  private trackEmbedding(provider: AIProvider, usage: TokenUsage, texts: string[]): void {
+    const estimated = usage.inputTokens === 0;
+    const billed = estimated
+      ? { inputTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0), outputTokens: 0 }
+      : usage;
+    this.trackCost(provider, 'embedding', this.getEmbeddingModel(provider), billed, estimated);
+  }
+
+  // Uses the usage reported by the provider, or an estimate from the texts when there is none
+  private trackGeneration(
     provider: AIProvider,
-    operation: 'embedding' | 'generation',
-    inputTokens: number,
-    outputTokens: number
+    call: GenerationInfo,
+    input: string,
+    output: string,
+    info?: GenerationInfo
   ): void {
-    // Simplified cost calculation
-    let cost = 0;
+    const usage = call.usage || { inputTokens: estimateTokens(input), outputTokens: estimateTokens(output) };
+    const model = call.model || this.getLLMModel(provider);
+    this.trackCost(provider, 'generation', model, usage, !call.usage);
     
-    if (provider === 'openai') {
-      if (operation === 'embedding') {
-        cost = inputTokens * 0.00002 / 1000; // text-embedding-3-small pricing
-      } else {
-        cost = inputTokens * 0.0005 / 1000 + outputTokens * 0.0015 / 1000; // GPT-3.5-turbo pricing
-      }
-    } else if (provider === 'vertexai') {
-      if (operation === 'embedding') {
-        cost = inputTokens * 0.00015 / 1000; // gemini-embedding-001 pricing: $0.15 per 1M tokens
-      } else {
-        cost = inputTokens * 0.0025 / 1000 + outputTokens * 0.0075 / 1000; // Gemini Pro pricing
-      }
-    } else if (provider === 'gemini') {
-      if (operation === 'embedding') {
-        cost = inputTokens * 0.00015 / 1000; // gemini-embedding-001 pricing: $0.15 per 1M tokens
-      } else {
-        cost = inputTokens * 0.0025 / 1000 + outputTokens * 0.0075 / 1000; // Gemini Pro pricing (if LLM implemented)
-      }
+    if (info) {
+      info.model = model;
+      info.usage = usage;
     }
+  }
 
-    this.costTracking.push({
+  private trackCost(
+    provider: AIProvider,
+    operation: 'embedding' | 'generation',
+    model: string | undefined,
+    usage: TokenUsage,
+    estimated: boolean
+  ): void {
+    const scope = currentUsageScope();
+    const record: CostTracker = {
       provider,
       operation,
-      inputTokens,
-      outputTokens,
-      cost,
+      model,
+      conversationId: scope?.conversationId,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      estimated: estimated || undefined,
+      cost: calculateCost(provider, operation, model, usage),
       timestamp: new Date(),
-    });
+    };
+
+    this.costTracking.push(record);
+    this.budget.record(record.cost, record.timestamp);
+    if (scope) {
+      scope.usage.inputTokens += record.inputTokens;
+      scope.usage.outputTokens += record.outputTokens ?? 0;
+      scope.usage.cost += record.cost;
+    }
+    void this.costLedger?.append(record);
 
     // Keep only recent cost data (last 1000 records)
     if (this.costTracking.length > 1000) {
@@ -353,39 +525,107 @@ export class ProviderFactory {
 
   private initializeHealthChecks(): void {
     if (this.config.healthCheckInterval > 0) {
-      this.healthCheckInterval = setInterval(async () => {
-        await this.performHealthChecks();
+      this.healthCheckInterval = setInterval(() => {
+        void this.runHealthChecks();
       }, this.config.healthCheckInterval);
+      // Scheduled checks alone should not keep a finished script (index:documents) running
+      this.healthCheckInterval.unref();
       
       console.log(`🏥 Health checks scheduled every ${this.config.healthCheckInterval}ms`);
     }
   }
 
+  // Re-checks the services in use, each bounded by healthCheckTimeout. A scheduled run that
+  // finds a run still going joins it instead of starting another.
+  runHealthChecks(): Promise<void> {
+    if (!this.healthCheckRun) {
+      this.healthCheckRun = this.performHealthChecks().finally(() => {
+        this.healthCheckRun = undefined;
+      });
+    }
+    return this.healthCheckRun;
+  }
+
   private async performHealthChecks(): Promise<void> {
-    const providers = [this.config.primary, ...this.config.fallback];
+    const timeout = this.config.healthCheckTimeout;
+    const providers = new Set([...this.activeEmbeddingServices.keys(), ...this.activeLLMServices.keys()]);
     
     for (const provider of providers) {
-      try {
-        // Simple health check - try to create and test services
-        const embeddingService = await this.createEmbeddingServiceForProvider(provider);
-        const llmService = await this.createLLMServiceForProvider(provider);
-        
-        const embeddingHealthy = await this.testEmbeddingService(embeddingService, provider);
-        const llmHealthy = await this.testLLMService(llmService, provider);
-        
-        this.updateHealthStatus(provider, embeddingHealthy && llmHealthy);
-      } catch (error) {
-        this.updateHealthStatus(provider, false, error);
+      const embeddingService = this.activeEmbeddingServices.get(provider);
+      const llmService = this.activeLLMServices.get(provider);
+      
+      const embeddingHealthy = !embeddingService ||
+        await this.checkWithTimeout(provider, 'embedding', () => this.testService(embeddingService, provider), timeout);
+      const llmHealthy = !llmService ||
+        await this.checkWithTimeout(provider, 'LLM', () => this.testService(llmService, provider), timeout);
+      
+      // A passing LLM check closes an open circuit early; a failing one opens it before users hit it
+      const breaker = llmService ? this.circuitBreakers.get(provider) : undefined;
+      if (llmHealthy) {
+        breaker?.recordSuccess();
+      } else {
+        breaker?.trip();
+      }
+      
+      if (!embeddingHealthy || !llmHealthy) {
+        this.updateHealthStatus(provider, false);
+        console.warn(`⚠️ Scheduled health check: ${provider} is unhealthy (${[
+          !embeddingHealthy && 'embedding',
+          !llmHealthy && 'LLM'
+        ].filter(Boolean).join(', ')})`);
       }
     }
   }
 
+  private async checkWithTimeout(
+    provider: AIProvider,
+    kind: string,
+    check: () => Promise<boolean>,
+    timeoutMs: number
+  ): Promise<boolean> {
+    try {
+      return await withTimeout(check(), timeoutMs, `${provider} ${kind} health check`);
+    } catch (error) {
+      this.updateHealthStatus(provider, false, error);
+      return false;
+    }
+  }
+
   // Public methods for monitoring
+  getActiveProviders(): { embedding: AIProvider[]; llm: AIProvider[] } {
+    return {
+      embedding: Array.from(this.activeEmbeddingServices.keys()),
+      llm: Array.from(this.activeLLMServices.keys())
+    };
+  }
+
   getHealthStatus(): Map<AIProvider, ProviderHealthStatus> {
-    return new Map(this.healthStatus);
+    const status = new Map(this.healthStatus);
+    for (const [provider, breaker] of this.circuitBreakers) {
+      const current = status.get(provider);
+      if (current) {
+        status.set(provider, { ...current, circuitState: breaker.currentState });
+      }
+    }
+    return status;
+  }
+
+  // Persisted records when a cost records file is configured, otherwise those kept in memory
+  async getCostRecords(from?: Date, to?: Date): Promise<CostTracker[]> {
+    const records = this.costLedger
+      ? await this.costLedger.readRecords(from)
+      : this.costTracking.filter(record => !from || record.timestamp >= from);
+    return to ? records.filter(record => record.timestamp < to) : records;
   }
 
-  getCostSummary(): { total: number; byProvider: Record<AIProvider, number> } {
+  getCostSummary(): {
+    total: number;
+    byProvider: Record<AIProvider, number>;
+    cachedEmbeddings: number;
+    monthToDate: number;
+    budgetLimit: number;
+    budgetLevel: BudgetLevel;
+  } {
     const total = this.costTracking.reduce((sum, record) => sum + record.cost, 0);
     const byProvider: Record<AIProvider, number> = {} as Record<AIProvider, number>;
     
@@ -393,7 +633,17 @@ export class ProviderFactory {
       byProvider[record.provider] = (byProvider[record.provider] || 0) + record.cost;
     }
     
-    return { total, byProvider };
+    // Texts served from the embedding cache at no cost
+    const cachedEmbeddings = this.cachedEmbeddingServices.reduce((sum, service) => sum + service.hits, 0);
+    
+    return {
+      total,
+      byProvider,
+      cachedEmbeddings,
+      monthToDate: this.budget.monthToDate,
+      budgetLimit: this.budget.budgetLimit,
+      budgetLevel: this.budget.level
+    };
   }
 
   // Cleanup
@@ -401,9 +651,17 @@ export class ProviderFactory {
     if (this.healthCheckInterval) {
       clearInterval(this.healthCheckInterval);
     }
+    if (this.costRefreshInterval) {
+      clearInterval(this.costRefreshInterval);
+    }
   }
 }
 
+// Text the prompt tokens are estimated from when a provider reports no usage
+const promptText = (prompt: string, context: SearchResult[]): string => {
+  return [prompt, ...context.map(result => result.chunk.content)].join('\n');
+};
+
 export const createProviderFactory = (config: ProviderConfig): ProviderFactory => {
   return new ProviderFactory(config);
 };
\ No newline at end of file
@@ -2,98 +2,361 @@ import { v4 as uuidv4 } from 'uuid';
 import { 
   QueryRequest, 
   QueryResponse, 
+  QueryStreamEvent,
   SearchResult,
   VectorStore,
   SearchOptions,
-  ConversationMessage 
+  ConversationMessage,
+  DocumentChunk,
+  RerankOptions,
+  SourceCitation,
+  BudgetExceededError,
+  MetadataFilter
 } from '../types';
-import { LLMProvider, ConversationManager } from './llm-service';
+import { LLMProvider, ConversationManager, GenerationInfo } from './llm-service';
+import { ArticleCitation, CitationRecognizer, citationRecognizer } from './citation-recognizer';
+import { RerankService } from './reranker';
+import { joinChunkContents, mergeAdjacentChunks } from '../utils/search-diversity';
+import { matchesFilter } from '../utils/metadata-filter';
+import { UsageScope, createUsageScope, iterateInUsageScope, runInUsageScope } from '../utils/usage-scope';
+
+export interface QueryProcessorOptions {
+  reranking?: RerankService;
+  neighbourChunks?: number;  // chunks loaded on each side of a hit for the LLM context; 0 disables
+}
 
 export class QueryProcessor {
+  private reranking?: RerankService;
+  private neighbourChunks: number;
+
   constructor(
     private vectorStore: VectorStore,
     private llmService: LLMProvider,
-    private conversationManager: ConversationManager
-  ) {}
+    private conversationManager: ConversationManager,
+    private citations: CitationRecognizer = citationRecognizer,
+    options: QueryProcessorOptions = {}
+  ) {
+    this.reranking = options.reranking;
+    this.neighbourChunks = options.neighbourChunks ?? 1;
+  }
 
+  // Billed calls made while answering are totalled in the response's usage
   async processQuery(request: QueryRequest): Promise<QueryResponse> {
-    const { query, conversationId, language = 'ja', filters } = request;
-    
-    const actualConversationId = conversationId || uuidv4();
-    
-    let conversation = this.conversationManager.getConversation(actualConversationId);
-    if (!conversation) {
-      conversation = this.conversationManager.createConversation(actualConversationId);
-    }
+    const conversationId = this.startConversation(request.conversationId);
+    const scope = createUsageScope(conversationId);
 
-    try {
-      const searchOptions: SearchOptions = {
-        limit: 10,
-        threshold: 0.3,
-        filters: filters?.filters
-      };
+    return runInUsageScope(scope, () => this.answerQuery(request, conversationId, scope));
+  }
 
-      const searchResults = await this.vectorStore.search(query, searchOptions);
-      
-      const conversationHistory = this.conversationManager.getConversationHistory(
-        actualConversationId,
-        6
-      );
+  private async answerQuery(request: QueryRequest, conversationId: string, scope: UsageScope): Promise<QueryResponse> {
+    const { query, language = 'ja' } = request;
 
+    try {
+      const { searchResults, context, conversationHistory } = await this.prepareAnswer(request, conversationId);
+
+      const generation: GenerationInfo = {};
       const answer = await this.llmService.generateResponse(
         query,
-        searchResults,
-        conversationHistory
+        context,
+        conversationHistory,
+        generation
       );
 
-      const relatedQuestions = await this.llmService.generateRelatedQuestions(
-        query,
-        searchResults
-      );
+      const relatedQuestions = await this.suggestQuestions(query, searchResults);
 
       const sources = this.conversationManager.createSourceCitations(searchResults);
 
-      const userMessage: ConversationMessage = {
-        role: 'user',
-        content: query,
-        timestamp: new Date()
-      };
-
-      const assistantMessage: ConversationMessage = {
-        role: 'assistant',
-        content: answer,
-        sources,
-        timestamp: new Date()
-      };
-
-      this.conversationManager.addMessage(actualConversationId, userMessage);
-      this.conversationManager.addMessage(actualConversationId, assistantMessage);
+      this.recordExchange(conversationId, query, answer, sources);
 
       return {
         answer,
         sources,
         relatedQuestions,
-        conversationId: actualConversationId
+        conversationId,
+        provider: generation.provider,
+        usage: scope.usage
       };
 
     } catch (error) {
+      // Not an error in the service: the controller reports it to the client as such
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       console.error('Query processing failed:', error);
-      
-      const errorMessage = language === 'en' 
-        ? 'I apologize, but I encountered an error while processing your query. Please try again.'
-        : '申し訳ございませんが、クエリの処理中にエラーが発生しました。もう一度お試しください。';
 
       return {
-        answer: errorMessage,
+        answer: this.errorMessage(language),
         sources: [],
         relatedQuestions: [],
-        conversationId: actualConversationId
+        conversationId,
+        usage: scope.usage  // calls made before the failure were still billed
       };
     }
   }
 
-  async searchDocuments(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
-    return await this.vectorStore.search(query, options);
+  // Same steps as processQuery, but sources are sent before the LLM is called and the answer
+  // as it is generated. The exchange is only recorded once the answer is complete, so a
+  // client that disconnects mid-answer leaves no half message in the conversation.
+  async *streamQuery(request: QueryRequest): AsyncGenerator<QueryStreamEvent> {
+    const conversationId = this.startConversation(request.conversationId);
+    const scope = createUsageScope(conversationId);
+
+    yield* iterateInUsageScope(scope, this.streamAnswer(request, conversationId, scope));
+  }
+
+  private async *streamAnswer(
+    request: QueryRequest,
+    conversationId: string,
+    scope: UsageScope
+  ): AsyncGenerator<QueryStreamEvent> {
+    const { query, language = 'ja' } = request;
+
+    try {
+      const { searchResults, context, conversationHistory } = await this.prepareAnswer(request, conversationId);
+
+      const sources = this.conversationManager.createSourceCitations(searchResults);
+      yield { type: 'sources', sources };
+
+      const generation: GenerationInfo = {};
+      let answer = '';
+      for await (const text of this.llmService.streamResponse(query, context, conversationHistory, generation)) {
+        answer += text;
+        yield { type: 'token', text };
+      }
+
+      this.recordExchange(conversationId, query, answer, sources);
+
+      const relatedQuestions = await this.suggestQuestions(query, searchResults);
+      yield { type: 'related', relatedQuestions };
+
+      yield { type: 'done', conversationId, provider: generation.provider, usage: scope.usage };
+
+    } catch (error) {
+      // Not an error in the service, as in processQuery; the client is told why instead
+      if (error instanceof BudgetExceededError) {
+        yield { type: 'error', code: 'budget_exceeded', message: error.message };
+        return;
+      }
+      console.error('Query streaming failed:', error);
+      yield { type: 'error', message: this.errorMessage(language) };
+    }
+  }
+
+  // Related questions are optional: when no provider can generate them (failures, exhausted
+  // budget) the answer goes out without them
+  private async suggestQuestions(query: string, searchResults: SearchResult[]): Promise<string[]> {
+    try {
+      return await this.llmService.generateRelatedQuestions(query, searchResults);
+    } catch (error) {
+      console.warn(`⚠️  Skipping related questions: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
+  }
+
+  private startConversation(conversationId?: string): string {
+    const id = conversationId || uuidv4();
+    if (!this.conversationManager.getConversation(id)) {
+      this.conversationManager.createConversation(id);
+    }
+    return id;
+  }
+
+  private async prepareAnswer(request: QueryRequest, conversationId: string): Promise<{
+    searchResults: SearchResult[];
+    context: SearchResult[];
+    conversationHistory: ConversationMessage[];
+  }> {
+    const { query, filters, mode, rerank, mmrLambda, maxPerDocument } = request;
+
+    const searchOptions: SearchOptions = {
+      limit: 10,
+      threshold: 0.3,
+      filters,
+      mode,
+      mmrLambda,
+      maxPerDocument
+    };
+
+    const searchResults = await this.retrieve(query, searchOptions, rerank);
+
+    const conversationHistory = this.conversationManager.getConversationHistory(
+      conversationId,
+      6
+    );
+
+    const context = await this.expandNeighbours(searchResults, this.neighbourChunks);
+
+    return { searchResults, context, conversationHistory };
+  }
+
+  private recordExchange(conversationId: string, query: string, answer: string, sources: SourceCitation[]): void {
+    const userMessage: ConversationMessage = {
+      role: 'user',
+      content: query,
+      timestamp: new Date()
+    };
+
+    const assistantMessage: ConversationMessage = {
+      role: 'assistant',
+      content: answer,
+      sources,
+      timestamp: new Date()
+    };
+
+    this.conversationManager.addMessage(conversationId, userMessage);
+    this.conversationManager.addMessage(conversationId, assistantMessage);
+  }
+
+  private errorMessage(language: 'ja' | 'en'): string {
+    return language === 'en'
+      ? 'I apologize, but I encountered an error while processing your query. Please try again.'
+      : '申し訳ございませんが、クエリの処理中にエラーが発生しました。もう一度お試しください。';
+  }
+
+  async searchDocuments(
+    query: string,
+    options: SearchOptions = {},
+    rerank?: RerankOptions
+  ): Promise<SearchResult[]> {
+    return await this.retrieve(query, options, rerank);
+  }
+
+  // Articles cited by name (「民法709条」) are pinned ahead of the semantic results unless
+  // the request's filters exclude them.
+  // With reranking on, more candidates are retrieved and only the best topK are kept.
+  // Overlapping chunks of one provision are merged so each is cited once.
+  private async retrieve(
+    query: string,
+    options: SearchOptions,
+    rerankOptions?: RerankOptions
+  ): Promise<SearchResult[]> {
+    const limit = options.limit ?? 10;
+    const rerank = this.reranking?.resolve(rerankOptions, limit);
+    
+    const [pinnedResults, retrievedResults] = await Promise.all([
+      this.findCitedArticles(query, options.filters),
+      this.vectorStore.search(query, rerank ? { ...options, limit: rerank.candidates } : options)
+    ]);
+    
+    const semanticResults = rerank && this.reranking
+      ? await this.reranking.rerank(query, retrievedResults, rerank)
+      : retrievedResults;
+    
+    if (pinnedResults.length === 0) {
+      return mergeAdjacentChunks(semanticResults);
+    }
+    
+    const pinnedIds = new Set(pinnedResults.map(result => result.chunk.id));
+    const remaining = Math.max((rerank?.topK ?? limit) - pinnedResults.length, 0);
+    
+    return mergeAdjacentChunks([
+      ...pinnedResults,
+      ...semanticResults.filter(result => !pinnedIds.has(result.chunk.id)).slice(0, remaining)
+    ]);
+  }
+
+  // Loads chunkIndex ± radius around each hit so the LLM sees the surrounding text, such as
+  // the opening of an article that defines the subject of a later paragraph. Hits whose
+  // windows overlap share one excerpt; sources shown to users keep the original chunks.
+  private async expandNeighbours(results: SearchResult[], radius: number): Promise<SearchResult[]> {
+    if (radius <= 0) {
+      return results;
+    }
+    
+    const windows: Array<{ result: SearchResult; start: number; end: number }> = [];
+    
+    for (const result of results) {
+      const { documentPath, chunkIndex } = result.chunk;
+      const start = Math.max(chunkIndex - radius, 0);
+      const end = chunkIndex + radius;
+      const window = windows.find(existing =>
+        existing.result.chunk.documentPath === documentPath && start <= existing.end + 1 && existing.start <= end + 1
+      );
+      
+      if (window) {
+        window.start = Math.min(window.start, start);
+        window.end = Math.max(window.end, end);
+      } else {
+        windows.push({ result, start, end });
+      }
+    }
+    
+    return Promise.all(windows.map(async ({ result, start, end }) => {
+      try {
+        const chunks = await this.vectorStore.getChunksByRange(result.chunk.documentPath, start, end);
+        if (chunks.length === 0) {
+          return result;
+        }
+        
+        return {
+          ...result,
+          chunk: {
+            ...result.chunk,
+            content: joinChunkContents(chunks),
+            startPosition: chunks[0]!.startPosition,
+            endPosition: Math.max(...chunks.map(chunk => chunk.endPosition))
+          }
+        };
+      } catch (error) {
+        console.warn(`Neighbour expansion failed for ${result.chunk.documentPath}:`, error);
+        return result;
+      }
+    }));
+  }
+
+  private async findCitedArticles(query: string, filters?: MetadataFilter): Promise<SearchResult[]> {
+    const results: SearchResult[] = [];
+    
+    for (const citation of this.citations.recognize(query)) {
+      try {
+        const chunks = await this.lookupArticle(citation);
+        
+        results.push(...chunks.filter(chunk => !filters || matchesFilter(chunk, filters)).map(chunk => ({
+          chunk,
+          score: 1,
+          highlights: [chunk.content]
+        })));
+      } catch (error) {
+        console.warn(`Article lookup failed for ${citation.text}:`, error);
+      }
+    }
+    
+    return results;
+  }
+
+  private async lookupArticle(citation: ArticleCitation): Promise<DocumentChunk[]> {
+    // 附則 restart numbering at 第一条, so citations resolve against the 本則 only
+    let chunks = await this.vectorStore.getChunks({
+      title: citation.lawName,
+      articleKey: citation.articleKey,
+      provisionType: 'main'
+    });
+    
+    if (chunks.length === 0) {
+      // Titles may carry qualifiers (「民法（明治二十九年法律第八十九号）」), so match loosely
+      const candidates = await this.vectorStore.getChunks({
+        articleKey: citation.articleKey,
+        provisionType: 'main'
+      }, 500);
+      const matching = candidates.filter(chunk =>
+        chunk.title.startsWith(citation.lawName) || citation.lawName.endsWith(chunk.title)
+      );
+      const bestPath = matching
+        .sort((a, b) => a.title.length - b.title.length)[0]?.documentPath;
+      
+      chunks = matching.filter(chunk => chunk.documentPath === bestPath);
+    }
+    
+    if (citation.paragraphNumber !== undefined) {
+      const paragraphChunks = chunks.filter(chunk => chunk.paragraphNumber === citation.paragraphNumber);
+      if (paragraphChunks.length > 0) {
+        return paragraphChunks;
+      }
+    }
+    
+    // Several revisions of the same law may be indexed; keep the first document only
+    const documentPath = chunks[0]?.documentPath;
+    return chunks.filter(chunk => chunk.documentPath === documentPath);
   }
 
   getConversationHistory(conversationId: string): ConversationMessage[] {
@@ -143,7 +406,8 @@ export class QueryProcessor {
 export const createQueryProcessor = (
   vectorStore: VectorStore,
   llmService: LLMProvider,
-  conversationManager: ConversationManager
+  conversationManager: ConversationManager,
+  options?: QueryProcessorOptions
 ): QueryProcessor => {
-  return new QueryProcessor(vectorStore, llmService, conversationManager);
+  return new QueryProcessor(vectorStore, llmService, conversationManager, citationRecognizer, options);
 };
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { RerankOptions, RerankerName, SearchResult } from '../types';
+import { LLMProvider } from './llm-service';
+import { tokenize } from './keyword-index';
+
+const RERANKERS: RerankerName[] = ['lexical', 'llm'];
+const DEFAULT_CANDIDATES = 50;
+const MAX_CANDIDATES = 200;
+
+// Passages per LLM call; keeps prompts well inside the context window
+const LLM_BATCH_SIZE = 10;
+
+export interface Reranker {
+  // One relevance score in [0, 1] per result, in input order; undefined where none could be given
+  score(query: string, results: SearchResult[]): Promise<Array<number | undefined>>;
+}
+
+export class InvalidRerankOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRerankOptionsError';
+  }
+}
+
+// Blends the retrieval score with the share of query bigrams found in the chunk.
+// Cheap enough to run on every query and needs no external calls.
+export class LexicalReranker implements Reranker {
+  constructor(private retrievalWeight: number = 0.5) {}
+
+  async score(query: string, results: SearchResult[]): Promise<number[]> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+
+    return results.map(result => {
+      if (queryTerms.length === 0) return result.score;
+
+      const terms = new Set(tokenize(`${result.chunk.title} ${result.chunk.content}`));
+      const coverage = queryTerms.filter(term => terms.has(term)).length / queryTerms.length;
+
+      return this.retrievalWeight * result.score + (1 - this.retrievalWeight) * coverage;
+    });
+  }
+}
+
+// Asks the configured LLM to rate each passage from 0 to 10 in a short scoring call.
+// Batches that cannot be rated stay unscored rather than failing the query.
+export class LLMReranker implements Reranker {
+  constructor(private llmService: LLMProvider, private batchSize: number = LLM_BATCH_SIZE) {}
+
+  async score(query: string, results: SearchResult[]): Promise<Array<number | undefined>> {
+    const scores: Array<number | undefined> = [];
+
+    for (let i = 0; i < results.length; i += this.batchSize) {
+      scores.push(...await this.scoreBatch(query, results.slice(i, i + this.batchSize)));
+    }
+
+    return scores;
+  }
+
+  private async scoreBatch(query: string, batch: SearchResult[]): Promise<Array<number | undefined>> {
+    try {
+      const ratings = await this.llmService.rateRelevance(query, batch);
+      return ratings.map(rating => Math.min(Math.max(rating, 0), 10) / 10);
+    } catch (error) {
+      console.warn('⚠️  LLM reranking failed; leaving the batch unscored:', error);
+      return batch.map(() => undefined);
+    }
+  }
+}
+
+const toPositiveInteger = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < 1) {
+    throw new InvalidRerankOptionsError(`"rerank.${field}" must be a positive integer`);
+  }
+  return number;
+};
+
+// Accepts true / false, a reranker name ('lexical', 'llm', 'none') or
+// { enabled, reranker, candidates, topK }; query string values arrive as strings.
+export const parseRerankOptions = (raw: unknown): RerankOptions | undefined => {
+  if (raw === undefined || raw === null || raw === '') {
+    return undefined;
+  }
+  if (raw === true || raw === 'true') {
+    return { enabled: true };
+  }
+  if (raw === false || raw === 'false' || raw === 'none') {
+    return { enabled: false };
+  }
+  if (typeof raw === 'string') {
+    return parseRerankOptions({ enabled: true, reranker: raw });
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new InvalidRerankOptionsError('"rerank" must be a boolean, a reranker name or an object');
+  }
+
+  const { enabled, reranker, candidates, topK } = raw as Record<string, unknown>;
+  const options: RerankOptions = {};
+
+  if (enabled !== undefined) {
+    if (![true, false, 'true', 'false'].includes(enabled as boolean | string)) {
+      throw new InvalidRerankOptionsError('"rerank.enabled" must be a boolean');
+    }
+    options.enabled = enabled === true || enabled === 'true';
+  }
+  if (reranker !== undefined) {
+    if (!RERANKERS.includes(reranker as RerankerName)) {
+      throw new InvalidRerankOptionsError(`"rerank.reranker" must be one of: ${RERANKERS.join(', ')}`);
+    }
+    options.reranker = reranker as RerankerName;
+  }
+  options.candidates = toPositiveInteger(candidates, 'candidates');
+  options.topK = toPositiveInteger(topK, 'topK');
+
+  return options;
+};
+
+// Rescoring stage between retrieval and generation: over-fetch candidates,
+// rescore them with the chosen reranker and keep the best topK.
+export class RerankService {
+  constructor(
+    private rerankers: Record<RerankerName, Reranker>,
+    private defaults: RerankOptions = {}
+  ) {}
+
+  // Request options override the server defaults; naming a reranker turns reranking on.
+  // Returns undefined when reranking is off for this request.
+  resolve(options: RerankOptions = {}, limit: number = 10): Required<RerankOptions> | undefined {
+    const enabled = options.enabled ?? (options.reranker !== undefined || (this.defaults.enabled ?? false));
+    if (!enabled) return undefined;
+
+    const topK = options.topK ?? limit;
+
+    return {
+      enabled,
+      reranker: options.reranker ?? this.defaults.reranker ?? 'lexical',
+      candidates: Math.min(Math.max(options.candidates ?? this.defaults.candidates ?? DEFAULT_CANDIDATES, topK), MAX_CANDIDATES),
+      topK
+    };
+  }
+
+  // Results the reranker could not score are ordered by their retrieval score and keep
+  // rerankScore unset
+  async rerank(query: string, results: SearchResult[], options: Required<RerankOptions>): Promise<SearchResult[]> {
+    if (results.length === 0) return results;
+
+    const scores = await this.rerankers[options.reranker].score(query, results);
+
+    return results
+      .map((result, index) => ({
+        ...result,
+        score: scores[index] ?? result.score,
+        originalScore: result.score,
+        rerankScore: scores[index]
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.topK);
+  }
+}
+
+export const createRerankService = (llmService: LLMProvider, defaults?: RerankOptions): RerankService => {
+  return new RerankService({
+    lexical: new LexicalReranker(),
+    llm: new LLMReranker(llmService)
+  }, defaults);
+};
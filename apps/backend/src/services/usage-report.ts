@@ -0,0 +1,113 @@
+import { AIProvider, CostTracker } from '../types/vertex-ai';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;             // USD
+  estimatedCalls: number;   // calls whose tokens were estimated because the provider reported none
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  total: UsageTotals;
+  byDay: Record<string, UsageTotals>;          // UTC date, e.g. 2026-10-19
+  byProvider: Partial<Record<AIProvider, UsageTotals>>;
+  byOperation: Partial<Record<CostTracker['operation'], UsageTotals>>;
+  byModel: Record<string, UsageTotals>;
+  byConversation: Record<string, UsageTotals>; // only calls made while answering a search
+}
+
+// What the report needs from AIServiceFactory
+export interface UsageSource {
+  getCostRecords(from?: Date, to?: Date): Promise<CostTracker[]>;
+}
+
+const CSV_COLUMNS = [
+  'timestamp', 'provider', 'operation', 'model', 'conversationId', 'inputTokens', 'outputTokens', 'cost', 'estimated'
+] as const;
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, estimatedCalls: 0 });
+
+const addRecord = (totals: UsageTotals, record: CostTracker): void => {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens ?? 0;
+  totals.cost += record.cost;
+  if (record.estimated) totals.estimatedCalls++;
+};
+
+const addTo = (group: Record<string, UsageTotals>, key: string, record: CostTracker): void => {
+  const totals = group[key] ?? (group[key] = emptyTotals());
+  addRecord(totals, record);
+};
+
+// Quoted when needed; conversation IDs come from clients, so a leading =, +, - or @ is
+// escaped to keep spreadsheets from running it as a formula
+const csvField = (value: string | number | boolean | undefined): string => {
+  if (value === undefined) return '';
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Spend over a period from the persisted cost records, broken down for the admin usage API
+export class UsageReportService {
+  constructor(private source: UsageSource) {}
+
+  async getReport(from: Date, to: Date): Promise<UsageReport> {
+    const records = await this.source.getCostRecords(from, to);
+
+    const report: UsageReport = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      total: emptyTotals(),
+      byDay: {},
+      byProvider: {},
+      byOperation: {},
+      byModel: {},
+      byConversation: {}
+    };
+
+    for (const record of records) {
+      addRecord(report.total, record);
+      addTo(report.byDay, record.timestamp.toISOString().slice(0, 10), record);
+      addTo(report.byProvider, record.provider, record);
+      addTo(report.byOperation, record.operation, record);
+      addTo(report.byModel, record.model || 'unknown', record);
+      if (record.conversationId) {
+        addTo(report.byConversation, record.conversationId, record);
+      }
+    }
+
+    return report;
+  }
+
+  // One row per billed call, oldest first
+  async exportCsv(from: Date, to: Date): Promise<string> {
+    const records = await this.source.getCostRecords(from, to);
+    const rows = [...records]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(record => [
+        record.timestamp.toISOString(),
+        record.provider,
+        record.operation,
+        record.model,
+        record.conversationId,
+        record.inputTokens,
+        record.outputTokens ?? 0,
+        record.cost.toFixed(8),  // USD; avoids 3.6e-7 style values
+        record.estimated ?? false
+      ].map(csvField).join(','));
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+}
+
+export const createUsageReportService = (source: UsageSource): UsageReportService => {
+  return new UsageReportService(source);
+};
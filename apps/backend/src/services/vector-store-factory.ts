@@ -0,0 +1,100 @@
+import { EmbeddingService, SearchMode, VectorStore } from '../types';
+import { createVectorStore } from './vector-store';
+import { createLocalVectorStore } from './local-vector-store';
+import { createHybridVectorStore } from './hybrid-search';
+import { AliasedVectorStore, CollectionAliasRegistry, collectionFilePath } from './collection-aliases';
+
+export type VectorStoreType = 'local' | 'chroma';
+
+const VECTOR_STORE_TYPES: VectorStoreType[] = ['local', 'chroma'];
+
+// Creates the store named by VECTOR_STORE (default: chroma). The local store needs no server
+// and keeps its snapshot at LOCAL_VECTOR_STORE_PATH unless a path is given.
+export const createVectorStoreFromEnv = async (
+  embeddingService: EmbeddingService,
+  options?: {
+    collectionName?: string;
+    localIndexPath?: string;
+    embeddingModel?: string;   // recorded with the store; a store built with another model is refused
+  }
+): Promise<VectorStore> => {
+  const type = (process.env.VECTOR_STORE || 'chroma') as VectorStoreType;
+  if (!VECTOR_STORE_TYPES.includes(type)) {
+    throw new Error(`Unknown VECTOR_STORE "${type}". Use one of: ${VECTOR_STORE_TYPES.join(', ')}`);
+  }
+
+  const supplementaryWeight = process.env.SUPPLEMENTARY_PROVISION_WEIGHT
+    ? parseFloat(process.env.SUPPLEMENTARY_PROVISION_WEIGHT)
+    : undefined;
+
+  if (type === 'local') {
+    return createLocalVectorStore(embeddingService, {
+      indexPath: options?.localIndexPath || process.env.LOCAL_VECTOR_STORE_PATH,
+      supplementaryWeight,
+      embeddingModel: options?.embeddingModel
+    });
+  }
+
+  return createVectorStore(embeddingService, {
+    host: process.env.CHROMA_HOST || 'localhost',
+    port: parseInt(process.env.CHROMA_PORT || '8000'),
+    collectionName: options?.collectionName || 'japanese-law-documents',
+    supplementaryWeight,
+    embeddingModel: options?.embeddingModel
+  });
+};
+
+export const createCollectionAliasRegistry = (): CollectionAliasRegistry => {
+  return new CollectionAliasRegistry(process.env.COLLECTION_ALIASES_PATH || './index-data/collection-aliases.json');
+};
+
+// Vector store plus BM25 keyword index for one collection, each collection with its own files
+export const createCollectionStoreFromEnv = async (
+  embeddingService: EmbeddingService,
+  collection: string,
+  options?: {
+    alias?: string;
+    localIndexPath?: string;
+    keywordIndexPath?: string;
+    embeddingModel?: string;
+    defaultMode?: SearchMode;
+  }
+): Promise<VectorStore> => {
+  const alias = options?.alias || 'japanese-law-documents';
+  const localIndexPath = options?.localIndexPath || process.env.LOCAL_VECTOR_STORE_PATH || './index-data/vectors.json';
+  const keywordIndexPath = options?.keywordIndexPath || process.env.KEYWORD_INDEX_PATH || './index-data/keyword-index.json';
+
+  const vectorStore = await createVectorStoreFromEnv(embeddingService, {
+    collectionName: collection,
+    localIndexPath: collectionFilePath(localIndexPath, collection, alias),
+    embeddingModel: options?.embeddingModel
+  });
+  return createHybridVectorStore(vectorStore, {
+    indexPath: collectionFilePath(keywordIndexPath, collection, alias),
+    defaultMode: options?.defaultMode
+  });
+};
+
+// The collection store an alias currently points to (the alias itself when unregistered),
+// following later switches every refreshIntervalMs
+export const createAliasedVectorStoreFromEnv = async (
+  embeddingService: EmbeddingService,
+  options?: {
+    alias?: string;
+    localIndexPath?: string;
+    keywordIndexPath?: string;
+    embeddingModel?: string;
+    defaultMode?: SearchMode;
+    refreshIntervalMs?: number;
+  }
+): Promise<AliasedVectorStore> => {
+  const alias = options?.alias || 'japanese-law-documents';
+  const store = new AliasedVectorStore(
+    createCollectionAliasRegistry(),
+    alias,
+    collection => createCollectionStoreFromEnv(embeddingService, collection, { ...options, alias }),
+    { embeddingModel: options?.embeddingModel, refreshIntervalMs: options?.refreshIntervalMs }
+  );
+  await store.refresh();
+  return store;
+};
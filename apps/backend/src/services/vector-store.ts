@@ -1,19 +1,83 @@
-import { ChromaClient, Collection } from 'chromadb';
-import { VectorStore, EmbeddingService } from '../types';
-import { DocumentChunk, SearchResult, SearchOptions } from '../types';
+import { ChromaClient, Collection, IEmbeddingFunction, IncludeEnum, QueryRecordsParams, Where } from 'chromadb';
+import { VectorStore, EmbeddingService, ChunkLookup, ChunkStoreError, EmbeddingProfile } from '../types';
+import { DocumentChunk, FilterValue, MetadataFilter, ProvisionType, SearchResult, SearchOptions } from '../types';
+import { normalizeArticleKey } from '../utils/article-number';
+import { toDateValue } from '../utils/metadata-filter';
+import { DIVERSITY_CANDIDATE_FACTOR, diversifyResults, isDiversityRequested } from '../utils/search-diversity';
+import { assertSameDimension, assertSameModel } from '../utils/embedding-profile';
+
+// Chroma metadata values must be scalars, so heading paths are stored joined
+const HEADING_PATH_SEPARATOR = ' > ';
+
+// MetadataFilter fields and the Chroma metadata keys they are matched against
+const FILTER_FIELDS: Array<[
+  'category' | 'lawNumber' | 'era' | 'lawType' | 'articleNumber' | 'provisionType',
+  string
+]> = [
+  ['category', 'category'],
+  ['lawNumber', 'lawNumber'],
+  ['era', 'era'],
+  ['lawType', 'lawType'],
+  ['articleNumber', 'articleKey'],
+  ['provisionType', 'provisionType']
+];
+
+// 'x' → 'x', ['x', 'y'] → { $in: [...] }, { $ne: 'x' } and { $nin: [...] } pass through
+const toOperatorExpression = (
+  value: FilterValue,
+  normalize: (item: string) => string
+): string | { $in: string[] } | { $ne: string } | { $nin: string[] } => {
+  if (typeof value === 'string') {
+    return normalize(value);
+  }
+  if (Array.isArray(value) || '$in' in value) {
+    const items = (Array.isArray(value) ? value : value.$in).map(normalize);
+    return items.length === 1 ? items[0]! : { $in: items };
+  }
+  if ('$ne' in value) {
+    return { $ne: normalize(value.$ne) };
+  }
+  return { $nin: value.$nin.map(normalize) };
+};
+
+// Chroma accepts a single field (and a single operator) per where object, and $and / $or
+// need at least two operands
+const combineConditions = (conditions: Where[], operator: '$and' | '$or'): Where | undefined => {
+  if (conditions.length === 0) {
+    return undefined;
+  }
+  return conditions.length === 1 ? conditions[0] : { [operator]: conditions };
+};
+
+// 附則 mostly hold transitional measures, so they rank below 本則 unless explicitly requested
+const DEFAULT_SUPPLEMENTARY_WEIGHT = 0.85;
 
 export class ChromaVectorStore implements VectorStore {
   private client: ChromaClient;
   private collection: Collection | null = null;
   private embeddingService: EmbeddingService;
   private collectionName: string;
+  private supplementaryWeight: number;
+  private embeddingModel?: string;
+  private profile: EmbeddingProfile = {};
+  // Every write passes its own embeddings; this only serves a call that sends bare documents,
+  // so it never falls back to Chroma's default model
+  private embeddingFunction: IEmbeddingFunction;
 
   constructor(embeddingService: EmbeddingService, options?: {
     host?: string;
     port?: number;
     collectionName?: string;
+    supplementaryWeight?: number;
+    embeddingModel?: string;
   }) {
-    const { host = 'localhost', port = 8000, collectionName = 'japanese-law-documents' } = options || {};
+    const {
+      host = 'localhost',
+      port = 8000,
+      collectionName = 'japanese-law-documents',
+      supplementaryWeight = DEFAULT_SUPPLEMENTARY_WEIGHT,
+      embeddingModel
+    } = options || {};
     
     console.log(`🔗 Connecting to ChromaDB at http://${host}:${port}`);
     
@@ -21,29 +85,89 @@ export class ChromaVectorStore implements VectorStore {
       path: `http://${host}:${port}`
     });
     this.embeddingService = embeddingService;
+    this.embeddingFunction = { generate: texts => this.embeddingService.generateEmbeddings(texts) };
     this.collectionName = collectionName;
+    this.supplementaryWeight = supplementaryWeight;
+    this.embeddingModel = embeddingModel;
     
     console.log(`✅ ChromaDB client initialized for collection: ${collectionName}`);
   }
 
+  // Every read and write goes through here, so a collection built with another embedding
+  // model is refused before anything is written to or compared with it
   private async getCollection(): Promise<Collection> {
     if (!this.collection) {
+      let collection: Collection;
       try {
-        this.collection = await this.client.getCollection({
-          name: this.collectionName
-        } as any);
+        collection = await this.client.getCollection({
+          name: this.collectionName,
+          embeddingFunction: this.embeddingFunction
+        });
       } catch (error) {
-        this.collection = await this.client.createCollection({
+        collection = await this.client.createCollection({
           name: this.collectionName,
           metadata: {
-            description: 'Japanese legal document embeddings for semantic search'
-          }
-        } as any);
+            description: 'Japanese legal document embeddings for semantic search',
+            ...(this.embeddingModel ? { embeddingModel: this.embeddingModel } : {})
+          },
+          embeddingFunction: this.embeddingFunction
+        });
+      }
+
+      const metadata = collection.metadata || {};
+      this.profile = {
+        model: typeof metadata.embeddingModel === 'string' ? metadata.embeddingModel : undefined,
+        dimension: typeof metadata.embeddingDimension === 'number' ? metadata.embeddingDimension : undefined
+      };
+      assertSameModel(`Collection "${this.collectionName}"`, this.profile, this.embeddingModel);
+
+      this.collection = collection;
+      if (!this.profile.model && this.embeddingModel) {
+        await this.adoptEmbeddingModel(collection);
       }
     }
     return this.collection;
   }
 
+  // Collections created before models were recorded: an empty one is claimed for the configured
+  // model; a filled one cannot be verified, so it is trusted with a warning
+  private async adoptEmbeddingModel(collection: Collection): Promise<void> {
+    if (await collection.count() > 0) {
+      console.warn(`⚠️  Collection "${this.collectionName}" does not record its embedding model; assuming ${this.embeddingModel}`);
+      return;
+    }
+    await this.recordProfile(collection, { model: this.embeddingModel });
+  }
+
+  private async recordProfile(collection: Collection, profile: EmbeddingProfile): Promise<void> {
+    this.profile = { ...this.profile, ...profile };
+
+    // hnsw:* settings cannot be changed after creation, so they are not sent back
+    const metadata = Object.fromEntries(
+      Object.entries(collection.metadata || {}).filter(([key]) => !key.startsWith('hnsw:'))
+    );
+    await collection.modify({
+      metadata: {
+        ...metadata,
+        ...(this.profile.model ? { embeddingModel: this.profile.model } : {}),
+        ...(this.profile.dimension !== undefined ? { embeddingDimension: this.profile.dimension } : {})
+      }
+    });
+  }
+
+  // The first write fixes the collection's dimension
+  private async checkDimension(collection: Collection, dimension: number, writing: boolean): Promise<void> {
+    assertSameDimension(`Collection "${this.collectionName}"`, this.profile, dimension);
+    if (writing && this.profile.dimension === undefined) {
+      await this.recordProfile(collection, { dimension });
+    }
+  }
+
+  async getEmbeddingProfile(): Promise<EmbeddingProfile> {
+    await this.getCollection();
+    return { ...this.profile };
+  }
+
   async addEmbeddings(chunks: DocumentChunk[]): Promise<void> {
     if (chunks.length === 0) return;
 
@@ -51,24 +175,14 @@ export class ChromaVectorStore implements VectorStore {
     
     // Process in optimized batches to balance speed and payload limits
     const chromaBatchSize = 100; // Optimized batch size for ChromaDB
+    const failures: ChunkStoreError['failures'] = [];
     
     for (let i = 0; i < chunks.length; i += chromaBatchSize) {
       const batchChunks = chunks.slice(i, i + chromaBatchSize);
       
       const ids = batchChunks.map(chunk => chunk.id);
       const documents = batchChunks.map(chunk => chunk.content);
-      const metadatas = batchChunks.map(chunk => ({
-        documentPath: chunk.documentPath,
-        title: chunk.title,
-        chunkIndex: chunk.chunkIndex,
-        startPosition: chunk.startPosition,
-        endPosition: chunk.endPosition,
-        category: chunk.metadata.category,
-        lawNumber: chunk.metadata.lawNumber || '',
-        fileName: chunk.metadata.fileName,
-        date: chunk.metadata.date?.toISOString() || '',
-        era: chunk.metadata.era || ''
-      }));
+      const metadatas = batchChunks.map(chunk => this.toMetadata(chunk));
 
       let embeddings: number[][];
       
@@ -78,6 +192,11 @@ export class ChromaVectorStore implements VectorStore {
         embeddings = await this.embeddingService.generateEmbeddings(documents);
       }
 
+      const dimension = embeddings.find(embedding => embedding.length > 0)?.length;
+      if (dimension !== undefined) {
+        await this.checkDimension(collection, dimension, true);
+      }
+
       try {
         await collection.add({
           ids,
@@ -109,10 +228,16 @@ export class ChromaVectorStore implements VectorStore {
             });
           } catch (individualError) {
             console.error(`Failed to add individual chunk ${chunk.id}:`, individualError);
+            failures.push({ chunkId: chunk.id, error: individualError });
           }
         }
       }
     }
+    
+    // Reported after the other batches are stored, so callers can tell which documents are incomplete
+    if (failures.length > 0) {
+      throw new ChunkStoreError(failures);
+    }
   }
 
   async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
@@ -123,33 +248,30 @@ export class ChromaVectorStore implements VectorStore {
   async searchByEmbedding(embedding: number[], options: SearchOptions = {}): Promise<SearchResult[]> {
     const collection = await this.getCollection();
     const { limit = 10, threshold = 0.0, filters } = options;
+    await this.checkDimension(collection, embedding.length, false);
 
-    let whereClause: Record<string, unknown> = {};
-    
-    if (filters) {
-      if (filters.category) {
-        whereClause.category = filters.category;
-      }
-      if (filters.lawNumber) {
-        whereClause.lawNumber = filters.lawNumber;
-      }
-      if (filters.era) {
-        whereClause.era = filters.era;
-      }
-    }
+    // Fetch extra candidates so 本則 pushed down by nearby 附則 can still make the cut,
+    // and so diversification has distinct chunks to choose from
+    const weightSupplementary = !filters?.provisionType && this.supplementaryWeight !== 1;
+    const diversify = isDiversityRequested(options);
 
-    const queryParams: any = {
+    const queryParams: QueryRecordsParams = {
       queryEmbeddings: [embedding],
-      nResults: limit
+      nResults: limit * (weightSupplementary ? 2 : 1) * (diversify ? DIVERSITY_CANDIDATE_FACTOR : 1)
     };
+    if (diversify && options.mmrLambda !== undefined) {
+      queryParams.include = [IncludeEnum.Documents, IncludeEnum.Metadatas, IncludeEnum.Distances, IncludeEnum.Embeddings];
+    }
     
-    if (Object.keys(whereClause).length > 0) {
-      queryParams.where = whereClause;
+    const where = filters ? this.buildFilterWhere(filters) : undefined;
+    if (where) {
+      queryParams.where = where;
     }
 
     const results = await collection.query(queryParams);
 
     const searchResults: SearchResult[] = [];
+    const embeddings = new Map<string, number[]>();
 
     if (results.ids && results.distances && results.documents && results.metadatas) {
       for (let i = 0; i < results.ids[0]!.length; i++) {
@@ -161,35 +283,215 @@ export class ChromaVectorStore implements VectorStore {
         const similarity = 1 - distance;
         
         if (similarity >= threshold) {
-          const chunk: DocumentChunk = {
-            id,
-            documentPath: metadata.documentPath as string,
-            title: metadata.title as string,
-            content: document,
-            metadata: {
-              category: metadata.category as string,
-              lawNumber: metadata.lawNumber as string || undefined,
-              fileName: metadata.fileName as string,
-              filePath: metadata.documentPath as string,
-              date: metadata.date ? new Date(metadata.date as string) : undefined,
-              era: metadata.era as string || undefined,
-              lastModified: new Date()
-            },
-            chunkIndex: metadata.chunkIndex as number,
-            startPosition: metadata.startPosition as number,
-            endPosition: metadata.endPosition as number
-          };
+          const chunk = this.toChunk(id, document, metadata);
+          const weight = weightSupplementary && chunk.provisionType === 'supplementary'
+            ? this.supplementaryWeight
+            : 1;
 
           searchResults.push({
             chunk,
-            score: similarity,
+            score: similarity * weight,
             highlights: this.extractHighlights(document, 100)
           });
+
+          const chunkEmbedding = results.embeddings?.[0]?.[i];
+          if (chunkEmbedding) {
+            embeddings.set(id, chunkEmbedding);
+          }
         }
       }
     }
 
-    return searchResults.sort((a, b) => b.score - a.score);
+    if (diversify) {
+      return diversifyResults(searchResults, { ...options, limit }, embeddings);
+    }
+
+    return searchResults.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async getChunks(lookup: ChunkLookup, limit: number = 100): Promise<DocumentChunk[]> {
+    const where = this.buildWhere(lookup);
+    
+    if (!where) {
+      return [];
+    }
+    
+    return this.getChunksWhere(where, limit);
+  }
+
+  async getChunksByRange(documentPath: string, startIndex: number, endIndex: number): Promise<DocumentChunk[]> {
+    if (endIndex < startIndex) {
+      return [];
+    }
+    
+    return this.getChunksWhere({
+      $and: [
+        { documentPath },
+        { chunkIndex: { $gte: startIndex } },
+        { chunkIndex: { $lte: endIndex } }
+      ]
+    }, endIndex - startIndex + 1);
+  }
+
+  async getDocumentChunkIds(documentPath: string): Promise<string[]> {
+    const collection = await this.getCollection();
+    
+    const results = await collection.get({
+      where: { documentPath },
+      include: []
+    });
+    
+    return results.ids;
+  }
+
+  async getEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    if (chunkIds.length === 0) {
+      return embeddings;
+    }
+    
+    const collection = await this.getCollection();
+    const results = await collection.get({
+      ids: chunkIds,
+      include: [IncludeEnum.Embeddings]
+    });
+    
+    results.ids.forEach((id, i) => {
+      const embedding = results.embeddings?.[i];
+      if (embedding) {
+        embeddings.set(id, embedding);
+      }
+    });
+    
+    return embeddings;
+  }
+
+  private async getChunksWhere(where: Where, limit: number): Promise<DocumentChunk[]> {
+    const collection = await this.getCollection();
+    
+    const results = await collection.get({
+      where,
+      limit,
+      include: [IncludeEnum.Documents, IncludeEnum.Metadatas]
+    });
+    
+    const chunks: DocumentChunk[] = [];
+    
+    for (let i = 0; i < results.ids.length; i++) {
+      const document = results.documents[i];
+      const metadata = results.metadatas[i];
+      if (document === null || document === undefined || !metadata) continue;
+      
+      chunks.push(this.toChunk(results.ids[i]!, document, metadata));
+    }
+    
+    return chunks.sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  private buildWhere(fields: object): Where | undefined {
+    const conditions = Object.entries(fields)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => ({ [key]: value }));
+    
+    return combineConditions(conditions, '$and');
+  }
+
+  // Translates a MetadataFilter into a Chroma where clause. Fields of one filter and its $and
+  // groups must all match; an $or needs one matching group.
+  private buildFilterWhere(filters: MetadataFilter): Where | undefined {
+    const conditions: Where[] = [];
+    
+    for (const [field, key] of FILTER_FIELDS) {
+      const value = filters[field];
+      if (value === undefined) continue;
+      
+      const normalize = field === 'articleNumber'
+        ? (item: string) => normalizeArticleKey(item) || item
+        : (item: string) => item;
+      conditions.push({ [key]: toOperatorExpression(value, normalize) });
+    }
+    
+    if (filters.dateRange?.start) {
+      conditions.push({ promulgationDateValue: { $gte: toDateValue(filters.dateRange.start) } });
+    }
+    if (filters.dateRange?.end) {
+      conditions.push({ promulgationDateValue: { $lte: toDateValue(filters.dateRange.end) } });
+    }
+    
+    for (const group of filters.$and || []) {
+      const where = this.buildFilterWhere(group);
+      if (where) conditions.push(where);
+    }
+    
+    const alternatives = (filters.$or || []).map(group => this.buildFilterWhere(group));
+    // An empty alternative matches everything, which makes the whole $or a no-op
+    if (alternatives.length > 0 && alternatives.every(Boolean)) {
+      conditions.push(combineConditions(alternatives as Where[], '$or')!);
+    }
+    
+    return combineConditions(conditions, '$and');
+  }
+
+  // Chroma metadata values must be scalars
+  private toMetadata(chunk: DocumentChunk): Record<string, string | number> {
+    return {
+      documentPath: chunk.documentPath,
+      title: chunk.title,
+      chunkIndex: chunk.chunkIndex,
+      startPosition: chunk.startPosition,
+      endPosition: chunk.endPosition,
+      category: chunk.metadata.category,
+      lawNumber: chunk.metadata.lawNumber || '',
+      officialLawNumber: chunk.metadata.officialLawNumber || '',
+      lawType: chunk.metadata.lawType || '',
+      fileName: chunk.metadata.fileName,
+      date: chunk.metadata.date?.toISOString() || '',
+      promulgationDate: chunk.metadata.promulgationDate?.toISOString() || '',
+      era: chunk.metadata.era || '',
+      articleNumber: chunk.articleNumber || '',
+      articleKey: chunk.articleKey || '',
+      paragraphNumber: chunk.paragraphNumber || 0,
+      headingPath: chunk.headingPath?.join(HEADING_PATH_SEPARATOR) || '',
+      provisionType: chunk.provisionType || 'main',
+      amendmentLawNumber: chunk.amendmentLawNumber || '',
+      // 公布日 as YYYYMMDD so Chroma can range-compare it; left out when unknown so undated
+      // chunks never satisfy a date range
+      ...(chunk.metadata.promulgationDate
+        ? { promulgationDateValue: toDateValue(chunk.metadata.promulgationDate) }
+        : {})
+    };
+  }
+
+  private toChunk(id: string, document: string, metadata: Record<string, unknown>): DocumentChunk {
+    return {
+      id,
+      documentPath: metadata.documentPath as string,
+      title: metadata.title as string,
+      content: document,
+      metadata: {
+        category: metadata.category as string,
+        lawNumber: metadata.lawNumber as string || undefined,
+        officialLawNumber: metadata.officialLawNumber as string || undefined,
+        lawType: metadata.lawType as string || undefined,
+        fileName: metadata.fileName as string,
+        filePath: metadata.documentPath as string,
+        date: metadata.date ? new Date(metadata.date as string) : undefined,
+        promulgationDate: metadata.promulgationDate ? new Date(metadata.promulgationDate as string) : undefined,
+        era: metadata.era as string || undefined,
+        lastModified: new Date()
+      },
+      chunkIndex: metadata.chunkIndex as number,
+      startPosition: metadata.startPosition as number,
+      endPosition: metadata.endPosition as number,
+      articleNumber: metadata.articleNumber as string || undefined,
+      articleKey: metadata.articleKey as string || undefined,
+      paragraphNumber: metadata.paragraphNumber as number || undefined,
+      headingPath: metadata.headingPath
+        ? (metadata.headingPath as string).split(HEADING_PATH_SEPARATOR)
+        : undefined,
+      provisionType: (metadata.provisionType as ProvisionType) || 'main',
+      amendmentLawNumber: metadata.amendmentLawNumber as string || undefined
+    };
   }
 
   private extractHighlights(content: string, maxLength: number = 100): string[] {
@@ -214,6 +516,7 @@ export class ChromaVectorStore implements VectorStore {
 
   async updateEmbedding(chunkId: string, embedding: number[]): Promise<void> {
     const collection = await this.getCollection();
+    await this.checkDimension(collection, embedding.length, true);
     
     await collection.update({
       ids: [chunkId],
@@ -221,6 +524,23 @@ export class ChromaVectorStore implements VectorStore {
     });
   }
 
+  async updateChunks(chunks: DocumentChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+    
+    const collection = await this.getCollection();
+    
+    // Chunk IDs are content-addressed, so the stored text is already current. Sending documents
+    // without embeddings would make the client embed them with the collection's embedding
+    // function and replace the stored vectors.
+    for (let i = 0; i < chunks.length; i += 100) {
+      const batch = chunks.slice(i, i + 100);
+      await collection.update({
+        ids: batch.map(chunk => chunk.id),
+        metadatas: batch.map(chunk => this.toMetadata(chunk))
+      });
+    }
+  }
+
   async deleteEmbeddings(chunkIds: string[]): Promise<void> {
     if (chunkIds.length === 0) return;
     
@@ -244,6 +564,8 @@ export const createVectorStore = (
     host?: string;
     port?: number;
     collectionName?: string;
+    supplementaryWeight?: number;
+    embeddingModel?: string;
   }
 ): VectorStore => {
   return new ChromaVectorStore(embeddingService, options);
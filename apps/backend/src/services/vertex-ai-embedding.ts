@@ -1,6 +1,14 @@
-import { GoogleGenAI } from '@google/genai';
+import { EmbedContentResponse, GoogleGenAI } from '@google/genai';
 import { EmbeddingService } from '../types';
-import { VertexAIConfig, VertexAIError } from '../types/vertex-ai';
+import { TokenUsage, VertexAIConfig, VertexAIError } from '../types/vertex-ai';
+
+// Vertex AI reports the token count of each input with its embedding
+const recordUsage = (response: EmbedContentResponse, usage?: TokenUsage): void => {
+  if (!usage) return;
+  for (const embedding of response.embeddings || []) {
+    usage.inputTokens += embedding.statistics?.tokenCount ?? 0;
+  }
+};
 
 export class VertexAIEmbeddingService implements EmbeddingService {
   private client: GoogleGenAI;
@@ -33,7 +41,7 @@ export class VertexAIEmbeddingService implements EmbeddingService {
     console.log(`✅ Vertex AI Embedding Service initialized (using @google/genai)`);
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, usage?: TokenUsage): Promise<number[]> {
     try {
       console.log(`🧠 Generating embedding via Vertex AI for text (length: ${text.length})`);
       
@@ -45,6 +53,7 @@ export class VertexAIEmbeddingService implements EmbeddingService {
       if (!response.embeddings || !response.embeddings[0] || !response.embeddings[0].values) {
         throw new VertexAIError('No embeddings received from Vertex AI');
       }
+      recordUsage(response, usage);
 
       const embedding = response.embeddings[0].values;
       console.log(`✅ Generated embedding via Vertex AI with ${embedding.length} dimensions`);
@@ -66,17 +75,17 @@ export class VertexAIEmbeddingService implements EmbeddingService {
     }
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], usage?: TokenUsage): Promise<number[][]> {
     try {
       if (texts.length === 0) return [];
       
       // Use native batch API if available (gemini-embedding-001 supports batch processing)
       if (this.model === 'gemini-embedding-001') {
-        return await this.generateEmbeddingsBatch(texts);
+        return await this.generateEmbeddingsBatch(texts, usage);
       }
       
       // Fallback to sequential processing for other models
-      return await this.generateEmbeddingsSequential(texts);
+      return await this.generateEmbeddingsSequential(texts, usage);
     } catch (error) {
       console.error('Failed to generate embeddings with Vertex AI:', error);
       throw new VertexAIError(
@@ -89,7 +98,7 @@ export class VertexAIEmbeddingService implements EmbeddingService {
   }
 
   // Native batch processing for gemini-embedding-001
-  private async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+  private async generateEmbeddingsBatch(texts: string[], usage?: TokenUsage): Promise<number[][]> {
     const batchSize = 50; // Optimized batch size for gemini-embedding-001
     const results: number[][] = [];
     
@@ -111,10 +120,11 @@ export class VertexAIEmbeddingService implements EmbeddingService {
           console.warn(`⚠️ Batch response mismatch: expected ${batch.length}, got ${response.embeddings?.length || 0}`);
           // Fallback to sequential processing for this batch
           const sequentialResults = await Promise.all(
-            batch.map(text => this.generateEmbedding(text).catch(() => []))
+            batch.map(text => this.generateEmbedding(text, usage).catch(() => []))
           );
           results.push(...sequentialResults.filter(emb => emb.length > 0));
         } else {
+          recordUsage(response, usage);
           const batchEmbeddings = response.embeddings.map(emb => emb.values || []);
           results.push(...batchEmbeddings);
           console.log(`✅ Batch completed: ${batchEmbeddings.length} embeddings (${batchEmbeddings[0]?.length || 0} dims)`);
@@ -129,7 +139,7 @@ export class VertexAIEmbeddingService implements EmbeddingService {
         console.warn(`⚠️ Batch processing failed for batch ${Math.floor(i/batchSize) + 1}, falling back to sequential:`, error);
         // Fallback to sequential processing for this batch
         const sequentialResults = await Promise.all(
-          batch.map(text => this.generateEmbedding(text).catch(() => []))
+          batch.map(text => this.generateEmbedding(text, usage).catch(() => []))
         );
         results.push(...sequentialResults.filter(emb => emb.length > 0));
       }
@@ -140,7 +150,7 @@ export class VertexAIEmbeddingService implements EmbeddingService {
   }
 
   // Sequential processing with concurrency control
-  private async generateEmbeddingsSequential(texts: string[]): Promise<number[][]> {
+  private async generateEmbeddingsSequential(texts: string[], usage?: TokenUsage): Promise<number[][]> {
     const concurrency = 5; // Controlled concurrency
     const results: number[][] = [];
     
@@ -151,7 +161,7 @@ export class VertexAIEmbeddingService implements EmbeddingService {
       
       const batchPromises = batch.map(async (text, index) => {
         try {
-          const embedding = await this.generateEmbedding(text);
+          const embedding = await this.generateEmbedding(text, usage);
           return { index: i + index, embedding };
         } catch (error) {
           console.warn(`Failed embedding for text ${i + index} (length: ${text.length}):`, error);
@@ -186,9 +196,9 @@ export class VertexAIEmbeddingService implements EmbeddingService {
   // Health check method for provider monitoring
   async healthCheck(): Promise<boolean> {
     try {
-      const testText = "健康チェック用のテストテキストです。";
-      const embedding = await this.generateEmbedding(testText);
-      return embedding.length > 0;
+      // A model lookup is not billed, unlike a test embedding
+      const model = await this.client.models.get({ model: this.model });
+      return !!model.name;
     } catch (error) {
       console.error('Vertex AI embedding health check failed:', error);
       return false;
@@ -1,7 +1,7 @@
-import { VertexAI } from '@google-cloud/vertexai';
+import { SchemaType, UsageMetadata, VertexAI } from '@google-cloud/vertexai';
 import { VertexAIConfig, VertexAIGenerationConfig, VertexAIError } from '../types/vertex-ai';
 import { SearchResult, ConversationMessage } from '../types';
-import { LLMProvider } from './llm-service';
+import { GenerationInfo, LLMProvider, buildRatingPrompt, formatProvision, parseRatingResponse, ratingMaxTokens } from './llm-service';
 
 export class VertexAILLMService implements LLMProvider {
   private vertexAI: VertexAI;
@@ -48,7 +48,8 @@ export class VertexAILLMService implements LLMProvider {
   async generateResponse(
     prompt: string, 
     context: SearchResult[], 
-    conversation?: ConversationMessage[]
+    conversation?: ConversationMessage[],
+    info?: GenerationInfo
   ): Promise<string> {
     try {
       const model = this.vertexAI.getGenerativeModel({
@@ -56,25 +57,12 @@ export class VertexAILLMService implements LLMProvider {
         generationConfig: this.generationConfig,
       });
 
-      const systemPrompt = this.buildSystemPrompt();
-      const contextPrompt = this.buildContextPrompt(context);
-      const conversationHistory = this.buildConversationHistory(conversation || []);
-      
-      const fullPrompt = `${systemPrompt}
-
-${contextPrompt}
-
-${conversationHistory}
-
-ユーザーの質問: ${prompt}
-
-回答:`;
-
-      const result = await model.generateContent(fullPrompt);
+      const result = await model.generateContent(this.buildFullPrompt(prompt, context, conversation));
       
       if (!result.response) {
         throw new VertexAIError('No response received from Vertex AI');
       }
+      this.recordUsage(result.response.usageMetadata, info);
 
       const responseText = result.response.candidates?.[0]?.content?.parts?.[0]?.text || 'No response text available';
       
@@ -99,7 +87,46 @@ ${conversationHistory}
     }
   }
 
-  async generateRelatedQuestions(query: string, context: SearchResult[]): Promise<string[]> {
+  async *streamResponse(
+    prompt: string,
+    context: SearchResult[],
+    conversation?: ConversationMessage[],
+    info?: GenerationInfo
+  ): AsyncIterable<string> {
+    try {
+      const model = this.vertexAI.getGenerativeModel({
+        model: this.model,
+        generationConfig: this.generationConfig,
+      });
+
+      const result = await model.generateContentStream(this.buildFullPrompt(prompt, context, conversation));
+
+      for await (const item of result.stream) {
+        const text = item.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) {
+          yield text;
+        }
+      }
+
+      // The aggregated response carries the usage of the whole stream
+      this.recordUsage((await result.response).usageMetadata, info);
+    } catch (error) {
+      console.error('Failed to stream response with Vertex AI:', error);
+
+      if (error instanceof Error) {
+        throw new VertexAIError(
+          `Vertex AI response streaming failed: ${error.message}`,
+          'GENERATION_ERROR',
+          undefined,
+          error
+        );
+      }
+
+      throw new VertexAIError('Unknown error in Vertex AI response streaming');
+    }
+  }
+
+  async generateRelatedQuestions(query: string, context: SearchResult[], info?: GenerationInfo): Promise<string[]> {
     try {
       const model = this.vertexAI.getGenerativeModel({
         model: this.model,
@@ -134,6 +161,7 @@ ${contextSummary}
       if (!result.response) {
         return [];
       }
+      this.recordUsage(result.response.usageMetadata, info);
 
       const responseText = result.response.candidates?.[0]?.content?.parts?.[0]?.text || '';
       
@@ -149,10 +177,65 @@ ${contextSummary}
       return questions;
     } catch (error) {
       console.error('Failed to generate related questions with Vertex AI:', error);
-      return []; // Return empty array on error
+
+      if (error instanceof Error) {
+        throw new VertexAIError(
+          `Vertex AI related question generation failed: ${error.message}`,
+          'GENERATION_ERROR',
+          undefined,
+          error
+        );
+      }
+
+      throw new VertexAIError('Unknown error in Vertex AI related question generation');
+    }
+  }
+
+  async rateRelevance(query: string, passages: SearchResult[], info?: GenerationInfo): Promise<number[]> {
+    const model = this.vertexAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: 0,
+        maxOutputTokens: ratingMaxTokens(passages.length),
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: SchemaType.OBJECT,
+          properties: { ratings: { type: SchemaType.ARRAY, items: { type: SchemaType.INTEGER } } },
+          required: ['ratings']
+        }
+      },
+    });
+
+    const result = await model.generateContent(buildRatingPrompt(query, passages));
+    this.recordUsage(result.response.usageMetadata, info);
+
+    return parseRatingResponse(result.response.candidates?.[0]?.content?.parts?.[0]?.text || '', passages.length);
+  }
+
+  private recordUsage(usage: UsageMetadata | undefined, info?: GenerationInfo): void {
+    if (!info) return;
+    info.model = this.model;
+    if (usage?.promptTokenCount !== undefined) {
+      info.usage = { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount ?? 0 };
     }
   }
 
+  private buildFullPrompt(prompt: string, context: SearchResult[], conversation?: ConversationMessage[]): string {
+    const systemPrompt = this.buildSystemPrompt();
+    const contextPrompt = this.buildContextPrompt(context);
+    const conversationHistory = this.buildConversationHistory(conversation || []);
+
+    return `${systemPrompt}
+
+${contextPrompt}
+
+${conversationHistory}
+
+ユーザーの質問: ${prompt}
+
+回答:`;
+  }
+
   private buildSystemPrompt(): string {
     return `あなたは日本の法律文書に特化した専門的なアシスタントです。以下のガイドラインに従って回答してください:
 
@@ -172,7 +255,7 @@ ${contextSummary}
 
     const contextText = context
       .map((result, index) => {
-        const source = `【文書${index + 1}】${result.chunk.title} (${result.chunk.documentPath})`;
+        const source = `【文書${index + 1}】${result.chunk.title} (${result.chunk.metadata.officialLawNumber || result.chunk.documentPath})${formatProvision(result)}`;
         const content = result.chunk.content;
         const relevanceScore = `関連度: ${(result.score * 100).toFixed(1)}%`;
         
@@ -212,17 +295,13 @@ ${history}
   // Health check method for provider monitoring
   async healthCheck(): Promise<boolean> {
     try {
-      const model = this.vertexAI.getGenerativeModel({
-        model: this.model,
-        generationConfig: {
-          temperature: 0,
-          maxOutputTokens: 10,
-        },
+      // countTokens reaches the model without generating anything and is not billed
+      const model = this.vertexAI.getGenerativeModel({ model: this.model });
+      const result = await model.countTokens({
+        contents: [{ role: 'user', parts: [{ text: '健康チェック' }] }]
       });
-
-      const result = await model.generateContent('健康チェック用のテストです。「OK」と回答してください。');
       
-      return !!(result.response && result.response.candidates?.[0]?.content?.parts?.[0]?.text);
+      return result.totalTokens > 0;
     } catch (error) {
       console.error('Vertex AI LLM health check failed:', error);
       return false;
@@ -0,0 +1,348 @@
+import { XMLParser } from 'fast-xml-parser';
+import { DocumentMetadata, LawStructureNode, LawStructureNodeType } from '../types';
+import { formatOfficialLawNumber, toWesternYear } from '../utils/law-number';
+
+// Separates article/paragraph/item numbers from their text, as in the e-Gov Markdown exports
+const SEPARATOR = '　';
+
+// preserveOrder output: { TagName: children, ':@': attributes } or { '#text': value }
+type XmlNode = Record<string, unknown>;
+
+export interface ParsedXmlLaw {
+  title: string;
+  fullContent: string;                  // Markdown rendering, so chunking matches .md sources
+  structure: LawStructureNode[];
+  metadata: Partial<DocumentMetadata>;
+}
+
+const ERAS: Record<string, string> = {
+  Meiji: '明治',
+  Taisho: '大正',
+  Showa: '昭和',
+  Heisei: '平成',
+  Reiwa: '令和'
+};
+
+const LAW_TYPES: Record<string, { name: string; code: string }> = {
+  Constitution: { name: '憲法', code: 'CONSTITUTION' },
+  Act: { name: '法律', code: 'AC' },
+  CabinetOrder: { name: '政令', code: 'CO' },
+  ImperialOrder: { name: '勅令', code: 'IO' },
+  MinisterialOrdinance: { name: '省令', code: 'M' },
+  Rule: { name: '規則', code: 'RJNJ' },
+  Misc: { name: 'その他', code: 'MISC' }
+};
+
+const DIVISIONS: Record<string, { nodeType: LawStructureNodeType; depth: number }> = {
+  Part: { nodeType: 'part', depth: 2 },
+  Chapter: { nodeType: 'chapter', depth: 3 },
+  Section: { nodeType: 'section', depth: 4 },
+  Subsection: { nodeType: 'subsection', depth: 5 },
+  Division: { nodeType: 'division', depth: 6 }
+};
+
+const tagOf = (node: XmlNode): string | undefined => Object.keys(node).find(key => key !== ':@');
+
+const childrenOf = (node: XmlNode): XmlNode[] => {
+  const tag = tagOf(node);
+  const children = tag ? node[tag] : undefined;
+  return Array.isArray(children) ? children as XmlNode[] : [];
+};
+
+const attributesOf = (node: XmlNode): Record<string, string> => {
+  return (node[':@'] as Record<string, string> | undefined) || {};
+};
+
+const findChild = (node: XmlNode, tag: string): XmlNode | undefined => {
+  return childrenOf(node).find(child => tagOf(child) === tag);
+};
+
+// Concatenated text content, skipping ruby readings
+const textOf = (node: XmlNode | undefined): string => {
+  if (!node) return '';
+  if ('#text' in node) return String(node['#text']);
+  if (tagOf(node) === 'Rt') return '';
+  return childrenOf(node).map(textOf).join('');
+};
+
+// Sentences laid out in Column elements (e.g. 定義 items) are joined with a full-width space
+const sentenceOf = (node: XmlNode | undefined): string => {
+  if (!node) return '';
+  const columns = childrenOf(node).filter(child => tagOf(child) === 'Column');
+  return columns.length > 0 ? columns.map(textOf).join(SEPARATOR) : textOf(node);
+};
+
+const toFullWidth = (value: string): string => {
+  return value.replace(/[0-9]/g, digit => String.fromCharCode(digit.charCodeAt(0) + 0xFEE0));
+};
+
+// Splits a chapter heading such as 第一章 総則 into label and title
+const splitHeading = (text: string): { label: string; title?: string } => {
+  const [label, ...rest] = text.trim().split(/\s+/);
+  return { label: label || text, title: rest.join(' ') || undefined };
+};
+
+class LawTextBuilder {
+  content = '';
+
+  get position(): number {
+    return this.content.length;
+  }
+
+  line(text: string): number {
+    const start = this.content.length;
+    this.content += `${text}\n`;
+    return start;
+  }
+
+  blank(): void {
+    this.content += '\n';
+  }
+}
+
+export class XmlLawParser {
+  private parser = new XMLParser({
+    preserveOrder: true,
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true
+  });
+
+  // Parses e-Gov 法令標準XML (Law > LawBody > MainProvision / SupplProvision)
+  parse(xml: string): ParsedXmlLaw {
+    const nodes = this.parser.parse(xml) as XmlNode[];
+    const law = nodes.find(node => tagOf(node) === 'Law');
+
+    if (!law) {
+      throw new Error('Not an e-Gov law XML document: <Law> element not found');
+    }
+
+    const lawBody = findChild(law, 'LawBody');
+    if (!lawBody) {
+      throw new Error('Not an e-Gov law XML document: <LawBody> element not found');
+    }
+
+    const builder = new LawTextBuilder();
+    const structure: LawStructureNode[] = [];
+    const title = textOf(findChild(lawBody, 'LawTitle')).trim();
+    const lawNum = textOf(findChild(law, 'LawNum')).trim();
+
+    builder.line(`# ${title}`);
+    builder.blank();
+    if (lawNum) {
+      builder.line(lawNum);
+      builder.blank();
+    }
+
+    for (const child of childrenOf(lawBody)) {
+      switch (tagOf(child)) {
+        case 'EnactStatement':
+        case 'Preamble':
+          builder.line(textOf(child).trim());
+          builder.blank();
+          break;
+        case 'MainProvision':
+          this.renderProvisions(childrenOf(child), builder, structure);
+          break;
+        case 'SupplProvision':
+          this.renderSupplProvision(child, builder, structure);
+          break;
+        default:
+          break;
+      }
+    }
+
+    return {
+      title,
+      fullContent: builder.content,
+      structure,
+      metadata: this.extractMetadata(attributesOf(law), lawNum)
+    };
+  }
+
+  private extractMetadata(attributes: Record<string, string>, lawNum: string): Partial<DocumentMetadata> {
+    const era = attributes.Era ? ERAS[attributes.Era] : undefined;
+    const eraYear = attributes.Year ? parseInt(attributes.Year, 10) : undefined;
+    const lawType = attributes.LawType ? LAW_TYPES[attributes.LawType] : undefined;
+    const serialNumber = attributes.Num ? parseInt(attributes.Num, 10) || undefined : undefined;
+
+    const metadata: Partial<DocumentMetadata> = {
+      era,
+      eraYear,
+      lawType: lawType?.name,
+      lawTypeCode: lawType?.code,
+      lawSerialNumber: serialNumber
+    };
+
+    if (lawNum) {
+      metadata.officialLawNumber = lawNum;
+    } else if (era && eraYear && lawType) {
+      metadata.officialLawNumber = formatOfficialLawNumber(
+        era,
+        eraYear,
+        lawType.name,
+        lawType.code === 'CONSTITUTION' ? undefined : serialNumber
+      );
+    }
+
+    const year = era && eraYear ? toWesternYear(era, eraYear) : undefined;
+    const month = parseInt(attributes.PromulgateMonth || '', 10);
+    const day = parseInt(attributes.PromulgateDay || '', 10);
+    if (year && month && day) {
+      metadata.promulgationDate = new Date(year, month - 1, day);
+    }
+
+    // Drop undecoded fields so they don't override values taken from the file name
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined)
+    ) as Partial<DocumentMetadata>;
+  }
+
+  private renderProvisions(nodes: XmlNode[], builder: LawTextBuilder, parent: LawStructureNode[]): void {
+    for (const node of nodes) {
+      const tag = tagOf(node);
+      if (!tag) continue;
+
+      if (tag in DIVISIONS) {
+        this.renderDivision(node, tag, builder, parent);
+      } else if (tag === 'Article') {
+        this.renderArticle(node, builder, parent);
+      } else if (tag === 'Paragraph') {
+        this.renderParagraph(node, undefined, builder, parent);
+        builder.blank();
+      }
+    }
+  }
+
+  private renderDivision(node: XmlNode, tag: string, builder: LawTextBuilder, parent: LawStructureNode[]): void {
+    const { nodeType, depth } = DIVISIONS[tag]!;
+    const headingText = textOf(findChild(node, `${tag}Title`)).trim();
+    const { label, title } = splitHeading(headingText);
+
+    const division: LawStructureNode = {
+      type: nodeType,
+      label,
+      title,
+      startPosition: builder.line(`${'#'.repeat(depth)} ${headingText}`),
+      endPosition: 0,
+      children: []
+    };
+    builder.blank();
+    parent.push(division);
+
+    this.renderProvisions(childrenOf(node), builder, division.children);
+    division.endPosition = builder.position;
+  }
+
+  private renderArticle(node: XmlNode, builder: LawTextBuilder, parent: LawStructureNode[]): void {
+    const caption = textOf(findChild(node, 'ArticleCaption')).trim();
+    const articleTitle = textOf(findChild(node, 'ArticleTitle')).trim();
+    const startPosition = caption ? builder.line(caption) : builder.position;
+
+    const article: LawStructureNode = {
+      type: 'article',
+      label: articleTitle,
+      title: caption || undefined,
+      startPosition,
+      endPosition: 0,
+      children: []
+    };
+    parent.push(article);
+
+    const paragraphs = childrenOf(node).filter(child => tagOf(child) === 'Paragraph');
+    paragraphs.forEach((paragraph, index) => {
+      this.renderParagraph(paragraph, index === 0 ? articleTitle : undefined, builder, article.children);
+    });
+
+    article.endPosition = builder.position;
+    builder.blank();
+  }
+
+  // The first paragraph of an article is introduced by the article title, later ones by ２, ３, ...
+  private renderParagraph(
+    node: XmlNode,
+    articleTitle: string | undefined,
+    builder: LawTextBuilder,
+    parent: LawStructureNode[]
+  ): void {
+    const number = parseInt(attributesOf(node).Num || '1', 10) || 1;
+    const paragraphNum = textOf(findChild(node, 'ParagraphNum')).trim();
+    const prefix = articleTitle || paragraphNum || (number > 1 ? toFullWidth(String(number)) : '');
+    const sentence = sentenceOf(findChild(node, 'ParagraphSentence')).trim();
+
+    const paragraph: LawStructureNode = {
+      type: 'paragraph',
+      label: `第${number}項`,
+      startPosition: builder.line(prefix ? `${prefix}${SEPARATOR}${sentence}` : sentence),
+      endPosition: 0,
+      children: []
+    };
+    parent.push(paragraph);
+
+    for (const child of childrenOf(node)) {
+      if (tagOf(child) === 'Item') {
+        this.renderItem(child, builder, paragraph.children);
+      }
+    }
+
+    paragraph.endPosition = builder.position;
+  }
+
+  private renderItem(node: XmlNode, builder: LawTextBuilder, parent: LawStructureNode[]): void {
+    const itemTitle = textOf(findChild(node, 'ItemTitle')).trim();
+    const sentence = sentenceOf(findChild(node, 'ItemSentence')).trim();
+
+    const item: LawStructureNode = {
+      type: 'item',
+      label: itemTitle,
+      startPosition: builder.line(`${itemTitle}${SEPARATOR}${sentence}`),
+      endPosition: 0,
+      children: []
+    };
+    parent.push(item);
+
+    this.renderSubitems(node, 1, builder);
+    item.endPosition = builder.position;
+  }
+
+  // Subitem1 (イ, ロ, ...) through Subitem10 are kept as indented body text
+  private renderSubitems(node: XmlNode, level: number, builder: LawTextBuilder): void {
+    const tag = `Subitem${level}`;
+
+    for (const child of childrenOf(node)) {
+      if (tagOf(child) !== tag) continue;
+
+      const title = textOf(findChild(child, `${tag}Title`)).trim();
+      const sentence = sentenceOf(findChild(child, `${tag}Sentence`)).trim();
+      builder.line(`${SEPARATOR.repeat(level)}${title}${SEPARATOR}${sentence}`);
+
+      this.renderSubitems(child, level + 1, builder);
+    }
+  }
+
+  private renderSupplProvision(node: XmlNode, builder: LawTextBuilder, parent: LawStructureNode[]): void {
+    const { AmendLawNum: amendLawNum, Extract: extract } = attributesOf(node);
+    const label = textOf(findChild(node, 'SupplProvisionLabel')).trim() || '附　則';
+    const title = [amendLawNum ? `（${amendLawNum}）` : '', extract === 'true' ? '抄' : '']
+      .filter(Boolean)
+      .join(' ');
+
+    const supplementary: LawStructureNode = {
+      type: 'supplementary',
+      label: '附則',
+      title: title || undefined,
+      startPosition: builder.line(`## ${label}${title ? `${SEPARATOR}${title}` : ''}`),
+      endPosition: 0,
+      children: []
+    };
+    builder.blank();
+    parent.push(supplementary);
+
+    this.renderProvisions(childrenOf(node), builder, supplementary.children);
+    supplementary.endPosition = builder.position;
+  }
+}
+
+export const xmlLawParser = new XmlLawParser();
@@ -1,6 +1,14 @@
+import { AIProvider, RequestUsage } from './vertex-ai';
+
 export interface DocumentMetadata {
-  lawNumber?: string;
-  date?: Date;
+  lawNumber?: string;          // e-Gov law ID, e.g. '322AC0000000067'
+  officialLawNumber?: string;  // 法令番号, e.g. '昭和二十二年法律第六十七号'
+  lawType?: string;            // 法律, 政令, 省令, ...
+  lawTypeCode?: string;        // AC, CO, M, ...
+  eraYear?: number;
+  lawSerialNumber?: number;
+  date?: Date;                 // from the file name: enforcement date of this revision, not 公布日
+  promulgationDate?: Date;     // 公布日 of the law itself
   category: string;
   era?: string;
   fileName: string;
@@ -18,8 +26,19 @@ export interface DocumentChunk {
   chunkIndex: number;
   startPosition: number;
   endPosition: number;
+  articleNumber?: string;    // e.g. '第七百九条', '第三条の二'
+  articleKey?: string;       // canonical form of articleNumber, e.g. '709', '3-2'
+  paragraphNumber?: number;  // 項 number when a long article is split per paragraph
+  headingPath?: string[];    // e.g. ['第三編 債権', '第五章 不法行為']
+  provisionType?: ProvisionType;
+  amendmentLawNumber?: string; // for 附則 chunks: the amending law, e.g. '平成二九年六月二日法律第四四号'
 }
 
+// 本則 (main provisions) or 附則 (supplementary provisions)
+export type ProvisionType = 'main' | 'supplementary';
+
+export type ChunkingMode = 'character' | 'structural';
+
 export interface DocumentRecord {
   path: string;
   title: string;
@@ -27,28 +46,80 @@ export interface DocumentRecord {
   metadata: DocumentMetadata;
   chunkIds: string[];
   fullContent: string;
+  structure?: LawStructureNode[];
+}
+
+export type LawStructureNodeType =
+  | 'part'           // 編
+  | 'chapter'        // 章
+  | 'section'        // 節
+  | 'subsection'     // 款
+  | 'division'       // 目
+  | 'article'        // 条
+  | 'paragraph'      // 項
+  | 'item'           // 号
+  | 'supplementary'; // 附則
+
+export interface LawStructureNode {
+  type: LawStructureNodeType;
+  label: string;   // e.g. '第三編', '第七百九条', '第2項', '一'
+  title?: string;  // e.g. '債権', '（不法行為による損害賠償）'
+  startPosition: number;
+  endPosition: number;
+  children: LawStructureNode[];
 }
 
 export interface SearchResult {
   chunk: DocumentChunk;
   score: number;
   highlights: string[];
+  originalScore?: number;  // retrieval score before reranking; score then holds the reranked score
+  rerankScore?: number;    // unset when the reranker could not score this result
+}
+
+// lexical: local query term coverage scorer, llm: the configured LLM rates each passage
+export type RerankerName = 'lexical' | 'llm';
+
+export interface RerankOptions {
+  enabled?: boolean;
+  reranker?: RerankerName;
+  candidates?: number;  // chunks retrieved before reranking
+  topK?: number;        // chunks kept after reranking
 }
 
 export interface SearchOptions {
   limit?: number;
-  threshold?: number;
+  threshold?: number;   // minimum cosine similarity; not applied to keyword (BM25) matches
   filters?: MetadataFilter;
+  mode?: SearchMode;
+  mmrLambda?: number;       // 0-1; enables MMR, lower values favour chunks unlike those already picked
+  maxPerDocument?: number;  // cap on results taken from one document
 }
 
+// semantic: embeddings only, keyword: BM25 only, hybrid: both fused with reciprocal rank fusion
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+// A single value, any of several values (an array is shorthand for $in), or an exclusion
+export type FilterValue<T extends string = string> =
+  | T
+  | T[]
+  | { $in: T[] }
+  | { $ne: T }
+  | { $nin: T[] };
+
 export interface MetadataFilter {
-  category?: string;
-  lawNumber?: string;
-  dateRange?: {
-    start: Date;
-    end: Date;
+  category?: FilterValue;
+  lawNumber?: FilterValue;
+  dateRange?: {             // 公布日, inclusive; either bound may be omitted
+    start?: Date;
+    end?: Date;
   };
-  era?: string;
+  era?: FilterValue;
+  lawType?: FilterValue;
+  articleNumber?: FilterValue;  // any form: '709', '709条', '第三条の二', '3-2'
+  provisionType?: FilterValue<ProvisionType>;
+  $and?: MetadataFilter[];      // every group must match (fields of one filter are ANDed as well)
+  $or?: MetadataFilter[];       // at least one group must match
 }
 
 export interface SourceCitation {
@@ -57,13 +128,26 @@ export interface SourceCitation {
   excerpt: string;
   score: number;
   chunkId: string;
+  lawNumber?: string;
+  officialLawNumber?: string;
+  articleNumber?: string;
+  paragraphNumber?: number;
+  headingPath?: string[];
+  provisionType?: ProvisionType;
+  amendmentLawNumber?: string;
+  originalScore?: number;  // set when the sources were reranked
+  rerankScore?: number;
 }
 
 export interface QueryRequest {
   query: string;
   conversationId?: string;
   language?: 'ja' | 'en';
-  filters?: SearchOptions;
+  filters?: MetadataFilter;
+  mode?: SearchMode;
+  rerank?: RerankOptions;
+  mmrLambda?: number;
+  maxPerDocument?: number;
 }
 
 export interface QueryResponse {
@@ -71,8 +155,18 @@ export interface QueryResponse {
   sources: SourceCitation[];
   relatedQuestions: string[];
   conversationId: string;
+  provider?: AIProvider;  // LLM provider that generated the answer
+  usage?: RequestUsage;   // embedding, reranking and LLM calls made for this request
 }
 
+// Sent in this order by POST /api/search/stream; 'error' ends the stream early
+export type QueryStreamEvent =
+  | { type: 'sources'; sources: SourceCitation[] }
+  | { type: 'token'; text: string }
+  | { type: 'related'; relatedQuestions: string[] }
+  | { type: 'done'; conversationId: string; provider?: AIProvider; usage?: RequestUsage }
+  | { type: 'error'; message: string; code?: 'budget_exceeded' };  // code set when the client should not retry soon
+
 export interface Conversation {
   id: string;
   messages: ConversationMessage[];
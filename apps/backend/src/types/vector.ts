@@ -1,17 +1,56 @@
-import { DocumentChunk, SearchResult, SearchOptions } from './document';
+import { DocumentChunk, ProvisionType, SearchResult, SearchOptions } from './document';
+import { TokenUsage } from './vertex-ai';
 
 export interface VectorStore {
   addEmbeddings(chunks: DocumentChunk[]): Promise<void>;
   search(query: string, options: SearchOptions): Promise<SearchResult[]>;
   searchByEmbedding(embedding: number[], options: SearchOptions): Promise<SearchResult[]>;
   updateEmbedding(chunkId: string, embedding: number[]): Promise<void>;
+  // Rewrites the text and metadata of stored chunks (e.g. a shifted chunkIndex); embeddings are kept
+  updateChunks(chunks: DocumentChunk[]): Promise<void>;
   deleteEmbeddings(chunkIds: string[]): Promise<void>;
   getEmbeddingCount(): Promise<number>;
+  getChunks(lookup: ChunkLookup, limit?: number): Promise<DocumentChunk[]>;
+  // Chunks of one document with startIndex <= chunkIndex <= endIndex, in chunkIndex order
+  getChunksByRange(documentPath: string, startIndex: number, endIndex: number): Promise<DocumentChunk[]>;
+  getDocumentChunkIds(documentPath: string): Promise<string[]>;  // every stored chunk of one document
+  getEmbeddings?(chunkIds: string[]): Promise<Map<string, number[]>>;  // stored vectors of the chunks found
+  persist?(): Promise<void>;  // flushes locally held index data after indexing
+  reloadIfChanged?(): Promise<void>;  // re-reads locally held index data another process rewrote
+  getEmbeddingProfile?(): Promise<EmbeddingProfile>;  // embedding model and dimension the store was built with
 }
 
+// Raised by addEmbeddings once it has stored what it could, naming the chunks left out
+export class ChunkStoreError extends Error {
+  constructor(public failures: Array<{ chunkId: string; error: unknown }>) {
+    super(`Failed to store ${failures.length} chunks: ${failures.map(failure => String(failure.error)).slice(0, 3).join('; ')}`);
+    this.name = 'ChunkStoreError';
+  }
+
+  get chunkIds(): Set<string> {
+    return new Set(this.failures.map(failure => failure.chunkId));
+  }
+}
+
+// Exact-match metadata lookup, used when a query names a specific provision
+export interface ChunkLookup {
+  title?: string;
+  lawNumber?: string;
+  articleKey?: string;
+  documentPath?: string;
+  provisionType?: ProvisionType;
+}
+
+export interface EmbeddingProfile {
+  model?: string;      // provider and model, e.g. 'openai:text-embedding-3-small'
+  dimension?: number;
+}
+
+// Services that know what a call was billed add it to usage; others leave it untouched
 export interface EmbeddingService {
-  generateEmbedding(text: string): Promise<number[]>;
-  generateEmbeddings(texts: string[]): Promise<number[][]>;
+  generateEmbedding(text: string, usage?: TokenUsage): Promise<number[]>;
+  generateEmbeddings(texts: string[], usage?: TokenUsage): Promise<number[][]>;
+  healthCheck?(): Promise<boolean>;  // free probe such as a model lookup, never a billed call
 }
 
 export interface DocumentIndex {
@@ -88,10 +88,24 @@ export interface ProviderConfig {
   // Cost optimization
   costOptimization: boolean;
   budgetLimit?: number; // monthly budget in USD
+  budget?: BudgetConfig;
+  
+  // Cost records file (JSON lines); spend is kept in memory only when unset
+  costRecordsPath?: string;
   
   // Regional routing
   preferredRegion?: string;
   
+  // Embedding cache file; embeddings are not cached when unset
+  embeddingCachePath?: string;
+  embeddingCacheMaxEntries?: number;  // least recently used embeddings are dropped past this
+  
+  // LLM calls skip a provider after failureThreshold consecutive failures, for cooldownMs
+  circuitBreaker?: {
+    failureThreshold: number;
+    cooldownMs: number;
+  };
+  
   // Provider-specific configurations
   openai?: {
     apiKey: string;
@@ -119,6 +133,16 @@ export interface ProviderConfig {
   };
 }
 
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Thresholds are fractions of budgetLimit: past softLimit a warning is logged and LLM calls
+// use downgradeModels where one is set; at hardLimit paid calls are refused
+export interface BudgetConfig {
+  softLimit: number;   // e.g. 0.8
+  hardLimit: number;   // e.g. 1.0
+  downgradeModels?: Partial<Record<AIProvider, string>>;
+}
+
 export interface ProviderHealthStatus {
   provider: AIProvider;
   healthy: boolean;
@@ -127,13 +151,28 @@ export interface ProviderHealthStatus {
   errorCount: number;
   errorRate: number; // percentage
   lastError?: string;
+  circuitState?: CircuitState; // LLM failover circuit; 'open' means calls currently skip it
+}
+
+// Tokens billed for one call, as reported by the provider
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Tokens and estimated cost of everything one search request called
+export interface RequestUsage extends TokenUsage {
+  cost: number; // USD
 }
 
 export interface CostTracker {
   provider: AIProvider;
   operation: 'embedding' | 'generation';
+  model?: string;
+  conversationId?: string; // set for calls made while answering a search
   inputTokens: number;
   outputTokens?: number;
+  estimated?: boolean; // the provider reported no usage, so tokens were estimated from the text
   cost: number; // USD
   timestamp: Date;
 }
@@ -160,4 +199,15 @@ export class ProviderError extends Error {
     super(message);
     this.name = 'ProviderError';
   }
-}
\ No newline at end of file
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public spent: number,  // USD this month
+    public limit: number   // USD
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
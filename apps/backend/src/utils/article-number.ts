@@ -0,0 +1,68 @@
+import { KANJI_NUMERAL_CHARS, parseNumeral, toKanjiNumeral } from './kanji-numerals';
+
+// 第十二条の三の二 → { article: 12, branches: [3, 2] }
+export interface ArticleReference {
+  article: number;
+  branches: number[];
+}
+
+const NUMBER = `(?:[0-9０-９]+|[${KANJI_NUMERAL_CHARS}]+)`;
+const ARTICLE_LABEL_PATTERN = new RegExp(`^第?(${NUMBER})条?((?:の${NUMBER})*)$`);
+const ARTICLE_KEY_PATTERN = /^(\d+)((?:-\d+)*)$/;
+
+// Accepts statute labels (第七百九条, 第三条の二), user input (709条, 3条の2) and canonical keys (3-2)
+export const parseArticleNumber = (text: string): ArticleReference | null => {
+  const trimmed = text.trim().replace(/\s+/g, '');
+
+  const key = trimmed.match(ARTICLE_KEY_PATTERN);
+  if (key) {
+    return {
+      article: parseInt(key[1]!, 10),
+      branches: key[2] ? key[2].split('-').filter(Boolean).map(part => parseInt(part, 10)) : []
+    };
+  }
+
+  const label = trimmed.match(ARTICLE_LABEL_PATTERN);
+  if (!label) {
+    return null;
+  }
+
+  const article = parseNumeral(label[1]!);
+  const branches = (label[2] || '').split('の').filter(Boolean).map(parseNumeral);
+
+  if (Number.isNaN(article) || branches.some(Number.isNaN)) {
+    return null;
+  }
+
+  return { article, branches };
+};
+
+// Canonical key stored with chunks and used for filtering: 709, 3-2, 12-3-2
+export const toArticleKey = (reference: ArticleReference): string => {
+  return [reference.article, ...reference.branches].join('-');
+};
+
+// Statute-style label: 第七百九条, 第三条の二
+export const toArticleLabel = (reference: ArticleReference): string => {
+  const branches = reference.branches.map(branch => `の${toKanjiNumeral(branch)}`).join('');
+  return `第${toKanjiNumeral(reference.article)}条${branches}`;
+};
+
+export const normalizeArticleKey = (text: string): string | undefined => {
+  const reference = parseArticleNumber(text);
+  return reference ? toArticleKey(reference) : undefined;
+};
+
+// Statute order: 第三条 < 第三条の二 < 第三条の二の二 < 第三条の三 < 第四条
+export const compareArticleNumbers = (a: ArticleReference, b: ArticleReference): number => {
+  const left = [a.article, ...a.branches];
+  const right = [b.article, ...b.branches];
+
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) {
+      return left[i]! - right[i]!;
+    }
+  }
+
+  return left.length - right.length;
+};
@@ -1,58 +1,280 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { DocumentParser } from '../services/document-parser';
-import { VectorStore } from '../types';
+import { ChunkingMode, ChunkStoreError, DocumentChunk, VectorStore } from '../types';
 import glob from 'glob';
+import { ChunkSettings, IndexManifest, ManifestEntry, ManifestToc, hashFile, isSameChunkSettings } from './index-manifest';
+import { FailureReport, IndexCheckpoint, IndexingSummary, emptySummary } from './index-checkpoint';
+import { AliasedVectorStore, collectionFilePath } from '../services/collection-aliases';
+import { SnapshotConflictError } from './snapshot-version';
+
+export type { IndexingSummary } from './index-checkpoint';
+
+export interface DocumentIndexerOptions {
+  manifestPath?: string;
+  checkpointPath?: string;
+  failureReportPath?: string;
+  embeddingModel?: string;   // e.g. 'openai:text-embedding-3-small'
+  chunkSettings?: ChunkSettings;
+}
+
+interface PendingDocument {
+  filePath: string;
+  contentHash: string;
+  isNew: boolean;
+  reembed: boolean;          // embedding model changed, so stored vectors cannot be kept
+}
+
+interface DocumentUpdate {
+  added: DocumentChunk[];
+  staleIds: string[];
+  moved: DocumentChunk[];  // kept chunks whose index, offsets, heading path, title or metadata changed
+  chunkIds: string[];
+  toc: ManifestToc;
+}
+
+// Document metadata a store keeps with each chunk. lastModified is left out: it changes on
+// every save, and the Chroma store does not keep it.
+const hashMetadata = (chunk: DocumentChunk): string => {
+  const { category, lawNumber, officialLawNumber, lawType, fileName, date, promulgationDate, era } = chunk.metadata;
+  const fields = [category, lawNumber, officialLawNumber, lawType, fileName, date?.toISOString(), promulgationDate?.toISOString(), era];
+  return crypto.createHash('sha256').update(fields.map(field => field || '').join('\u0000')).digest('hex');
+};
+
+// Kept chunks keep their ID and embedding, but an edit earlier in the file shifts them,
+// and a front matter edit changes their title or metadata without touching the text
+const hasMoved = (stored: DocumentChunk, chunk: DocumentChunk): boolean => {
+  return stored.chunkIndex !== chunk.chunkIndex ||
+    stored.startPosition !== chunk.startPosition ||
+    stored.endPosition !== chunk.endPosition ||
+    (stored.headingPath || []).join('\u0000') !== (chunk.headingPath || []).join('\u0000') ||
+    stored.title !== chunk.title ||
+    hashMetadata(stored) !== hashMetadata(chunk);
+};
 
 export class DocumentIndexer {
+  private manifest: IndexManifest;
+  private checkpoint: IndexCheckpoint;
+  private failureReport: FailureReport;
+  private stateLoaded = false;
+  private embeddingModel?: string;
+  private chunkSettings: ChunkSettings;
+
   constructor(
     private vectorStore: VectorStore,
     private documentParser: DocumentParser,
-    private documentsPath: string
-  ) {}
+    private documentsPath: string,
+    options: DocumentIndexerOptions = {}
+  ) {
+    this.manifest = new IndexManifest(options.manifestPath);
+    this.checkpoint = new IndexCheckpoint(options.checkpointPath);
+    this.failureReport = new FailureReport(options.failureReportPath);
+    this.embeddingModel = options.embeddingModel;
+    // Use smaller chunk sizes for better performance and to avoid payload limits
+    this.chunkSettings = options.chunkSettings || {
+      chunkSize: parseInt(process.env.CHUNK_SIZE || '500'),
+      overlap: parseInt(process.env.CHUNK_OVERLAP || '100'),
+      mode: (process.env.CHUNKING_MODE || 'structural') as ChunkingMode
+    };
+  }
 
-  async indexAllDocuments(): Promise<void> {
+  // With resume, files completed by an interrupted run (per the checkpoint) are skipped and
+  // its counts carried over; otherwise any leftover checkpoint is discarded
+  async indexAllDocuments(options: { resume?: boolean } = {}): Promise<IndexingSummary> {
     console.log(`📚 Starting document indexing from: ${this.documentsPath}`);
     
     try {
-      const markdownFiles = await this.findMarkdownFiles();
-      console.log(`📄 Found ${markdownFiles.length} markdown files`);
+      await this.loadState();
       
-      let processed = 0;
-      const batchSize = 20; // Larger batch size for better performance
-      const concurrency = 3; // Process multiple batches in parallel
-      
-      const batches: string[][] = [];
-      for (let i = 0; i < markdownFiles.length; i += batchSize) {
-        batches.push(markdownFiles.slice(i, i + batchSize));
+      if (!options.resume) {
+        await this.checkpoint.clear();
+      } else if (await this.checkpoint.load()) {
+        console.log(`⏯️  Resuming run started at ${this.checkpoint.startedAt.toISOString()} (${this.checkpoint.completed.size} files done)`);
+      } else {
+        console.warn('⚠️  No checkpoint to resume from; starting a new run');
       }
-
-      for (let i = 0; i < batches.length; i += concurrency) {
-        const concurrentBatches = batches.slice(i, i + concurrency);
+      
+      const documentFiles = await this.findDocumentFiles();
+      console.log(`📄 Found ${documentFiles.length} law files (Markdown / e-Gov XML)`);
+      
+      const summary = this.checkpoint.summary;
+      const pending: PendingDocument[] = [];
+      
+      for (const filePath of documentFiles) {
+        if (this.checkpoint.completed.has(filePath)) continue;
         
-        // Process batches in parallel
-        await Promise.all(
-          concurrentBatches.map(async (batch) => {
-            await this.processBatch(batch);
-            processed += batch.length;
-          })
-        );
+        const contentHash = await hashFile(filePath);
+        const entry = this.manifest.get(filePath);
         
-        const percentage = ((processed / markdownFiles.length) * 100).toFixed(1);
-        console.log(`✅ Processed ${processed}/${markdownFiles.length} documents (${percentage}%)`);
+        if (entry && entry.contentHash === contentHash && this.isCurrent(entry)) {
+          summary.unchanged++;
+          this.checkpoint.completed.add(filePath);
+        } else {
+          pending.push(this.toPendingDocument(filePath, contentHash));
+        }
+      }
+      
+      const currentFiles = new Set(documentFiles);
+      for (const filePath of this.manifest.paths().filter(filePath => !currentFiles.has(filePath))) {
+        await this.removeDocument(filePath);
+        summary.removed++;
       }
       
-      const totalCount = await this.vectorStore.getEmbeddingCount();
-      console.log(`🎉 Indexing completed! Total embeddings in store: ${totalCount}`);
+      console.log(`🔍 ${pending.length} new or changed, ${summary.unchanged} unchanged, ${summary.removed} removed`);
+      
+      await this.saveProgress();
+      await this.indexPending(pending, summary);
+      await this.checkpoint.clear();
       
+      await this.logCompletion(summary);
+      return summary;
     } catch (error) {
       console.error('❌ Indexing failed:', error);
       throw error;
     }
   }
 
-  private async findMarkdownFiles(): Promise<string[]> {
-    const pattern = path.join(this.documentsPath, '**/*.md');
+  // Processes only the files listed in the failure report
+  async retryFailedDocuments(): Promise<IndexingSummary> {
+    await this.loadState();
+    
+    const failures = this.failureReport.list();
+    console.log(`🔁 Retrying ${failures.length} failed documents`);
+    
+    const summary = emptySummary();
+    const pending: PendingDocument[] = [];
+    
+    for (const { filePath } of failures) {
+      if (await this.fileExists(filePath)) {
+        pending.push(this.toPendingDocument(filePath, await hashFile(filePath)));
+      } else {
+        await this.removeDocument(filePath);
+        this.failureReport.resolve(filePath);
+        summary.removed++;
+      }
+    }
+    
+    await this.indexPending(pending, summary);
+    
+    await this.logCompletion(summary);
+    return summary;
+  }
+
+  private async indexPending(pending: PendingDocument[], summary: IndexingSummary): Promise<void> {
+    let processed = 0;
+    const batchSize = 20; // Larger batch size for better performance
+    const concurrency = 3; // Process multiple batches in parallel
+    
+    const batches: PendingDocument[][] = [];
+    for (let i = 0; i < pending.length; i += batchSize) {
+      batches.push(pending.slice(i, i + batchSize));
+    }
+
+    for (let i = 0; i < batches.length; i += concurrency) {
+      const concurrentBatches = batches.slice(i, i + concurrency);
+      
+      // Process batches in parallel
+      await Promise.all(
+        concurrentBatches.map(async (batch) => {
+          const indexed = await this.processBatch(batch);
+          for (const document of batch) {
+            if (!indexed.has(document.filePath)) {
+              summary.failed++;
+            } else if (document.isNew) {
+              summary.added++;
+            } else {
+              summary.updated++;
+            }
+            // Failed files count as done for this run; --retry-failed picks them up
+            this.checkpoint.completed.add(document.filePath);
+          }
+          processed += batch.length;
+        })
+      );
+      
+      await this.saveProgress();
+      
+      const percentage = ((processed / pending.length) * 100).toFixed(1);
+      console.log(`✅ Processed ${processed}/${pending.length} documents (${percentage}%)`);
+    }
+    
+    await this.saveProgress();
+  }
+
+  // The store is saved first so the manifest and checkpoint never claim chunks the store lost.
+  // After a snapshot conflict the store holds the other process's data, so the manifest is
+  // read again on the next run rather than trusted from memory.
+  private async saveProgress(): Promise<void> {
+    try {
+      await this.vectorStore.persist?.();
+    } catch (error) {
+      if (error instanceof SnapshotConflictError) {
+        this.stateLoaded = false;
+      }
+      throw error;
+    }
+    await this.manifest.save();
+    await this.failureReport.save();
+    await this.checkpoint.save();
+  }
+
+  private async logCompletion(summary: IndexingSummary): Promise<void> {
+    const totalCount = await this.vectorStore.getEmbeddingCount();
+    console.log(`🎉 Indexing completed! Total embeddings in store: ${totalCount}`);
+    console.log(`📊 Added: ${summary.added}, updated: ${summary.updated}, removed: ${summary.removed}, unchanged: ${summary.unchanged}, failed: ${summary.failed}`);
+    if (this.failureReport.size > 0) {
+      console.warn(`⚠️  ${this.failureReport.size} documents failed; run with --retry-failed to process only those`);
+    }
+  }
+
+  private async loadState(): Promise<void> {
+    if (this.stateLoaded) return;
+    this.stateLoaded = true;
+
+    if (await this.manifest.load()) {
+      console.log(`📂 Loaded index manifest with ${this.manifest.size} documents`);
+    }
+    await this.failureReport.load();
+
+    // A manifest describing an emptied or recreated store would skip every document
+    if (this.manifest.size > 0 && await this.vectorStore.getEmbeddingCount() === 0) {
+      console.warn('⚠️  Vector store is empty; ignoring the index manifest');
+      this.manifest.clear();
+    }
+  }
+
+  // An entry without a table of contents is planned again; its unchanged chunks are kept as they are
+  private isCurrent(entry: ManifestEntry): boolean {
+    return entry.embeddingModel === this.embeddingModel &&
+      isSameChunkSettings(entry.chunkSettings, this.chunkSettings) &&
+      entry.toc !== undefined;
+  }
+
+  private toPendingDocument(filePath: string, contentHash: string): PendingDocument {
+    const entry = this.manifest.get(filePath);
+    return {
+      filePath,
+      contentHash,
+      isNew: !entry,
+      reembed: !!entry && entry.embeddingModel !== this.embeddingModel
+    };
+  }
+
+  private recordDocument(document: PendingDocument, update: DocumentUpdate): void {
+    this.manifest.set(document.filePath, {
+      contentHash: document.contentHash,
+      chunkIds: update.chunkIds,
+      embeddingModel: this.embeddingModel,
+      chunkSettings: this.chunkSettings,
+      toc: update.toc,
+      indexedAt: new Date()
+    });
+    this.failureReport.resolve(document.filePath);
+  }
+
+  private async findDocumentFiles(): Promise<string[]> {
+    const pattern = path.join(this.documentsPath, '**/*.{md,xml}');
     return new Promise((resolve, reject) => {
       glob(pattern, (err, files) => {
         if (err) {
@@ -64,62 +286,192 @@ export class DocumentIndexer {
     });
   }
 
-  private async processBatch(filePaths: string[]): Promise<void> {
-    console.log(`📋 Processing batch of ${filePaths.length} files...`);
+  // Returns the paths that were indexed; failed files keep their old manifest entry and
+  // go to the failure report. An embedding error (e.g. exhausted quota) fails the whole batch;
+  // chunks the store could not keep fail only their own documents.
+  private async processBatch(documents: PendingDocument[]): Promise<Set<string>> {
+    console.log(`📋 Processing batch of ${documents.length} files...`);
     
     // Process documents in parallel
-    const promises = filePaths.map(async (filePath) => {
+    const promises = documents.map(async (document) => {
       try {
-        return await this.processDocument(filePath);
+        return { document, update: await this.planDocumentUpdate(document.filePath, document.reembed) };
       } catch (error) {
-        console.warn(`⚠️  Failed to process ${path.basename(filePath)}:`, error);
+        console.warn(`⚠️  Failed to process ${path.basename(document.filePath)}:`, error);
+        this.failureReport.record(document.filePath, error);
         return null;
       }
     });
 
-    const results = await Promise.all(promises);
-    const allChunks = results
-      .filter(chunks => chunks !== null)
-      .flat();
+    const updates = (await Promise.all(promises)).filter(update => update !== null);
+    const addedCount = updates.reduce((count, { update }) => count + update.added.length, 0);
+    const staleIds = updates.flatMap(({ update }) => update.staleIds);
 
-    console.log(`📦 Generated ${allChunks.length} chunks from ${filePaths.length} documents`);
+    console.log(`📦 ${addedCount} new and ${staleIds.length} stale chunks from ${documents.length} documents`);
+
+    let stored = updates;
+    try {
+      if (staleIds.length > 0) {
+        await this.vectorStore.deleteEmbeddings(staleIds);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to delete stale chunks of ${updates.length} documents:`, error);
+      stored = [];
+      updates.forEach(({ document }) => this.failureReport.record(document.filePath, error));
+    }
 
-    if (allChunks.length > 0) {
-      console.log(`🔄 Adding ${allChunks.length} chunks to vector store...`);
-      await this.vectorStore.addEmbeddings(allChunks);
-      console.log(`✅ Successfully added ${allChunks.length} chunks to vector store`);
+    const toMove = stored.filter(({ update }) => update.moved.length > 0);
+    if (toMove.length > 0) {
+      const chunks = toMove.flatMap(({ update }) => update.moved);
+      try {
+        await this.vectorStore.updateChunks(chunks);
+        console.log(`📝 Updated positions of ${chunks.length} kept chunks`);
+      } catch (error) {
+        console.error(`❌ Failed to update kept chunks of ${toMove.length} documents:`, error);
+        stored = stored.filter(({ update }) => update.moved.length === 0);
+        toMove.forEach(({ document }) => this.failureReport.record(document.filePath, error));
+      }
     }
+
+    const toEmbed = stored.filter(({ update }) => update.added.length > 0);
+    if (toEmbed.length > 0) {
+      const chunks = toEmbed.flatMap(({ update }) => update.added);
+      try {
+        console.log(`🔄 Adding ${chunks.length} chunks to vector store...`);
+        await this.vectorStore.addEmbeddings(chunks);
+        console.log(`✅ Successfully added ${chunks.length} chunks to vector store`);
+      } catch (error) {
+        // Documents that only lost chunks are complete; the rest still need embedding. A
+        // ChunkStoreError names the chunks left out, so only their documents failed.
+        const failedIds = error instanceof ChunkStoreError ? error.chunkIds : undefined;
+        const failed = failedIds
+          ? toEmbed.filter(({ update }) => update.added.some(chunk => failedIds.has(chunk.id)))
+          : toEmbed;
+        console.error(`❌ Failed to add chunks of ${failed.length} documents:`, error);
+        stored = stored.filter(update => !failed.includes(update));
+        failed.forEach(({ document }) => this.failureReport.record(document.filePath, error));
+      }
+    }
+
+    for (const { document, update } of stored) {
+      this.recordDocument(document, update);
+    }
+
+    return new Set(stored.map(({ document }) => document.filePath));
   }
 
-  private async processDocument(filePath: string) {
-    const document = await this.documentParser.parseMarkdownFile(filePath);
+  // Chunk IDs are content-addressed, so diffing them against the stored IDs of the same
+  // document tells exactly which chunks changed: only those are deleted or embedded.
+  // Kept chunks that moved get their metadata rewritten without a new embedding.
+  // With reembed every stored chunk is replaced.
+  private async planDocumentUpdate(filePath: string, reembed: boolean = false): Promise<DocumentUpdate> {
+    const { chunks, toc } = await this.processDocument(filePath);
+    const documentPath = chunks[0]?.documentPath ?? filePath;
     
-    // Use smaller chunk sizes for better performance and to avoid payload limits
-    const chunkSize = parseInt(process.env.CHUNK_SIZE || '500');
-    const overlap = parseInt(process.env.CHUNK_OVERLAP || '100');
+    const storedIds = await this.vectorStore.getDocumentChunkIds(documentPath);
+    const chunkIds = chunks.map(chunk => chunk.id);
     
-    const chunks = this.documentParser.createChunks(document, chunkSize, overlap);
+    if (reembed) {
+      return { added: chunks, staleIds: storedIds, moved: [], chunkIds, toc };
+    }
+    
+    const stored = new Set(storedIds);
+    const current = new Set(chunkIds);
+    const kept = chunks.filter(chunk => stored.has(chunk.id));
     
-    return chunks;
+    let moved: DocumentChunk[] = [];
+    if (kept.length > 0) {
+      const storedChunks = new Map(
+        (await this.vectorStore.getChunks({ documentPath }, storedIds.length)).map(chunk => [chunk.id, chunk])
+      );
+      moved = kept.filter(chunk => {
+        const storedChunk = storedChunks.get(chunk.id);
+        return !storedChunk || hasMoved(storedChunk, chunk);
+      });
+    }
+    
+    return {
+      added: chunks.filter(chunk => !stored.has(chunk.id)),
+      staleIds: storedIds.filter(id => !current.has(id)),
+      moved,
+      chunkIds,
+      toc
+    };
+  }
+
+  private async processDocument(filePath: string): Promise<{ chunks: DocumentChunk[]; toc: ManifestToc }> {
+    const document = await this.documentParser.parseFile(filePath);
+    const { chunkSize, overlap, mode } = this.chunkSettings;
+    
+    return {
+      chunks: this.documentParser.createChunks(document, chunkSize, overlap, mode),
+      toc: {
+        lawNumber: document.metadata.lawNumber,
+        title: document.title,
+        structure: document.structure || []
+      }
+    };
   }
 
   async indexIncrementalChanges(changedFiles: string[]): Promise<void> {
     console.log(`🔄 Processing ${changedFiles.length} changed files`);
+    await this.loadState();
     
     for (const filePath of changedFiles) {
       try {
-        const chunks = await this.processDocument(filePath);
+        if (!await this.fileExists(filePath)) {
+          await this.removeDocument(filePath);
+          continue;
+        }
         
-        const existingChunkIds = chunks.map(chunk => `${filePath}:${chunk.chunkIndex}`);
-        await this.vectorStore.deleteEmbeddings(existingChunkIds);
+        const contentHash = await hashFile(filePath);
+        const entry = this.manifest.get(filePath);
+        // Saving without edits or touching a file fires change events too
+        if (entry && entry.contentHash === contentHash && this.isCurrent(entry)) {
+          continue;
+        }
         
-        await this.vectorStore.addEmbeddings(chunks);
+        const document = this.toPendingDocument(filePath, contentHash);
+        const update = await this.planDocumentUpdate(filePath, document.reembed);
+        const { added, staleIds, moved } = update;
+        
+        await this.vectorStore.deleteEmbeddings(staleIds);
+        await this.vectorStore.updateChunks(moved);
+        await this.vectorStore.addEmbeddings(added);
+        this.recordDocument(document, update);
         
-        console.log(`✅ Updated: ${path.basename(filePath)}`);
+        console.log(`✅ Updated: ${path.basename(filePath)} (+${added.length} / -${staleIds.length} chunks)`);
       } catch (error) {
         console.warn(`⚠️  Failed to update ${filePath}:`, error);
+        this.failureReport.record(filePath, error);
       }
     }
+    
+    await this.vectorStore.persist?.();
+    await this.manifest.save();
+    await this.failureReport.save();
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Drops every chunk of a file that no longer exists, including any the manifest recorded
+  // under IDs the store does not report for its path
+  private async removeDocument(filePath: string): Promise<void> {
+    const staleIds = Array.from(new Set([
+      ...(this.manifest.get(filePath)?.chunkIds || []),
+      ...await this.vectorStore.getDocumentChunkIds(filePath)
+    ]));
+    await this.vectorStore.deleteEmbeddings(staleIds);
+    this.manifest.delete(filePath);
+    this.failureReport.resolve(filePath);
+    console.log(`🗑️  Removed: ${path.basename(filePath)} (-${staleIds.length} chunks)`);
   }
 
   async getIndexingStats(): Promise<{
@@ -128,20 +480,72 @@ export class DocumentIndexer {
     lastIndexed?: Date;
   }> {
     const totalEmbeddings = await this.vectorStore.getEmbeddingCount();
-    const markdownFiles = await this.findMarkdownFiles();
+    const documentFiles = await this.findDocumentFiles();
     
     return {
-      totalDocuments: markdownFiles.length,
+      totalDocuments: documentFiles.length,
       totalEmbeddings,
       lastIndexed: new Date()
     };
   }
 }
 
+// With collection, the manifest, checkpoint and failure report are kept per collection, as
+// each versioned collection behind an alias is indexed separately
 export const createDocumentIndexer = (
   vectorStore: VectorStore,
-  documentsPath: string = './markdown'
+  documentsPath: string = './markdown',
+  options?: DocumentIndexerOptions & { collection?: { name: string; alias: string } }
 ) => {
   const documentParser = new DocumentParser();
-  return new DocumentIndexer(vectorStore, documentParser, documentsPath);
-};
\ No newline at end of file
+  const { collection, ...indexerOptions } = options || {};
+  const statePath = (basePath: string) => collection ? collectionFilePath(basePath, collection.name, collection.alias) : basePath;
+  
+  return new DocumentIndexer(vectorStore, documentParser, documentsPath, {
+    ...indexerOptions,
+    manifestPath: statePath(indexerOptions.manifestPath || process.env.INDEX_MANIFEST_PATH || './index-data/index-manifest.json'),
+    checkpointPath: statePath(indexerOptions.checkpointPath || './index-data/index-checkpoint.json'),
+    failureReportPath: statePath(indexerOptions.failureReportPath || './index-data/index-failures.json')
+  });
+};
+
+// Indexes into whichever collection the alias serves when a run starts, with that collection's
+// manifest, checkpoint and failure report, so a long-running watcher follows a switch made by
+// migrate:embeddings instead of writing state for the old collection
+export class AliasedDocumentIndexer {
+  private current?: { collection: string; indexer: DocumentIndexer };
+
+  constructor(
+    private vectorStore: AliasedVectorStore,
+    private documentsPath: string,
+    private alias: string,
+    private options?: DocumentIndexerOptions
+  ) {}
+
+  async indexIncrementalChanges(changedFiles: string[]): Promise<void> {
+    await this.vectorStore.refresh();
+    return this.indexerFor(this.vectorStore.collectionName).indexIncrementalChanges(changedFiles);
+  }
+
+  private indexerFor(collection: string): DocumentIndexer {
+    if (this.current?.collection !== collection) {
+      this.current = {
+        collection,
+        indexer: createDocumentIndexer(this.vectorStore, this.documentsPath, {
+          ...this.options,
+          collection: { name: collection, alias: this.alias }
+        })
+      };
+    }
+    return this.current.indexer;
+  }
+}
+
+export const createAliasedDocumentIndexer = (
+  vectorStore: AliasedVectorStore,
+  documentsPath: string = './markdown',
+  alias: string = 'japanese-law-documents',
+  options?: DocumentIndexerOptions
+) => {
+  return new AliasedDocumentIndexer(vectorStore, documentsPath, alias, options);
+};
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentIndexer } from './document-indexer';
+
+// A DocumentIndexer, or an AliasedDocumentIndexer that follows alias switches
+export type IncrementalIndexer = Pick<DocumentIndexer, 'indexIncrementalChanges'>;
+
+export interface DocumentWatcherOptions {
+  debounceMs?: number;
+  onIndexed?: (filePaths: string[]) => void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+const DOCUMENT_EXTENSIONS = ['.md', '.xml'];
+
+// Keeps the index in step with the documents folder. Editors fire several events per save,
+// so paths are collected until the folder has been quiet for debounceMs and then applied in
+// one indexIncrementalChanges call, which also treats a missing file as deleted.
+export class DocumentWatcher {
+  private watcher?: fs.FSWatcher;
+  private pending = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private running: Promise<void> = Promise.resolve();
+  private debounceMs: number;
+  private onIndexed?: (filePaths: string[]) => void;
+
+  constructor(
+    private indexer: IncrementalIndexer,
+    private documentsPath: string,
+    options: DocumentWatcherOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.onIndexed = options.onIndexed;
+  }
+
+  start(): void {
+    if (this.watcher) return;
+
+    this.watcher = fs.watch(this.documentsPath, { recursive: true }, (_event, fileName) => {
+      if (fileName) {
+        this.schedule(path.join(this.documentsPath, fileName.toString()));
+      }
+    });
+    this.watcher.on('error', error => {
+      console.error('❌ Document watcher error:', error);
+    });
+
+    console.log(`👀 Watching ${this.documentsPath} for document changes`);
+  }
+
+  // Applies anything still pending before closing
+  async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = undefined;
+    await this.flush();
+  }
+
+  schedule(filePath: string): void {
+    if (!DOCUMENT_EXTENSIONS.includes(path.extname(filePath))) return;
+
+    this.pending.add(filePath);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      void this.flush();
+    }, this.debounceMs);
+  }
+
+  // Runs are chained so a burst arriving mid-run is applied after it, never concurrently
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    this.running = this.running.then(async () => {
+      const filePaths = Array.from(this.pending).sort();
+      this.pending.clear();
+      if (filePaths.length === 0) return;
+
+      try {
+        await this.indexer.indexIncrementalChanges(filePaths);
+        this.onIndexed?.(filePaths);
+      } catch (error) {
+        console.error('❌ Failed to apply document changes:', error);
+      }
+    });
+    return this.running;
+  }
+}
+
+export const createDocumentWatcher = (
+  indexer: IncrementalIndexer,
+  documentsPath: string = './markdown',
+  options?: DocumentWatcherOptions
+) => {
+  return new DocumentWatcher(indexer, documentsPath, options);
+};
@@ -0,0 +1,10 @@
+// Embeddings are stored as the base64 of their Float32Array bytes: about a quarter the size
+// of JSON number arrays, at float32 precision (what the providers return anyway)
+export const encodeEmbedding = (embedding: number[]): string => {
+  return Buffer.from(new Float32Array(embedding).buffer).toString('base64');
+};
+
+export const decodeEmbedding = (encoded: string): number[] => {
+  const bytes = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / Float32Array.BYTES_PER_ELEMENT));
+};
@@ -0,0 +1,29 @@
+import { EmbeddingProfile } from '../types';
+
+// Vectors from another model (or of another length) are meaningless to compare with, so
+// stores refuse such writes and queries instead of returning garbage
+export class EmbeddingMismatchError extends Error {
+  constructor(message: string, public store: string, public expected: EmbeddingProfile, public actual: EmbeddingProfile) {
+    super(message);
+    this.name = 'EmbeddingMismatchError';
+  }
+}
+
+export const assertSameModel = (store: string, recorded: EmbeddingProfile, model: string | undefined): void => {
+  if (recorded.model && model && recorded.model !== model) {
+    throw new EmbeddingMismatchError(
+      `${store} holds ${recorded.model} embeddings but the configured model is ${model}; ` +
+      'use a separate collection (see migrate:embeddings) or switch the model back',
+      store, recorded, { model }
+    );
+  }
+};
+
+export const assertSameDimension = (store: string, recorded: EmbeddingProfile, dimension: number): void => {
+  if (recorded.dimension !== undefined && recorded.dimension !== dimension) {
+    throw new EmbeddingMismatchError(
+      `${store} holds ${recorded.dimension}-dimensional embeddings but got ${dimension} dimensions`,
+      store, recorded, { dimension }
+    );
+  }
+};
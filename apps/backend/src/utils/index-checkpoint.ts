@@ -0,0 +1,150 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface IndexingSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  failed: number;
+}
+
+export interface IndexingFailure {
+  filePath: string;
+  error: string;
+  failedAt: Date;
+}
+
+interface SerializedCheckpoint {
+  version: number;
+  startedAt: string;
+  completed: string[];
+  summary: IndexingSummary;
+}
+
+interface SerializedFailureReport {
+  version: number;
+  failures: Array<Omit<IndexingFailure, 'failedAt'> & { failedAt: string }>;
+}
+
+const CHECKPOINT_VERSION = 1;
+
+export const emptySummary = (): IndexingSummary => ({ added: 0, updated: 0, removed: 0, unchanged: 0, failed: 0 });
+
+// Written to a temporary file first so a crash mid-write leaves the previous state intact
+const writeJsonFile = async (filePath: string, data: unknown): Promise<void> => {
+  const tempPath = `${filePath}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+  await fs.rename(tempPath, filePath);
+};
+
+const readJsonFile = async <T extends { version: number }>(filePath: string): Promise<T | undefined> => {
+  try {
+    const data = JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+    if (data.version !== CHECKPOINT_VERSION) {
+      console.warn(`⚠️  Ignoring ${filePath}: unsupported version ${data.version}`);
+      return undefined;
+    }
+    return data;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+// Progress of an indexing run, saved after every round of batches. Exists only while a run
+// is unfinished: a resumed run skips the completed files and continues the counts.
+export class IndexCheckpoint {
+  startedAt = new Date();
+  completed = new Set<string>();
+  summary = emptySummary();
+
+  constructor(private checkpointPath?: string) {}
+
+  async load(): Promise<boolean> {
+    if (!this.checkpointPath) return false;
+
+    const data = await readJsonFile<SerializedCheckpoint>(this.checkpointPath);
+    if (!data) return false;
+
+    this.startedAt = new Date(data.startedAt);
+    this.completed = new Set(data.completed);
+    this.summary = data.summary;
+    return true;
+  }
+
+  async save(): Promise<void> {
+    if (!this.checkpointPath) return;
+
+    const data: SerializedCheckpoint = {
+      version: CHECKPOINT_VERSION,
+      startedAt: this.startedAt.toISOString(),
+      completed: Array.from(this.completed),
+      summary: this.summary
+    };
+    await writeJsonFile(this.checkpointPath, data);
+  }
+
+  async clear(): Promise<void> {
+    this.startedAt = new Date();
+    this.completed.clear();
+    this.summary = emptySummary();
+
+    if (this.checkpointPath) {
+      await fs.rm(this.checkpointPath, { force: true });
+    }
+  }
+}
+
+// Files that could not be indexed, with the last error, kept across runs until they succeed
+export class FailureReport {
+  private failures = new Map<string, IndexingFailure>();
+
+  constructor(private reportPath?: string) {}
+
+  get size(): number {
+    return this.failures.size;
+  }
+
+  list(): IndexingFailure[] {
+    return Array.from(this.failures.values());
+  }
+
+  record(filePath: string, error: unknown): void {
+    this.failures.set(filePath, {
+      filePath,
+      error: error instanceof Error ? error.message : String(error),
+      failedAt: new Date()
+    });
+  }
+
+  resolve(filePath: string): void {
+    this.failures.delete(filePath);
+  }
+
+  async load(): Promise<boolean> {
+    if (!this.reportPath) return false;
+
+    const data = await readJsonFile<SerializedFailureReport>(this.reportPath);
+    if (!data) return false;
+
+    this.failures.clear();
+    for (const failure of data.failures) {
+      this.failures.set(failure.filePath, { ...failure, failedAt: new Date(failure.failedAt) });
+    }
+    return true;
+  }
+
+  async save(): Promise<void> {
+    if (!this.reportPath) return;
+
+    const data: SerializedFailureReport = {
+      version: CHECKPOINT_VERSION,
+      failures: this.list().map(failure => ({ ...failure, failedAt: failure.failedAt.toISOString() }))
+    };
+    await writeJsonFile(this.reportPath, data);
+  }
+}
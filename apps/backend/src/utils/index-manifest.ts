@@ -0,0 +1,112 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChunkingMode, LawStructureNode } from '../types';
+
+export interface ChunkSettings {
+  chunkSize: number;
+  overlap: number;
+  mode: ChunkingMode;
+}
+
+// Parsed outline of an indexed law, so its table of contents is served without re-parsing the file
+export interface ManifestToc {
+  lawNumber?: string;  // e-Gov law ID, e.g. '129AC0000000089'
+  title: string;
+  structure: LawStructureNode[];
+}
+
+export interface ManifestEntry {
+  contentHash: string;
+  chunkIds: string[];
+  embeddingModel?: string;
+  chunkSettings: ChunkSettings;
+  toc?: ManifestToc;  // missing in manifests written before tables of contents were kept
+  indexedAt: Date;
+}
+
+interface SerializedManifest {
+  version: number;
+  documents: Record<string, Omit<ManifestEntry, 'indexedAt'> & { indexedAt: string }>;
+}
+
+const MANIFEST_VERSION = 1;
+
+export const hashFile = async (filePath: string): Promise<string> => {
+  return crypto.createHash('sha256').update(await fs.readFile(filePath)).digest('hex');
+};
+
+export const isSameChunkSettings = (a: ChunkSettings, b: ChunkSettings): boolean => {
+  return a.chunkSize === b.chunkSize && a.overlap === b.overlap && a.mode === b.mode;
+};
+
+// What the indexer last wrote for each file. A file whose hash, embedding model and chunk
+// settings all match its entry already has its chunks in the store and is skipped.
+export class IndexManifest {
+  private entries = new Map<string, ManifestEntry>();
+
+  constructor(private manifestPath?: string) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(filePath: string): ManifestEntry | undefined {
+    return this.entries.get(filePath);
+  }
+
+  set(filePath: string, entry: ManifestEntry): void {
+    this.entries.set(filePath, entry);
+  }
+
+  delete(filePath: string): void {
+    this.entries.delete(filePath);
+  }
+
+  paths(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  async load(): Promise<boolean> {
+    if (!this.manifestPath) return false;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.manifestPath, 'utf-8')) as SerializedManifest;
+      if (data.version !== MANIFEST_VERSION) {
+        console.warn(`⚠️  Ignoring index manifest ${this.manifestPath}: unsupported version ${data.version}`);
+        return false;
+      }
+
+      this.entries.clear();
+      for (const [filePath, entry] of Object.entries(data.documents)) {
+        this.entries.set(filePath, { ...entry, indexedAt: new Date(entry.indexedAt) });
+      }
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Written to a temporary file first so an interrupted save leaves the old manifest intact.
+  // Not indented: every entry carries the outline of its law.
+  async save(): Promise<void> {
+    if (!this.manifestPath) return;
+
+    const data: SerializedManifest = { version: MANIFEST_VERSION, documents: {} };
+    for (const [filePath, entry] of this.entries) {
+      data.documents[filePath] = { ...entry, indexedAt: entry.indexedAt.toISOString() };
+    }
+
+    const tempPath = `${this.manifestPath}.tmp`;
+    await fs.mkdir(path.dirname(this.manifestPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data));
+    await fs.rename(tempPath, this.manifestPath);
+  }
+}
@@ -0,0 +1,85 @@
+const KANJI_DIGITS = ['〇', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+
+const KANJI_DIGIT_VALUES: Record<string, number> = {
+  '〇': 0, '零': 0,
+  '一': 1, '二': 2, '三': 3, '四': 4, '五': 5,
+  '六': 6, '七': 7, '八': 8, '九': 9
+};
+
+const KANJI_UNITS: Record<string, number> = {
+  '十': 10,
+  '百': 100,
+  '千': 1000
+};
+
+const KANJI_LARGE_UNITS: Record<string, number> = {
+  '万': 10000
+};
+
+export const KANJI_NUMERAL_CHARS = '〇零一二三四五六七八九十百千万';
+
+// 709 → 七百九, 1024 → 千二十四 (the positional style used in statute article numbers)
+export const toKanjiNumeral = (value: number): string => {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Cannot convert ${value} to a kanji numeral`);
+  }
+  if (value === 0) {
+    return KANJI_DIGITS[0]!;
+  }
+
+  const convertBelowTenThousand = (n: number): string => {
+    let result = '';
+    for (const [unit, unitValue] of [['千', 1000], ['百', 100], ['十', 10]] as const) {
+      const digit = Math.floor(n / unitValue) % 10;
+      if (digit > 0) {
+        result += (digit === 1 ? '' : KANJI_DIGITS[digit]) + unit;
+      }
+    }
+    const ones = n % 10;
+    return ones > 0 ? result + KANJI_DIGITS[ones] : result;
+  };
+
+  const tenThousands = Math.floor(value / 10000);
+  const rest = value % 10000;
+  return (tenThousands > 0 ? convertBelowTenThousand(tenThousands) + '万' : '') + convertBelowTenThousand(rest);
+};
+
+// 七百九 → 709, 二〇 → 20; returns NaN when the text is not a kanji numeral
+export const parseKanjiNumeral = (text: string): number => {
+  if (!text || ![...text].every(char => KANJI_NUMERAL_CHARS.includes(char))) {
+    return NaN;
+  }
+
+  // Positional notation without units (二〇, 一九九) reads digit by digit
+  if (![...text].some(char => char in KANJI_UNITS || char in KANJI_LARGE_UNITS)) {
+    return [...text].reduce((total, char) => total * 10 + KANJI_DIGIT_VALUES[char]!, 0);
+  }
+
+  let total = 0;
+  let section = 0;
+  let digit: number | null = null;
+
+  for (const char of text) {
+    if (char in KANJI_DIGIT_VALUES) {
+      digit = KANJI_DIGIT_VALUES[char]!;
+    } else if (char in KANJI_UNITS) {
+      section += (digit ?? 1) * KANJI_UNITS[char]!;
+      digit = null;
+    } else {
+      total += (section + (digit ?? 0)) * KANJI_LARGE_UNITS[char]!;
+      section = 0;
+      digit = null;
+    }
+  }
+
+  return total + section + (digit ?? 0);
+};
+
+// Accepts Arabic (709), full-width (７０９) or kanji (七百九) numerals
+export const parseNumeral = (text: string): number => {
+  const normalized = text.replace(/[０-９]/g, char => String(char.charCodeAt(0) - 0xFF10));
+  if (/^\d+$/.test(normalized)) {
+    return parseInt(normalized, 10);
+  }
+  return parseKanjiNumeral(normalized);
+};
@@ -0,0 +1,115 @@
+import { KANJI_NUMERAL_CHARS, parseNumeral, toKanjiNumeral } from './kanji-numerals';
+
+// e-Gov law IDs: era code (1 digit) + era year (2 digits) + law type code + serial,
+// e.g. 129AC0000000089 = 明治29年法律第89号, 321CONSTITUTION = 昭和21年憲法
+export interface DecodedLawId {
+  era: string;              // 明治, 大正, 昭和, 平成, 令和
+  eraYear: number;          // year within the era
+  year: number;             // Western calendar year
+  lawTypeCode: string;      // AC, CO, M, ...
+  lawType?: string;         // 法律, 政令, 省令, ...
+  serialNumber?: number;    // 第N号
+  officialLawNumber?: string; // 昭和二十二年法律第六十七号; unknown for 省令 and 規則
+}
+
+const ERAS: Record<string, { name: string; startYear: number }> = {
+  '1': { name: '明治', startYear: 1868 },
+  '2': { name: '大正', startYear: 1912 },
+  '3': { name: '昭和', startYear: 1926 },
+  '4': { name: '平成', startYear: 1989 },
+  '5': { name: '令和', startYear: 2019 }
+};
+
+export const LAW_TYPES: Record<string, string> = {
+  CONSTITUTION: '憲法',
+  AC: '法律',
+  CO: '政令',
+  IO: '勅令',
+  M: '省令',
+  RJNJ: '規則',
+  DF: '太政官布告',
+  DT: '太政官達'
+};
+
+export const toWesternYear = (era: string, eraYear: number): number | undefined => {
+  const entry = Object.values(ERAS).find(candidate => candidate.name === era);
+  return entry ? entry.startYear + eraYear - 1 : undefined;
+};
+
+const NUMERAL = `[0-9０-９${KANJI_NUMERAL_CHARS}]+`;
+const ERA_DATE_PATTERN = new RegExp(`(明治|大正|昭和|平成|令和)(元|${NUMERAL})年(${NUMERAL})月(${NUMERAL})日`);
+
+// 明治二十九年四月二十七日, 平成元年1月8日 → local date; undefined when no valid date is found
+export const parseEraDate = (text: string): Date | undefined => {
+  const match = text.match(ERA_DATE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, era, eraYearText, monthText, dayText] = match;
+  const eraYear = eraYearText === '元' ? 1 : parseNumeral(eraYearText!);
+  const year = toWesternYear(era!, eraYear);
+  const month = parseNumeral(monthText!);
+  const day = parseNumeral(dayText!);
+  if (!year || !month || !day) {
+    return undefined;
+  }
+
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : undefined;
+};
+
+// The official numbers of these name their issuer (昭和二十二年厚生省令第一号, 人事院規則一―一),
+// which the law ID does not spell out
+const ISSUER_NAMED_LAW_TYPES = new Set(['省令', '規則']);
+
+// 昭和二十二年法律第六十七号, 昭和二十一年憲法, 平成元年政令第一号; undefined for 省令 and 規則
+export const formatOfficialLawNumber = (
+  era: string,
+  eraYear: number,
+  lawType: string,
+  serialNumber?: number
+): string | undefined => {
+  if (ISSUER_NAMED_LAW_TYPES.has(lawType)) {
+    return undefined;
+  }
+
+  const yearLabel = `${era}${eraYear === 1 ? '元' : toKanjiNumeral(eraYear)}年`;
+  return serialNumber === undefined
+    ? `${yearLabel}${lawType}`
+    : `${yearLabel}${lawType}第${toKanjiNumeral(serialNumber)}号`;
+};
+
+const LAW_ID_PATTERN = /^([1-5])(\d{2})([A-Z]+)(\d*)$/;
+
+export const decodeLawId = (lawId: string): DecodedLawId | null => {
+  const match = lawId.match(LAW_ID_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, eraCode, eraYearText, lawTypeCode, serialText] = match;
+  const era = ERAS[eraCode!]!;
+  const eraYear = parseInt(eraYearText!, 10);
+  const lawType = LAW_TYPES[lawTypeCode!];
+
+  // The serial sits in the trailing digits; leading digits flag Diet-member bills and issuing ministries
+  const serialNumber = serialText ? parseInt(serialText.slice(-5), 10) || undefined : undefined;
+
+  const officialLawNumber = formatOfficialLawNumber(
+    era.name,
+    eraYear,
+    lawType || lawTypeCode!,
+    lawTypeCode === 'CONSTITUTION' ? undefined : serialNumber
+  );
+
+  return {
+    era: era.name,
+    eraYear,
+    year: era.startYear + eraYear - 1,
+    lawTypeCode: lawTypeCode!,
+    lawType,
+    serialNumber,
+    officialLawNumber
+  };
+};
@@ -0,0 +1,185 @@
+import { DocumentChunk, FilterValue, MetadataFilter } from '../types';
+import { normalizeArticleKey } from './article-number';
+
+export class InvalidFilterError extends Error {
+  constructor(message: string, public field: string) {
+    super(message);
+    this.name = 'InvalidFilterError';
+  }
+}
+
+const VALUE_FIELDS = ['category', 'lawNumber', 'era', 'lawType', 'articleNumber', 'provisionType'] as const;
+const PROVISION_TYPES = ['main', 'supplementary'];
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+};
+
+const toStringList = (value: unknown, field: string): string[] => {
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.every(item => typeof item === 'string')) {
+    throw new InvalidFilterError(`Filter "${field}" must be a string or a list of strings`, field);
+  }
+  return (list as string[]).map(item => item.trim()).filter(Boolean);
+};
+
+// Accepts 'x', ['x', 'y'], { $in: [...] }, { $ne: 'x' } and { $nin: [...] }.
+// Query strings arrive as repeated params (?era=昭和&era=平成) or brackets (?era[$ne]=昭和).
+const parseValue = (value: unknown, field: string): FilterValue | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  if (!isPlainObject(value)) {
+    const list = toStringList(value, field);
+    if (list.length === 0) return undefined;
+    return Array.isArray(value) ? list : list[0];
+  }
+
+  const operators = Object.keys(value);
+  if (operators.length !== 1 || !['$in', '$ne', '$nin'].includes(operators[0]!)) {
+    throw new InvalidFilterError(`Filter "${field}" supports only one of $in, $ne or $nin`, field);
+  }
+
+  const operator = operators[0] as '$in' | '$ne' | '$nin';
+  const list = toStringList(value[operator], `${field}.${operator}`);
+  if (list.length === 0) return undefined;
+
+  if (operator === '$ne') {
+    if (list.length > 1) {
+      throw new InvalidFilterError(`Filter "${field}.$ne" takes a single value; use $nin for several`, field);
+    }
+    return { $ne: list[0]! };
+  }
+
+  return operator === '$in' ? { $in: list } : { $nin: list };
+};
+
+const valuesOf = (value: FilterValue): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value;
+  if ('$ne' in value) return [value.$ne];
+  return '$in' in value ? value.$in : value.$nin;
+};
+
+// Parses YYYY-MM-DD as a local date; Date instances pass through
+const parseDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return value;
+  }
+
+  const match = typeof value === 'string' ? value.match(DATE_PATTERN) : null;
+  if (match) {
+    const [year, month, day] = match.slice(1).map(part => parseInt(part, 10)) as [number, number, number];
+    const date = new Date(year, month - 1, day);
+    if (date.getMonth() === month - 1 && date.getDate() === day) {
+      return date;
+    }
+  }
+
+  throw new InvalidFilterError(`Filter "${field}" must be a date in YYYY-MM-DD format`, field);
+};
+
+const parseGroups = (value: unknown, field: string): MetadataFilter[] | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  // qs turns long indexed lists ($or[0]..$or[25]) into objects keyed by index
+  const groups = Array.isArray(value) ? value : isPlainObject(value) ? Object.values(value) : null;
+  if (!groups) {
+    throw new InvalidFilterError(`Filter "${field}" must be a list of filter groups`, field);
+  }
+
+  const parsed = groups
+    .map((group, index) => parseMetadataFilter(group, `${field}[${index}]`))
+    .filter((group): group is MetadataFilter => group !== undefined);
+
+  return parsed.length > 0 ? parsed : undefined;
+};
+
+// Validates a filter taken from a JSON body or an Express query object.
+// Dates may be given as dateRange: { start, end } or as top-level from / to.
+export const parseMetadataFilter = (raw: unknown, path: string = 'filters'): MetadataFilter | undefined => {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!isPlainObject(raw)) {
+    throw new InvalidFilterError(`"${path}" must be an object`, path);
+  }
+
+  const filter: MetadataFilter = {};
+
+  for (const field of VALUE_FIELDS) {
+    const value = parseValue(raw[field], `${path}.${field}`);
+    if (value !== undefined) {
+      filter[field] = value as never;
+    }
+  }
+
+  if (filter.provisionType && !valuesOf(filter.provisionType).every(value => PROVISION_TYPES.includes(value))) {
+    throw new InvalidFilterError(`Filter "${path}.provisionType" must be "main" or "supplementary"`, `${path}.provisionType`);
+  }
+
+  const dateRange = isPlainObject(raw.dateRange) ? raw.dateRange : {};
+  const start = parseDate(raw.from ?? dateRange.start, `${path}.from`);
+  const end = parseDate(raw.to ?? dateRange.end, `${path}.to`);
+  if (start || end) {
+    filter.dateRange = { start, end };
+  }
+
+  const and = parseGroups(raw.$and, `${path}.$and`);
+  const or = parseGroups(raw.$or, `${path}.$or`);
+  if (and) filter.$and = and;
+  if (or) filter.$or = or;
+
+  return Object.keys(filter).length > 0 ? filter : undefined;
+};
+
+// Dates are compared as YYYYMMDD numbers, the form stored in vector store metadata
+export const toDateValue = (date: Date): number => {
+  return date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+};
+
+const matchesValue = (actual: string, expected: FilterValue, normalize: (item: string) => string): boolean => {
+  if (typeof expected === 'string') return actual === normalize(expected);
+  if (Array.isArray(expected)) return expected.map(normalize).includes(actual);
+  if ('$in' in expected) return expected.$in.map(normalize).includes(actual);
+  if ('$ne' in expected) return actual !== normalize(expected.$ne);
+  return !expected.$nin.map(normalize).includes(actual);
+};
+
+// In-memory counterpart of the Chroma where clause, for indexes that hold chunks locally.
+// Missing metadata compares as '' the same way it is stored in Chroma.
+export const matchesFilter = (chunk: DocumentChunk, filter: MetadataFilter): boolean => {
+  const fields: Array<[FilterValue | undefined, string | undefined, (item: string) => string]> = [
+    [filter.category, chunk.metadata.category, item => item],
+    [filter.lawNumber, chunk.metadata.lawNumber, item => item],
+    [filter.era, chunk.metadata.era, item => item],
+    [filter.lawType, chunk.metadata.lawType, item => item],
+    [filter.articleNumber, chunk.articleKey, item => normalizeArticleKey(item) || item],
+    [filter.provisionType, chunk.provisionType || 'main', item => item]
+  ];
+
+  for (const [expected, actual, normalize] of fields) {
+    if (expected !== undefined && !matchesValue(actual || '', expected, normalize)) {
+      return false;
+    }
+  }
+
+  if (filter.dateRange?.start || filter.dateRange?.end) {
+    if (!chunk.metadata.promulgationDate) return false;
+    const date = toDateValue(chunk.metadata.promulgationDate);
+    if (filter.dateRange.start && date < toDateValue(filter.dateRange.start)) return false;
+    if (filter.dateRange.end && date > toDateValue(filter.dateRange.end)) return false;
+  }
+
+  if (filter.$and && !filter.$and.every(group => matchesFilter(chunk, group))) {
+    return false;
+  }
+
+  return !filter.$or || filter.$or.length === 0 || filter.$or.some(group => matchesFilter(chunk, group));
+};
@@ -0,0 +1,63 @@
+import { AIProvider, TokenUsage } from '../types/vertex-ai';
+
+interface ModelPrice {
+  input: number;   // USD per 1M input tokens
+  output: number;  // USD per 1M output tokens
+}
+
+// List prices; dated model versions (gpt-4o-2024-08-06) match their family by prefix
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.15, output: 0.6 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+  'text-embedding-004': { input: 0.025, output: 0 },
+};
+
+// Used for models missing from the table
+const PROVIDER_PRICES: Partial<Record<AIProvider, Record<'embedding' | 'generation', ModelPrice>>> = {
+  openai: {
+    embedding: { input: 0.02, output: 0 },
+    generation: { input: 0.5, output: 1.5 },
+  },
+  vertexai: {
+    embedding: { input: 0.15, output: 0 },
+    generation: { input: 2.5, output: 7.5 },
+  },
+  gemini: {
+    embedding: { input: 0.15, output: 0 },
+    generation: { input: 2.5, output: 7.5 },
+  },
+};
+
+const findModelPrice = (model: string): ModelPrice | undefined => {
+  const exact = MODEL_PRICES[model];
+  if (exact) return exact;
+
+  // Longest prefix first, so gpt-4o-mini-2024-07-18 is not priced as gpt-4o
+  const family = Object.keys(MODEL_PRICES)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_PRICES[family] : undefined;
+};
+
+export const calculateCost = (
+  provider: AIProvider,
+  operation: 'embedding' | 'generation',
+  model: string | undefined,
+  usage: TokenUsage
+): number => {
+  const price = (model && findModelPrice(model)) || PROVIDER_PRICES[provider]?.[operation];
+  if (!price) {
+    return 0;
+  }
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
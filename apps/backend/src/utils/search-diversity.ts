@@ -0,0 +1,183 @@
+import { DocumentChunk, SearchOptions, SearchResult } from '../types';
+
+export class InvalidDiversityOptionsError extends Error {
+  constructor(message: string, public field: string) {
+    super(message);
+    this.name = 'InvalidDiversityOptionsError';
+  }
+}
+
+export type DiversityOptions = Pick<SearchOptions, 'mmrLambda' | 'maxPerDocument'>;
+
+// Candidates fetched per requested result when diversifying, so there is something to choose from
+export const DIVERSITY_CANDIDATE_FACTOR = 3;
+
+// Leading characters of a chunk searched for in its predecessor to find their shared text
+const OVERLAP_ANCHOR_LENGTH = 8;
+
+export const isDiversityRequested = (options: DiversityOptions): boolean => {
+  return options.mmrLambda !== undefined || options.maxPerDocument !== undefined;
+};
+
+// Validates mmrLambda / maxPerDocument from a JSON body or a query string
+export const parseDiversityOptions = (raw: { mmrLambda?: unknown; maxPerDocument?: unknown }): DiversityOptions => {
+  const options: DiversityOptions = {};
+
+  if (raw.mmrLambda !== undefined && raw.mmrLambda !== '') {
+    const lambda = Number(raw.mmrLambda);
+    if (typeof raw.mmrLambda === 'boolean' || isNaN(lambda) || lambda < 0 || lambda > 1) {
+      throw new InvalidDiversityOptionsError('"mmrLambda" must be a number between 0 and 1', 'mmrLambda');
+    }
+    options.mmrLambda = lambda;
+  }
+
+  if (raw.maxPerDocument !== undefined && raw.maxPerDocument !== '') {
+    const max = Number(raw.maxPerDocument);
+    if (typeof raw.maxPerDocument === 'boolean' || !Number.isInteger(max) || max < 1) {
+      throw new InvalidDiversityOptionsError('"maxPerDocument" must be a positive integer', 'maxPerDocument');
+    }
+    options.maxPerDocument = max;
+  }
+
+  return options;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+// Greedy maximal marginal relevance: each pick maximises
+// lambda * score - (1 - lambda) * (highest similarity to an already picked chunk).
+// Without mmrLambda the results keep their order and only maxPerDocument applies.
+// Chunks without an embedding count as dissimilar to everything.
+export const diversifyResults = (
+  results: SearchResult[],
+  options: DiversityOptions & { limit: number },
+  embeddings: Map<string, number[]> = new Map()
+): SearchResult[] => {
+  const { mmrLambda, maxPerDocument, limit } = options;
+  const remaining = [...results].sort((a, b) => b.score - a.score);
+  const selected: SearchResult[] = [];
+  const perDocument = new Map<string, number>();
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestValue = -Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const candidate = remaining[i]!;
+      if (maxPerDocument !== undefined && (perDocument.get(candidate.chunk.documentPath) || 0) >= maxPerDocument) {
+        continue;
+      }
+      if (mmrLambda === undefined) {
+        bestIndex = i;
+        break;
+      }
+
+      const embedding = embeddings.get(candidate.chunk.id);
+      const redundancy = embedding
+        ? Math.max(0, ...selected.map(chosen => {
+          const other = embeddings.get(chosen.chunk.id);
+          return other ? cosineSimilarity(embedding, other) : 0;
+        }))
+        : 0;
+      const value = mmrLambda * candidate.score - (1 - mmrLambda) * redundancy;
+
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    }
+
+    if (bestIndex === -1) break;
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    selected.push(picked!);
+    perDocument.set(picked!.chunk.documentPath, (perDocument.get(picked!.chunk.documentPath) || 0) + 1);
+  }
+
+  return selected;
+};
+
+// Joins b onto a, dropping the longest suffix of a that b starts with
+const joinContent = (a: string, b: string): string => {
+  if (a.includes(b)) return a;
+
+  const anchor = b.substring(0, OVERLAP_ANCHOR_LENGTH);
+  for (let index = a.indexOf(anchor); anchor && index >= 0; index = a.indexOf(anchor, index + 1)) {
+    if (b.startsWith(a.substring(index))) {
+      return a.substring(0, index) + b;
+    }
+  }
+  return `${a}\n${b}`;
+};
+
+// Stitches chunks, ordered by position, into one continuous text without repeating overlaps
+export const joinChunkContents = (chunks: DocumentChunk[]): string => {
+  return chunks.slice(1).reduce((content, chunk) => joinContent(content, chunk.content), chunks[0]?.content || '');
+};
+
+// Chunks are only merged within one document, article and provision type
+const mergeKey = (chunk: DocumentChunk): string => {
+  return [chunk.documentPath, chunk.articleKey ?? '', chunk.provisionType ?? ''].join('\u0000');
+};
+
+interface MergeGroup {
+  key: string;
+  rank: number;         // input position of the best-ranked member
+  end: number;          // furthest endPosition so far
+  members: SearchResult[];
+}
+
+// Overlapping or touching chunks of the same document (and the same article, when known)
+// become one span so a provision is cited once. The merged result takes the best score and
+// sits where its best-ranked part was. Chunks are swept in position order, so a chunk that
+// bridges two others joins them into one span.
+export const mergeAdjacentChunks = (results: SearchResult[]): SearchResult[] => {
+  const ordered = results
+    .map((result, rank) => ({ result, rank, key: mergeKey(result.chunk) }))
+    .sort((a, b) => a.key.localeCompare(b.key) || a.result.chunk.startPosition - b.result.chunk.startPosition);
+
+  const groups: MergeGroup[] = [];
+  for (const { result, rank, key } of ordered) {
+    const current = groups[groups.length - 1];
+    if (current && current.key === key && result.chunk.startPosition <= current.end) {
+      current.members.push(result);
+      current.end = Math.max(current.end, result.chunk.endPosition);
+      current.rank = Math.min(current.rank, rank);
+    } else {
+      groups.push({ key, rank, end: result.chunk.endPosition, members: [result] });
+    }
+  }
+
+  return groups.sort((a, b) => a.rank - b.rank).map(({ members: ordered }) => {
+    if (ordered.length === 1) return ordered[0]!;
+
+    const best = ordered.reduce((top, result) => result.score > top.score ? result : top);
+    const first = ordered[0]!;
+    const paragraphs = new Set(ordered.map(result => result.chunk.paragraphNumber));
+
+    return {
+      ...best,
+      chunk: {
+        ...best.chunk,
+        content: joinChunkContents(ordered.map(result => result.chunk)),
+        chunkIndex: first.chunk.chunkIndex,
+        startPosition: first.chunk.startPosition,
+        endPosition: Math.max(...ordered.map(result => result.chunk.endPosition)),
+        paragraphNumber: paragraphs.size === 1 ? best.chunk.paragraphNumber : undefined
+      },
+      highlights: Array.from(new Set(ordered.flatMap(result => result.highlights))).slice(0, 3)
+    };
+  });
+};
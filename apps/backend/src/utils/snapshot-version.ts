@@ -0,0 +1,40 @@
+import * as fs from 'fs/promises';
+
+// Raised instead of overwriting a snapshot that another process (index:documents, the server's
+// document watcher) rewrote after this one loaded it. The store has then dropped its unsaved
+// changes and loaded the other snapshot, so later writes build on it.
+export class SnapshotConflictError extends Error {
+  constructor(public filePath: string) {
+    super(`${filePath} was rewritten by another process since it was loaded; unsaved changes were dropped for it, re-run indexing on top of it`);
+    this.name = 'SnapshotConflictError';
+  }
+}
+
+// Modification time and size of a snapshot file as this process last loaded or wrote it
+export class SnapshotVersion {
+  private version?: string;
+
+  constructor(private filePath: string) {}
+
+  async remember(): Promise<void> {
+    this.version = await this.read();
+  }
+
+  // True when the file exists and is not the one last loaded or written here
+  async isReplaced(): Promise<boolean> {
+    const version = await this.read();
+    return version !== undefined && version !== this.version;
+  }
+
+  private async read(): Promise<string | undefined> {
+    try {
+      const stats = await fs.stat(this.filePath);
+      return `${stats.mtimeMs}:${stats.size}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
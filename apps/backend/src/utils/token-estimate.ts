@@ -0,0 +1,12 @@
+// Rough token count for when a provider does not report usage. Tokenizers spend about one
+// token per kana or kanji but pack ASCII text at about four characters a token.
+export const estimateTokens = (text: string): number => {
+  let wide = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) > 0x2e7f) {
+      wide++;
+    }
+  }
+  const narrow = text.length - wide;
+  return Math.ceil(wide + narrow / 4);
+};
@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestUsage } from '../types/vertex-ai';
+
+// Running totals for one search request. The provider factory adds every billed call made
+// inside the scope, including the query embedding and reranking calls that are not passed
+// any request state, and tags its cost records with the conversation ID.
+export interface UsageScope {
+  conversationId?: string;
+  usage: RequestUsage;
+}
+
+const storage = new AsyncLocalStorage<UsageScope>();
+
+export const createUsageScope = (conversationId?: string): UsageScope => ({
+  conversationId,
+  usage: { inputTokens: 0, outputTokens: 0, cost: 0 }
+});
+
+export const currentUsageScope = (): UsageScope | undefined => storage.getStore();
+
+export const runInUsageScope = <T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> => {
+  return storage.run(scope, fn);
+};
+
+// A generator body resumes in the context of whoever calls next(), not the one it was created
+// in, so each step is run inside the scope
+export async function* iterateInUsageScope<T>(scope: UsageScope, iterable: AsyncIterable<T>): AsyncGenerator<T> {
+  const iterator = iterable[Symbol.asyncIterator]();
+  let done = false;
+  try {
+    for (let step = await storage.run(scope, () => iterator.next()); !step.done; step = await storage.run(scope, () => iterator.next())) {
+      yield step.value;
+    }
+    done = true;
+  } finally {
+    // Consumer stopped early: let the generator run its finally blocks inside the scope too
+    if (!done) {
+      await storage.run(scope, async () => {
+        await iterator.return?.();
+      });
+    }
+  }
+}
@@ -19,7 +19,12 @@ export function MessageBubble({ message }: MessageBubbleProps) {
           ? 'bg-primary text-primary-foreground' 
           : 'bg-muted'
       }`}>
-        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+        <p className="text-sm whitespace-pre-wrap">
+          {message.content}
+          {message.isStreaming && (
+            <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-current align-text-bottom" />
+          )}
+        </p>
         
         {message.sources && message.sources.length > 0 && (
           <MessageSources sources={message.sources} />
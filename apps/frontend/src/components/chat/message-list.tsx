@@ -12,6 +12,7 @@ interface MessageListProps {
 
 export function MessageList({ messages, isLoading }: MessageListProps) {
   const messagesEndRef = React.useRef<HTMLDivElement>(null);
+  const isStreaming = messages.some((message) => message.isStreaming);
 
   React.useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -34,7 +35,7 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
         <MessageBubble key={message.id} message={message} />
       ))}
       
-      {isLoading && <LoadingMessage />}
+      {isLoading && !isStreaming && <LoadingMessage />}
       
       <div ref={messagesEndRef} />
     </div>
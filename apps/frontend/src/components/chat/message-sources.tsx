@@ -9,6 +9,19 @@ interface MessageSourcesProps {
   sources: Source[];
 }
 
+// 民法 > 第三編 債権 > 第五章 不法行為 > 第七百九条
+function formatBreadcrumb(source: Source): string | null {
+  if (!source.articleNumber && !source.headingPath?.length) {
+    return null;
+  }
+
+  const article = source.articleNumber && source.paragraphNumber
+    ? `${source.articleNumber} 第${source.paragraphNumber}項`
+    : source.articleNumber;
+
+  return [source.title, ...(source.headingPath || []), article].filter(Boolean).join(' > ');
+}
+
 export function MessageSources({ sources }: MessageSourcesProps) {
   return (
     <Card className="mt-3 bg-background/50">
@@ -21,7 +34,10 @@ export function MessageSources({ sources }: MessageSourcesProps) {
       <CardContent className="space-y-2">
         {sources.map((source, index) => (
           <div key={index} className="border-l-2 border-primary/20 pl-3 py-2">
-            <div className="font-medium text-sm">{source.title}</div>
+            <div className="font-medium text-sm">{formatBreadcrumb(source) || source.title}</div>
+            {source.officialLawNumber && (
+              <div className="text-xs text-muted-foreground">{source.officialLawNumber}</div>
+            )}
             <div className="text-xs text-muted-foreground mt-1">
               {source.excerpt}
             </div>
@@ -33,6 +49,9 @@ export function MessageSources({ sources }: MessageSourcesProps) {
               )}
               <span className="text-xs text-muted-foreground">
                 関連度: {(source.score * 100).toFixed(1)}%
+                {source.originalScore !== undefined && (
+                  <> (検索時: {(source.originalScore * 100).toFixed(1)}%)</>
+                )}
               </span>
             </div>
           </div>
@@ -2,25 +2,89 @@
 
 import * as React from "react"
 import { useChatStore } from '@/store/chat-store'
-import { LAW_CATEGORIES, ERAS } from '@/lib/types'
+import { LAW_CATEGORIES, ERAS, LAW_TYPES, PROVISION_TYPES, ProvisionType } from '@/lib/types'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+import { ChevronDown } from 'lucide-react'
+
+interface MultiSelectFilterProps {
+  id: string;
+  options: Record<string, string>;
+  selected?: string[];
+  onChange: (values: string[] | undefined) => void;
+  className?: string;
+}
+
+// Checkbox dropdown; the backend ORs the selected values together
+function MultiSelectFilter({ id, options, selected = [], onChange, className }: MultiSelectFilterProps) {
+  const toggle = (value: string, checked: boolean) => {
+    const next = checked ? [...selected, value] : selected.filter(item => item !== value);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  const summary = selected.length === 0
+    ? 'すべて'
+    : selected.map(value => options[value] ?? value).join('・');
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button id={id} variant="outline" className={cn('h-8 justify-between px-3 font-normal', className)}>
+          <span className="truncate">{summary}</span>
+          <ChevronDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onSelect={() => onChange(undefined)}>すべて</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        {Object.entries(options).map(([value, name]) => (
+          <DropdownMenuCheckboxItem
+            key={value}
+            checked={selected.includes(value)}
+            onCheckedChange={(checked) => toggle(value, checked)}
+            onSelect={(event) => event.preventDefault()}
+          >
+            {name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
 
 export function SearchFilters() {
   const { filters, setFilters } = useChatStore();
 
-  const handleCategoryChange = (value: string) => {
+  const handleMultiSelectChange = (key: 'category' | 'era' | 'lawType', values: string[] | undefined) => {
     setFilters({
       ...filters,
-      category: value === 'all' ? undefined : value,
+      [key]: values,
     });
   };
 
-  const handleEraChange = (value: string) => {
+  const handleDateChange = (key: 'from' | 'to', value: string) => {
     setFilters({
       ...filters,
-      era: value === 'all' ? undefined : value,
+      [key]: value || undefined,
+    });
+  };
+
+  const handleProvisionTypeChange = (value: string) => {
+    setFilters({
+      ...filters,
+      provisionType: value === 'all' ? undefined : value as ProvisionType,
     });
   };
 
@@ -30,34 +94,72 @@ export function SearchFilters() {
         <div className="flex gap-4 items-end">
           <div className="space-y-2">
             <Label htmlFor="category-filter" className="text-xs">カテゴリ</Label>
-            <Select 
-              value={filters.category || 'all'} 
-              onValueChange={handleCategoryChange}
-            >
-              <SelectTrigger className="w-40 h-8">
-                <SelectValue placeholder="すべて" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">すべて</SelectItem>
-                {Object.entries(LAW_CATEGORIES).map(([code, name]) => (
-                  <SelectItem key={code} value={code}>{name}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <MultiSelectFilter
+              id="category-filter"
+              className="w-40"
+              options={LAW_CATEGORIES}
+              selected={filters.category}
+              onChange={(values) => handleMultiSelectChange('category', values)}
+            />
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="era-filter" className="text-xs">時代</Label>
+            <MultiSelectFilter
+              id="era-filter"
+              className="w-32"
+              options={ERAS}
+              selected={filters.era}
+              onChange={(values) => handleMultiSelectChange('era', values)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="date-from-filter" className="text-xs">公布日</Label>
+            <div className="flex items-center gap-1">
+              <Input
+                id="date-from-filter"
+                type="date"
+                className="w-36 h-8"
+                value={filters.from || ''}
+                max={filters.to}
+                onChange={(event) => handleDateChange('from', event.target.value)}
+              />
+              <span className="text-xs text-muted-foreground">〜</span>
+              <Input
+                id="date-to-filter"
+                type="date"
+                className="w-36 h-8"
+                value={filters.to || ''}
+                min={filters.from}
+                onChange={(event) => handleDateChange('to', event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="law-type-filter" className="text-xs">法令種別</Label>
+            <MultiSelectFilter
+              id="law-type-filter"
+              className="w-32"
+              options={LAW_TYPES}
+              selected={filters.lawType}
+              onChange={(values) => handleMultiSelectChange('lawType', values)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="provision-type-filter" className="text-xs">本則・附則</Label>
             <Select 
-              value={filters.era || 'all'} 
-              onValueChange={handleEraChange}
+              value={filters.provisionType || 'all'} 
+              onValueChange={handleProvisionTypeChange}
             >
               <SelectTrigger className="w-32 h-8">
                 <SelectValue placeholder="すべて" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">すべて</SelectItem>
-                {Object.entries(ERAS).map(([key, name]) => (
+                {Object.entries(PROVISION_TYPES).map(([key, name]) => (
                   <SelectItem key={key} value={key}>{name}</SelectItem>
                 ))}
               </SelectContent>
@@ -1,12 +1,11 @@
 // API functions for Japanese Law Search
+import { SearchFilters, Source } from './types';
+
 export interface SearchRequest {
   query: string;
   conversationId?: string;
   language: string;
-  filters?: {
-    category?: string;
-    era?: string;
-  };
+  filters?: SearchFilters;
 }
 
 export interface SearchResponse {
@@ -14,17 +13,19 @@ export interface SearchResponse {
   data: {
     answer: string;
     conversationId: string;
-    sources: Array<{
-      title: string;
-      excerpt: string;
-      score: number;
-      lawNumber?: string;
-      category?: string;
-    }>;
+    sources: Source[];
     relatedQuestions?: string[];
   };
 }
 
+// Called in this order while POST /api/search/stream answers
+export interface SearchStreamHandlers {
+  onSources: (sources: Source[]) => void;
+  onToken: (text: string) => void;
+  onRelatedQuestions: (questions: string[]) => void;
+  onDone: (conversationId: string) => void;
+}
+
 export interface ConversationResponse {
   success: boolean;
   data: {
@@ -57,6 +58,61 @@ export const api = {
     return response.json();
   },
 
+  // Resolves once the done event arrives; rejects on an error event or a cut-off stream
+  async searchStream(request: SearchRequest, handlers: SearchStreamHandlers): Promise<void> {
+    const response = await fetch('/api/search/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (let read = await reader.read(); !read.done; read = await reader.read()) {
+      buffer += read.value;
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        const lines = rawEvent.split('\n');
+        const type = lines.find(line => line.startsWith('event: '))?.slice('event: '.length);
+        const data = lines
+          .filter(line => line.startsWith('data: '))
+          .map(line => line.slice('data: '.length))
+          .join('\n');
+        if (!type || !data) continue;
+
+        const payload = JSON.parse(data);
+        switch (type) {
+          case 'sources':
+            handlers.onSources(payload.sources);
+            break;
+          case 'token':
+            handlers.onToken(payload.text);
+            break;
+          case 'related':
+            handlers.onRelatedQuestions(payload.relatedQuestions);
+            break;
+          case 'done':
+            handlers.onDone(payload.conversationId);
+            return;
+          case 'error':
+            throw new Error(payload.message);
+        }
+      }
+    }
+
+    throw new Error('Search stream ended before the answer was complete');
+  },
+
   async getConversation(conversationId: string): Promise<ConversationResponse> {
     const response = await fetch(`/api/conversations/${conversationId}`);
     
@@ -7,6 +7,7 @@ export interface Message {
   timestamp: Date;
   sources?: Source[];
   relatedQuestions?: string[];
+  isStreaming?: boolean;  // answer still arriving from /api/search/stream
 }
 
 export interface Source {
@@ -14,9 +15,20 @@ export interface Source {
   excerpt: string;
   score: number;
   lawNumber?: string;
+  officialLawNumber?: string;
   category?: string;
+  articleNumber?: string;
+  paragraphNumber?: number;
+  headingPath?: string[];
+  provisionType?: ProvisionType;
+  amendmentLawNumber?: string;
+  originalScore?: number;  // retrieval score, set when the sources were reranked
+  rerankScore?: number;
 }
 
+// 本則 (main provisions) or 附則 (supplementary provisions)
+export type ProvisionType = 'main' | 'supplementary';
+
 export interface Conversation {
   id: string;
   title: string;
@@ -25,9 +37,14 @@ export interface Conversation {
   messages: Message[];
 }
 
+// Multi-select values are sent as lists, which the backend matches with $in
 export interface SearchFilters {
-  category?: string;
-  era?: string;
+  category?: string[];
+  era?: string[];
+  lawType?: string[];
+  provisionType?: ProvisionType;
+  from?: string;  // 公布日, YYYY-MM-DD, inclusive
+  to?: string;    // YYYY-MM-DD, inclusive
 }
 
 export interface ChatState {
@@ -51,6 +68,22 @@ export const LAW_CATEGORIES = {
   '325': '民事訴訟法',
 } as const;
 
+// Law type mapping (decoded from e-Gov law IDs)
+export const LAW_TYPES = {
+  '憲法': '憲法',
+  '法律': '法律',
+  '政令': '政令',
+  '勅令': '勅令',
+  '省令': '省令',
+  '規則': '規則',
+} as const;
+
+// Provision type mapping
+export const PROVISION_TYPES = {
+  'main': '本則',
+  'supplementary': '附則',
+} as const;
+
 // Era mapping
 export const ERAS = {
   '明治': '明治',
@@ -37,30 +37,54 @@ export const useChatStore = create<ChatState>((set, get) => ({
       isLoading: true,
     }));
 
-    try {
-      const response = await api.search({
-        query,
-        conversationId: currentConversationId || undefined,
-        language: 'ja',
-        filters,
-      });
+    const assistantId = `assistant-${Date.now()}`;
+    const updateAssistant = (update: (message: Message) => Partial<Message>) => {
+      set((state) => ({
+        messages: state.messages.map((message) =>
+          message.id === assistantId ? { ...message, ...update(message) } : message
+        ),
+      }));
+    };
 
-      if (response.success) {
-        const assistantMessage: Message = {
-          id: `assistant-${Date.now()}`,
-          role: 'assistant',
-          content: response.data.answer,
-          timestamp: new Date(),
-          sources: response.data.sources,
-          relatedQuestions: response.data.relatedQuestions,
-        };
+    try {
+      await api.searchStream(
+        {
+          query,
+          conversationId: currentConversationId || undefined,
+          language: 'ja',
+          filters,
+        },
+        {
+          // Sources arrive first and open the answer bubble, which then fills in token by token
+          onSources: (sources) => {
+            const assistantMessage: Message = {
+              id: assistantId,
+              role: 'assistant',
+              content: '',
+              timestamp: new Date(),
+              sources,
+              isStreaming: true,
+            };
 
-        set((state) => ({
-          messages: [...state.messages, assistantMessage],
-          currentConversationId: response.data.conversationId,
-          isLoading: false,
-        }));
-      }
+            set((state) => ({
+              messages: [...state.messages, assistantMessage],
+            }));
+          },
+          onToken: (text) => {
+            updateAssistant((message) => ({ content: message.content + text }));
+          },
+          onRelatedQuestions: (relatedQuestions) => {
+            updateAssistant(() => ({ relatedQuestions }));
+          },
+          onDone: (conversationId) => {
+            updateAssistant(() => ({ isStreaming: false }));
+            set({
+              currentConversationId: conversationId,
+              isLoading: false,
+            });
+          },
+        }
+      );
     } catch (error) {
       console.error('Search error:', error);
       
@@ -71,8 +95,9 @@ export const useChatStore = create<ChatState>((set, get) => ({
         timestamp: new Date(),
       };
 
+      // A partial answer is dropped; the server does not keep it in the conversation either
       set((state) => ({
-        messages: [...state.messages, errorMessage],
+        messages: [...state.messages.filter((message) => message.id !== assistantId), errorMessage],
         isLoading: false,
       }));
     }